@@ -5,5 +5,11 @@ export default defineConfig({
   integrations: [react()],
   server: {
     port: 4321
+  },
+  vite: {
+    // Workers are created with `type: 'module'`; ES output also lets them load the demo backend on demand
+    worker: {
+      format: 'es'
+    }
   }
 });
@@ -0,0 +1,213 @@
+import { parseArgs } from 'node:util';
+import { readFile, readdir, stat, writeFile, mkdir } from 'node:fs/promises';
+import { basename, dirname, join, resolve } from 'node:path';
+import {
+  createBatchItem,
+  processBatchFile,
+  runWithConcurrency,
+  combineResults,
+  assignOutputNames,
+  buildBatchSummary,
+  MAX_CONCURRENCY,
+  SUMMARY_NAME,
+  type BatchItem
+} from '../lib/batch';
+import { DEFAULT_PROFILE, DEMO_PROFILE, completeProfile, toConnection, type ApiProfile } from '../lib/profiles';
+import { getInputFormat } from '../lib/formats';
+import { describeReconnect } from '../lib/api';
+import { createTranslator, DEFAULT_LOCALE } from '../lib/i18n';
+
+// Headless batch run for pipelines: the same upload and event handling as the queue in the app,
+// with the result workbooks and resumen.json written to a folder instead of a ZIP.
+//
+// Exit codes: 0 ok, 1 bad arguments or unreadable input, 2 a file failed or the error rate
+// passed --max-error-rate, 130 interrupted.
+
+const USAGE = `Uso: npm run geocode -- [opciones] <archivo|carpeta>...
+
+Opciones:
+  --url <url>              URL base de la API (por defecto ${DEFAULT_PROFILE.baseUrl})
+  --profile <archivo>      Perfil de API en JSON (un perfil o una lista de perfiles)
+  --profile-name <nombre>  Perfil de la lista a usar, por nombre o id
+  --demo                   Usa el backend simulado, sin red
+  --out <carpeta>          Carpeta de resultados (por defecto ./resultados)
+  --summary <archivo>      Resumen JSON (por defecto <out>/${SUMMARY_NAME})
+  --concurrency <n>        Archivos en paralelo, de 1 a ${MAX_CONCURRENCY} (por defecto 1)
+  --max-error-rate <0-1>   Tasa de filas con error que hace fallar la ejecucion (por defecto 0.05)
+  -h, --help               Muestra esta ayuda`;
+
+// Progress lines per file are throttled so CI logs stay readable
+const PROGRESS_INTERVAL = 5000;
+
+class UsageError extends Error {}
+
+const { values: options, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        url: { type: 'string' },
+        profile: { type: 'string' },
+        'profile-name': { type: 'string' },
+        demo: { type: 'boolean' },
+        out: { type: 'string', default: 'resultados' },
+        summary: { type: 'string' },
+        concurrency: { type: 'string', default: '1' },
+        'max-error-rate': { type: 'string', default: '0.05' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    process.exit(1);
+  }
+})();
+
+const { describeError, translate } = createTranslator(DEFAULT_LOCALE);
+
+const log = (message: string) => console.error(`[${new Date().toLocaleTimeString()}] ${message}`);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// Same defaults as profiles restored from localStorage
+const loadProfile = async (path: string, name?: string): Promise<ApiProfile> => {
+  const stored: unknown = JSON.parse(await readFile(path, 'utf8'));
+  const profiles = (Array.isArray(stored) ? stored : [stored]) as Partial<ApiProfile>[];
+  const profile = name ? profiles.find(p => p.name === name || p.id === name) : profiles[0];
+  if (!profile) throw new UsageError(`No hay ningun perfil ${name ? `"${name}" ` : ''}en ${path}`);
+  return completeProfile(profile);
+};
+
+// Folders contribute the supported files directly inside them, skipping results of earlier runs
+const collectInputs = async (paths: string[]) => {
+  const files: string[] = [];
+  for (const path of paths) {
+    const info = await stat(path).catch(() => null);
+    if (!info) throw new UsageError(`No existe ${path}`);
+    if (info.isDirectory()) {
+      const names = (await readdir(path)).sort();
+      files.push(...names.filter(n => getInputFormat(n) !== null && !n.endsWith('_con_cp.xlsx')).map(n => join(path, n)));
+    } else if (getInputFormat(path) !== null) {
+      files.push(path);
+    } else {
+      throw new UsageError(`Formato no admitido: ${path}`);
+    }
+  }
+  return files;
+};
+
+const readInput = async (path: string) => new File([new Uint8Array(await readFile(path))], basename(path));
+
+const main = async () => {
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('Indica al menos un archivo o carpeta');
+
+  const concurrency = Number(options.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_CONCURRENCY) {
+    throw new UsageError(`--concurrency debe estar entre 1 y ${MAX_CONCURRENCY}`);
+  }
+  const maxErrorRate = Number(options['max-error-rate']);
+  if (Number.isNaN(maxErrorRate) || maxErrorRate < 0 || maxErrorRate > 1) {
+    throw new UsageError('--max-error-rate debe estar entre 0 y 1');
+  }
+
+  const profile = options.demo
+    ? DEMO_PROFILE
+    : options.profile ? await loadProfile(options.profile, options['profile-name']) : DEFAULT_PROFILE;
+  const api = toConnection(options.url ? { ...profile, baseUrl: options.url } : profile);
+  if (!api.demo && !/^https?:\/\//.test(api.baseUrl)) throw new UsageError(`URL de API no valida: ${api.baseUrl}`);
+
+  const paths = await collectInputs(positionals);
+  if (paths.length === 0) throw new UsageError('No se ha encontrado ningun archivo para procesar');
+  const items = await Promise.all(paths.map(async path => createBatchItem(await readInput(path))));
+
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    log('Cancelando...');
+    controller.abort();
+  });
+
+  log(`Procesando ${items.length} archivo(s) con ${api.baseUrl}`);
+
+  await runWithConcurrency(items, concurrency, async (item: BatchItem) => {
+    if (controller.signal.aborted) {
+      item.status = 'cancelled';
+      return;
+    }
+    const name = item.file.name;
+    let lastReport = 0;
+    item.status = 'processing';
+    item.startedAt = Date.now();
+    log(`${name}: iniciando`);
+
+    try {
+      const run = await processBatchFile(api, item.file, DEFAULT_LOCALE, (processed, total) => {
+        item.processed = processed;
+        item.total = total;
+        const now = Date.now();
+        if (now - lastReport < PROGRESS_INTERVAL || total === 0) return;
+        lastReport = now;
+        log(`${name}: ${processed}/${total} (${percent(processed / total)})`);
+      }, controller.signal, info => log(`${name}: ${translate(describeReconnect(info))}`));
+
+      Object.assign(item, { status: 'done', result: run.result, output: run.output, outputName: run.outputName });
+      const { total, encontrados, dudosos, noEncontrados, errores } = run.result;
+      log(`${name}: ${total} filas, ${encontrados} encontradas, ${dudosos} dudosas, ${noEncontrados} no encontradas, ${errores} errores`);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        item.status = 'cancelled';
+        log(`${name}: cancelado`);
+      } else {
+        item.status = 'error';
+        item.error = describeError(err);
+        log(`${name}: error: ${item.error}`);
+      }
+    } finally {
+      item.finishedAt = Date.now();
+    }
+  });
+
+  const outDir = resolve(options.out);
+  await mkdir(outDir, { recursive: true });
+  const names = assignOutputNames(items, [SUMMARY_NAME]);
+  for (const [i, item] of items.entries()) {
+    const name = names[i];
+    if (item.output && name) {
+      await writeFile(join(outDir, name), new Uint8Array(await item.output.arrayBuffer()));
+    }
+  }
+
+  const summaryPath = resolve(options.summary ?? join(outDir, SUMMARY_NAME));
+  await mkdir(dirname(summaryPath), { recursive: true });
+  await writeFile(summaryPath, JSON.stringify(buildBatchSummary(items, names), null, 2));
+
+  const total = combineResults(items);
+  const errorRate = total.total > 0 ? total.errores / total.total : 0;
+  const failed = items.filter(item => item.status === 'error').length;
+  log(`Resultados en ${outDir}; resumen en ${summaryPath}`);
+  log(`Total: ${total.total} filas, ${total.encontrados} encontradas, tasa de errores ${percent(errorRate)}`);
+
+  if (controller.signal.aborted) return 130;
+  if (failed > 0) {
+    log(`${failed} archivo(s) no se han podido procesar`);
+    return 2;
+  }
+  if (errorRate > maxErrorRate) {
+    log(`La tasa de errores supera el maximo de ${percent(maxErrorRate)}`);
+    return 2;
+  }
+  return 0;
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(describeError(err));
+    if (err instanceof UsageError) console.error(USAGE);
+    process.exit(1);
+  }
+);
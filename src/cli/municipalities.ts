@@ -0,0 +1,81 @@
+import { parseArgs } from 'node:util';
+import { readFile, writeFile } from 'node:fs/promises';
+import { basename, resolve } from 'node:path';
+import { readSheetRows, type Cell } from '../lib/workbook';
+import { buildMunicipalityTable } from '../lib/municipalities';
+
+// Rebuilds src/lib/municipalities.json from INE's "Relacion de municipios y codigos por provincias"
+// (diccMM.xlsx, or the same table saved as CSV). The file starts with a title block; the table
+// itself is the one whose header has CPRO and NOMBRE.
+//
+// Exit codes: 0 ok, 1 bad arguments or a file without that table.
+
+const USAGE = `Uso: npm run municipalities -- [opciones] <archivo>
+
+Opciones:
+  --out <archivo>  Tabla a escribir (por defecto src/lib/municipalities.json)
+  -h, --help       Muestra esta ayuda`;
+
+const { values: options, positionals } = (() => {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', default: 'src/lib/municipalities.json' },
+        help: { type: 'boolean', short: 'h' }
+      }
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    console.error(USAGE);
+    process.exit(1);
+  }
+})();
+
+const text = (value: Cell | undefined) => String(value ?? '').trim();
+
+// CPRO may come as a number once the file has been through a spreadsheet
+const provinceCode = (value: Cell | undefined) => text(value).padStart(2, '0');
+
+// One entry per line, so a new INE release shows up as a readable diff
+const formatTable = (table: Record<string, string[]>) =>
+  `{\n${Object.entries(table).map(([name, codes]) => `  ${JSON.stringify(name)}: ${JSON.stringify(codes)}`).join(',\n')}\n}\n`;
+
+const main = async () => {
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length !== 1) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  const path = positionals[0];
+  const { header, rows } = await readSheetRows(new File([new Uint8Array(await readFile(path))], basename(path)));
+  const table = [header, ...rows];
+  const headerIndex = table.findIndex(row => row.some(cell => text(cell) === 'CPRO') && row.some(cell => text(cell) === 'NOMBRE'));
+  if (headerIndex < 0) {
+    console.error(`${path} no tiene las columnas CPRO y NOMBRE del listado de municipios del INE`);
+    return 1;
+  }
+
+  const names = table[headerIndex].map(text);
+  const [cpro, nombre] = [names.indexOf('CPRO'), names.indexOf('NOMBRE')];
+  const entries = table.slice(headerIndex + 1)
+    .filter(cells => /^\d{1,2}$/.test(text(cells[cpro])) && text(cells[nombre]) !== '')
+    .map((cells): [string, string] => [provinceCode(cells[cpro]), text(cells[nombre])]);
+
+  const out = resolve(options.out);
+  await writeFile(out, formatTable(buildMunicipalityTable(entries)));
+  console.error(`${entries.length} municipios escritos en ${out}`);
+  return 0;
+};
+
+main().then(
+  code => process.exit(code),
+  err => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,270 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  createBatchItem,
+  processBatchFile,
+  runWithConcurrency,
+  combineResults,
+  buildBatchZip,
+  MAX_CONCURRENCY,
+  type BatchItem,
+  type BatchStatus
+} from '../lib/batch';
+import { saveJob, enforceLimits, type HistoryLimits } from '../lib/history';
+import { saveBlob } from '../lib/download';
+import type { ApiConnection } from '../lib/api';
+import type { ApiStatus } from '../lib/types';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './I18nContext';
+
+interface BatchQueueProps {
+  api: ApiConnection;
+  apiStatus: ApiStatus;
+  files: File[];
+  historyLimits: HistoryLimits;
+  onClear: () => void;
+  onSaved: () => void;
+}
+
+const STATUS_LABELS: Record<BatchStatus, { label: MessageKey; badge: string }> = {
+  pending: { label: 'queue.status.pending', badge: 'badge-pending' },
+  processing: { label: 'queue.status.processing', badge: 'badge-processing' },
+  done: { label: 'queue.status.done', badge: 'badge-success' },
+  error: { label: 'queue.status.error', badge: 'badge-error' },
+  cancelled: { label: 'queue.status.cancelled', badge: 'badge-warning' }
+};
+
+// Progress events can arrive hundreds of times per second; the table only needs a few updates
+const PROGRESS_INTERVAL = 250;
+
+export default function BatchQueue({ api, apiStatus, files, historyLimits, onClear, onSaved }: BatchQueueProps) {
+  const { t, locale, number, fileSize, duration, describeError } = useI18n();
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [concurrency, setConcurrency] = useState(1);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const cancelledRef = useRef(false);
+
+  // Queue any newly dropped files, keeping the state of the ones already there
+  useEffect(() => {
+    setItems(prev => files.map(file => prev.find(item => item.file === file) ?? createBatchItem(file)));
+  }, [files]);
+
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach(controller => controller.abort());
+  }, []);
+
+  const updateItem = (id: string, changes: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const runItem = async (item: BatchItem) => {
+    if (cancelledRef.current) {
+      updateItem(item.id, { status: 'cancelled' });
+      return;
+    }
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    const startedAt = Date.now();
+    let lastUpdate = 0;
+    updateItem(item.id, { status: 'processing', processed: 0, total: 0, error: undefined, startedAt });
+
+    try {
+      const run = await processBatchFile(api, item.file, locale, (processed, total) => {
+        const now = Date.now();
+        if (now - lastUpdate < PROGRESS_INTERVAL && processed < total) return;
+        lastUpdate = now;
+        updateItem(item.id, { processed, total });
+      }, controller.signal);
+
+      const finishedAt = Date.now();
+      updateItem(item.id, {
+        status: 'done',
+        processed: run.result.total,
+        total: run.result.total,
+        result: run.result,
+        output: run.output,
+        outputName: run.outputName,
+        finishedAt
+      });
+
+      // Each file is kept in the history as its own job
+      saveJob({
+        id: item.id,
+        fileName: item.file.name,
+        apiUrl: api.baseUrl,
+        startedAt,
+        finishedAt,
+        status: 'completed',
+        result: run.result,
+        outputName: run.outputName,
+        size: 0,
+        rows: run.rows,
+        log: run.log,
+        output: run.output,
+        mapping: run.mapping
+      })
+        .then(() => enforceLimits(historyLimits))
+        .then(onSaved)
+        .catch(err => console.warn('Could not save job history:', err));
+    } catch (err) {
+      updateItem(item.id, controller.signal.aborted
+        ? { status: 'cancelled', finishedAt: Date.now() }
+        : { status: 'error', error: describeError(err), finishedAt: Date.now() });
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  const start = async () => {
+    const queued = items.filter(item => item.status !== 'done');
+    if (queued.length === 0 || apiStatus !== 'online') return;
+    cancelledRef.current = false;
+    setIsRunning(true);
+    try {
+      await runWithConcurrency(queued, concurrency, runItem);
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  // Items still waiting are marked cancelled too so the pool drains without starting them
+  const cancel = () => {
+    cancelledRef.current = true;
+    controllersRef.current.forEach(controller => controller.abort());
+  };
+
+  const downloadZip = async () => {
+    setIsZipping(true);
+    try {
+      saveBlob(await buildBatchZip(items), `geocoder_lote_${new Date().toISOString().slice(0, 10)}.zip`);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const summary = combineResults(items);
+  const done = items.filter(item => item.status === 'done').length;
+  const failed = items.filter(item => item.status === 'error' || item.status === 'cancelled').length;
+
+  return (
+    <div className="batch-queue">
+      <div className="batch-toolbar">
+        <label className="batch-concurrency">
+          {t('queue.parallel')}
+          <select
+            className="form-select"
+            value={concurrency}
+            disabled={isRunning}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+          >
+            {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(n => (
+              <option key={n} value={n}>{n === 1 ? t('queue.sequential') : n}</option>
+            ))}
+          </select>
+        </label>
+        <span className="preview-hint">
+          {t('queue.summary', { count: items.length, done })}
+          {failed > 0 ? ` · ${t('queue.failed', { count: failed })}` : ''}
+        </span>
+      </div>
+
+      <div className="preview-table-wrapper">
+        <table className="preview-table batch-table">
+          <thead>
+            <tr>
+              <th>{t('common.file')}</th>
+              <th>{t('common.status')}</th>
+              <th>{t('queue.progress')}</th>
+              <th>{t('results.found')}</th>
+              <th>{t('results.suspect')}</th>
+              <th>{t('results.notFound')}</th>
+              <th>{t('results.errors')}</th>
+              <th>{t('common.duration')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => {
+              const percent = item.total > 0 ? Math.round((item.processed / item.total) * 100) : 0;
+              return (
+                <tr key={item.id}>
+                  <td>
+                    <div className="file-name">{item.file.name}</div>
+                    <div className="file-size">{fileSize(item.file.size)}</div>
+                  </td>
+                  <td>
+                    <span className={`badge ${STATUS_LABELS[item.status].badge}`}>{t(STATUS_LABELS[item.status].label)}</span>
+                    {item.error && <div className="row-detail-error">{item.error}</div>}
+                  </td>
+                  <td>
+                    <span className="rate-bar">
+                      <span className="rate-fill" style={{ width: `${item.status === 'done' ? 100 : percent}%` }}></span>
+                    </span>
+                    {item.total > 0 ? `${number(item.processed)} / ${number(item.total)}` : '—'}
+                  </td>
+                  <td>{item.result ? number(item.result.encontrados) : '—'}</td>
+                  <td>{item.result ? number(item.result.dudosos) : '—'}</td>
+                  <td>{item.result ? number(item.result.noEncontrados) : '—'}</td>
+                  <td>{item.result ? number(item.result.errores) : '—'}</td>
+                  <td>
+                    {item.startedAt && item.finishedAt
+                      ? duration(Math.round((item.finishedAt - item.startedAt) / 1000))
+                      : '—'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {done > 0 && (
+        <div className="results-summary batch-summary">
+          <div className="result-stat">
+            <div className="result-stat-value">{number(summary.total)}</div>
+            <div className="result-stat-label">{t('queue.totalRows')}</div>
+          </div>
+          <div className="result-stat success">
+            <div className="result-stat-value">{number(summary.encontrados)}</div>
+            <div className="result-stat-label">{t('results.found')}</div>
+          </div>
+          <div className="result-stat suspect">
+            <div className="result-stat-value">{number(summary.dudosos)}</div>
+            <div className="result-stat-label">{t('results.suspect')}</div>
+          </div>
+          <div className="result-stat">
+            <div className="result-stat-value">{number(summary.noEncontrados)}</div>
+            <div className="result-stat-label">{t('results.notFound')}</div>
+          </div>
+          <div className="result-stat error">
+            <div className="result-stat-value">{number(summary.errores)}</div>
+            <div className="result-stat-label">{t('results.errors')}</div>
+          </div>
+        </div>
+      )}
+
+      <div className="batch-actions">
+        {isRunning ? (
+          <button className="btn btn-secondary" onClick={cancel}>
+            {t('common.cancel')}
+          </button>
+        ) : (
+          <button
+            className="btn btn-primary"
+            disabled={apiStatus !== 'online' || items.every(item => item.status === 'done')}
+            onClick={start}
+          >
+            {done > 0 || failed > 0 ? t('queue.processPending') : t('queue.process')}
+          </button>
+        )}
+        <button className="btn btn-success" disabled={isRunning || isZipping || done === 0} onClick={downloadZip}>
+          {isZipping ? t('queue.zipping') : t('queue.zip')}
+        </button>
+        <button className="btn btn-secondary" disabled={isRunning} onClick={onClear}>
+          {t('queue.clear')}
+        </button>
+      </div>
+    </div>
+  );
+}
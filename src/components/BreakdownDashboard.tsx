@@ -0,0 +1,129 @@
+import { useMemo } from 'react';
+import { buildBreakdown } from '../lib/breakdown';
+import type { ProcessedRow } from '../lib/workbook';
+import { useI18n } from './I18nContext';
+
+interface BreakdownDashboardProps {
+  rows: ProcessedRow[];
+}
+
+interface BarDatum {
+  label: string;
+  value: number;
+  secondary?: number;
+}
+
+const MUNICIPALITY_LIMIT = 15;
+const BAR_HEIGHT = 22;
+const LABEL_WIDTH = 170;
+const CHART_WIDTH = 520;
+
+// Horizontal bar chart drawn as plain SVG; `secondary` stacks a second segment after the first
+function BarChart({ data, primaryClass, secondaryClass }: { data: BarDatum[]; primaryClass: string; secondaryClass?: string }) {
+  const { number } = useI18n();
+  const max = Math.max(1, ...data.map(d => d.value + (d.secondary ?? 0)));
+  const barArea = CHART_WIDTH - LABEL_WIDTH - 50;
+  const height = data.length * BAR_HEIGHT;
+
+  return (
+    <svg className="bar-chart" viewBox={`0 0 ${CHART_WIDTH} ${height}`} width="100%" height={height} role="img">
+      {data.map((d, i) => {
+        const y = i * BAR_HEIGHT;
+        const primary = (d.value / max) * barArea;
+        const secondary = ((d.secondary ?? 0) / max) * barArea;
+        return (
+          <g key={d.label} transform={`translate(0, ${y})`}>
+            <text className="bar-label" x={LABEL_WIDTH - 8} y={BAR_HEIGHT / 2} dominantBaseline="middle" textAnchor="end">
+              {d.label.length > 24 ? d.label.slice(0, 23) + '…' : d.label}
+            </text>
+            <rect className={primaryClass} x={LABEL_WIDTH} y={4} width={primary} height={BAR_HEIGHT - 8} rx={3} />
+            {secondary > 0 && (
+              <rect className={secondaryClass} x={LABEL_WIDTH + primary} y={4} width={secondary} height={BAR_HEIGHT - 8} rx={3} />
+            )}
+            <text className="bar-value" x={LABEL_WIDTH + primary + secondary + 6} y={BAR_HEIGHT / 2} dominantBaseline="middle">
+              {number(d.value + (d.secondary ?? 0))}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+export default function BreakdownDashboard({ rows }: BreakdownDashboardProps) {
+  const { t, number, percent } = useI18n();
+  const breakdown = useMemo(() => buildBreakdown(rows), [rows]);
+  const municipalities = breakdown.municipalities.slice(0, MUNICIPALITY_LIMIT);
+
+  return (
+    <div className="breakdown">
+      <div className="grid-2">
+        <div className="breakdown-panel">
+          <div className="form-label">{t('breakdown.byProvince')}</div>
+          {breakdown.provinces.length > 0 ? (
+            <BarChart
+              data={breakdown.provinces.map(p => ({ label: `${p.code} ${p.name}`, value: p.count }))}
+              primaryClass="bar-found"
+            />
+          ) : (
+            <p className="preview-hint">{t('breakdown.noneFound')}</p>
+          )}
+          {breakdown.unknownPrefix > 0 && (
+            <p className="preview-hint">{t('breakdown.unknownPrefix', { count: breakdown.unknownPrefix })}</p>
+          )}
+        </div>
+
+        <div className="breakdown-panel">
+          <div className="form-label">{t('breakdown.unresolved')}</div>
+          {breakdown.unresolved.length > 0 ? (
+            <BarChart
+              data={breakdown.unresolved.map(m => ({ label: m.name || t('breakdown.noMunicipality'), value: m.notFound, secondary: m.errors }))}
+              primaryClass="bar-not-found"
+              secondaryClass="bar-error"
+            />
+          ) : (
+            <p className="preview-hint">{t('breakdown.allResolved')}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="breakdown-panel">
+        <div className="form-label">{t('breakdown.rate')}</div>
+        <table className="preview-table breakdown-table">
+          <thead>
+            <tr>
+              <th>{t('common.municipality')}</th>
+              <th>{t('breakdown.rows')}</th>
+              <th>{t('results.found')}</th>
+              <th>{t('results.notFound')}</th>
+              <th>{t('results.errors')}</th>
+              <th>{t('breakdown.rateColumn')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {municipalities.map(m => (
+              <tr key={m.name}>
+                <td>{m.name || t('breakdown.noMunicipality')}</td>
+                <td>{number(m.total)}</td>
+                <td>{number(m.found)}</td>
+                <td>{number(m.notFound)}</td>
+                <td>{number(m.errors)}</td>
+                <td>
+                  <span className="rate-bar">
+                    <span className="rate-fill" style={{ width: `${Math.round(m.rate * 100)}%` }}></span>
+                  </span>
+                  {percent(m.rate)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {breakdown.municipalities.length > MUNICIPALITY_LIMIT && (
+          <p className="preview-hint">
+            {t('breakdown.showing', { limit: MUNICIPALITY_LIMIT, total: breakdown.municipalities.length })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect } from 'react';
+import { countCache, clearCache, CACHE_MAX_AGES, type CacheSettings as Settings } from '../lib/cache';
+import { useI18n } from './I18nContext';
+
+interface CacheSettingsProps {
+  refreshKey: number;
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  disabled: boolean;
+}
+
+export default function CacheSettings({ refreshKey, settings, onChange, disabled }: CacheSettingsProps) {
+  const { t } = useI18n();
+  const [entries, setEntries] = useState<number | null>(null);
+
+  // Without IndexedDB the count stays hidden and runs simply upload every pair
+  const refresh = () => {
+    countCache().then(setEntries, () => setEntries(null));
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  const clear = async () => {
+    await clearCache().catch(err => console.warn('Could not clear the lookup cache:', err));
+    refresh();
+  };
+
+  return (
+    <div className="cache-settings">
+      <label className="cache-toggle">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+          disabled={disabled}
+        />
+        {t('cache.enabled')}
+      </label>
+      <label className="cache-age">
+        {t('cache.maxAge')}
+        <select
+          className="form-select"
+          value={settings.maxAgeDays}
+          onChange={(e) => onChange({ ...settings, maxAgeDays: Number(e.target.value) })}
+          disabled={disabled || !settings.enabled}
+        >
+          {CACHE_MAX_AGES.map(days => (
+            <option key={days} value={days}>{t('cache.days', { count: days })}</option>
+          ))}
+        </select>
+      </label>
+      {entries !== null && (
+        <span className="preview-hint">{t('cache.entries', { count: entries })}</span>
+      )}
+      <button className="btn btn-secondary btn-small" onClick={clear} disabled={disabled || !entries}>
+        {t('cache.clear')}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import {
+  DEGRADED_LATENCY,
+  POLL_INTERVALS,
+  type DiagnosticsReport,
+  type LatencySample,
+  type ProbeState
+} from '../lib/diagnostics';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './I18nContext';
+
+interface DiagnosticsPanelProps {
+  report: DiagnosticsReport | null;
+  history: LatencySample[];
+  pollInterval: number;
+  isChecking: boolean;
+  onPollIntervalChange: (interval: number) => void;
+  onRefresh: () => void;
+}
+
+const PROBE_LABELS: Record<ProbeState, { label: MessageKey; badge: string }> = {
+  available: { label: 'diagnostics.state.available', badge: 'badge-success' },
+  missing: { label: 'diagnostics.state.missing', badge: 'badge-warning' },
+  failing: { label: 'diagnostics.state.failing', badge: 'badge-error' },
+  unreachable: { label: 'diagnostics.state.unreachable', badge: 'badge-error' }
+};
+
+const SPARK_WIDTH = 240;
+const SPARK_HEIGHT = 40;
+
+// Latency over the last checks; failed checks leave a gap in the line
+function LatencySparkline({ history }: { history: LatencySample[] }) {
+  const values = history.map(sample => sample.latency);
+  const max = Math.max(DEGRADED_LATENCY, ...values.map(v => v ?? 0));
+  const step = history.length > 1 ? SPARK_WIDTH / (history.length - 1) : 0;
+  const y = (value: number) => SPARK_HEIGHT - (value / max) * (SPARK_HEIGHT - 4) - 2;
+
+  const segments: [number, number][][] = [[]];
+  values.forEach((value, i) => {
+    if (value === null) segments.push([]);
+    else segments[segments.length - 1].push([i * step, y(value)]);
+  });
+
+  return (
+    <svg className="sparkline" viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} width={SPARK_WIDTH} height={SPARK_HEIGHT} role="img">
+      <line className="sparkline-threshold" x1={0} x2={SPARK_WIDTH} y1={y(DEGRADED_LATENCY)} y2={y(DEGRADED_LATENCY)} />
+      {segments.filter(points => points.length > 0).map((points, i) =>
+        points.length === 1
+          ? <circle key={i} className="sparkline-point" cx={points[0][0]} cy={points[0][1]} r={2} />
+          : <polyline key={i} className="sparkline-line" points={points.map(([px, py]) => `${px.toFixed(1)},${py.toFixed(1)}`).join(' ')} />
+      )}
+    </svg>
+  );
+}
+
+export default function DiagnosticsPanel({
+  report,
+  history,
+  pollInterval,
+  isChecking,
+  onPollIntervalChange,
+  onRefresh
+}: DiagnosticsPanelProps) {
+  const { t, translate, number, time } = useI18n();
+  const measured = history.filter(sample => sample.latency !== null).map(sample => sample.latency as number);
+  const average = measured.length > 0 ? Math.round(measured.reduce((sum, v) => sum + v, 0) / measured.length) : null;
+
+  return (
+    <div className="diagnostics fade-in">
+      <div className="diagnostics-header">
+        <select
+          className="form-select"
+          value={pollInterval}
+          onChange={(e) => onPollIntervalChange(Number(e.target.value))}
+        >
+          {Object.entries(POLL_INTERVALS).map(([value, label]) => (
+            <option key={value} value={value}>{t(label)}</option>
+          ))}
+        </select>
+        <button className="btn btn-secondary btn-small" onClick={onRefresh} disabled={isChecking}>
+          {isChecking ? t('diagnostics.checking') : t('diagnostics.checkNow')}
+        </button>
+        {report && (
+          <span className="preview-hint">
+            {t('diagnostics.lastCheck', { time: time(report.checkedAt) })}
+          </span>
+        )}
+      </div>
+
+      {report && report.warnings.length > 0 && (
+        <div className="diagnostics-warning">
+          {report.warnings.map(warning => translate(warning)).map(warning => <div key={warning}>{warning}</div>)}
+        </div>
+      )}
+
+      <div className="grid-3 diagnostics-stats">
+        <div className="diagnostics-stat">
+          <div className="form-label">{t('diagnostics.latency')}</div>
+          <div className={`diagnostics-value ${report?.latency && report.latency > DEGRADED_LATENCY ? 'slow' : ''}`}>
+            {report?.latency != null ? `${number(report.latency)} ms` : '—'}
+          </div>
+          {average !== null && <div className="preview-hint">{t('diagnostics.average', { ms: average })}</div>}
+        </div>
+        <div className="diagnostics-stat">
+          <div className="form-label">{t('diagnostics.version')}</div>
+          <div className="diagnostics-value">{report?.version ?? '—'}</div>
+        </div>
+        <div className="diagnostics-stat">
+          <div className="form-label">{t('diagnostics.history')}</div>
+          {history.length > 0 ? <LatencySparkline history={history} /> : <div className="diagnostics-value">—</div>}
+        </div>
+      </div>
+
+      {report && report.probes.length > 0 && (
+        <table className="preview-table diagnostics-table">
+          <thead>
+            <tr>
+              <th>{t('diagnostics.endpoint')}</th>
+              <th>{t('diagnostics.function')}</th>
+              <th>{t('common.status')}</th>
+              <th>{t('diagnostics.latency')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {report.probes.map(probe => (
+              <tr key={probe.path}>
+                <td><code>{probe.path}</code></td>
+                <td>{probe.required ? t(probe.label) : t('diagnostics.optional', { label: t(probe.label) })}</td>
+                <td>
+                  <span className={`badge ${PROBE_LABELS[probe.state].badge}`}>{t(PROBE_LABELS[probe.state].label)}</span>
+                  {probe.status !== undefined && <span className="preview-hint"> HTTP {probe.status}</span>}
+                </td>
+                <td>{probe.latency !== undefined ? `${number(probe.latency)} ms` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {report?.info != null && (
+        <details className="diagnostics-info">
+          <summary>{t('diagnostics.serverInfo')}</summary>
+          <pre>{typeof report.info === 'string' ? report.info : JSON.stringify(report.info, null, 2)}</pre>
+        </details>
+      )}
+    </div>
+  );
+}
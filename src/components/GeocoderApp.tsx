@@ -1,85 +1,264 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  readWorkbookPreview,
+  readSheetRows,
+  guessWorkbookMapping,
+  type ColumnMapping,
+  type RowCorrection,
+  type SheetPreview
+} from '../lib/workbook';
+import {
+  getInputFormat,
+  isTextFormat,
+  workbookToCsv,
+  rowsToGeoJson,
+  replaceExtension,
+  DEFAULT_TEXT_OPTIONS,
+  INPUT_EXTENSIONS,
+  OUTPUT_FORMATS,
+  ENCODING_LABELS,
+  DELIMITER_LABELS,
+  type DetectedText,
+  type Delimiter,
+  type OutputFormat,
+  type TextEncoding,
+  type TextOptions
+} from '../lib/formats';
+import { saveBlob } from '../lib/download';
+import { createGeocoderClient } from '../lib/client';
+import { loadNotifyOnFinish, saveNotifyOnFinish, requestNotifications, notificationsSupported, notify } from '../lib/notify';
+import { loadCacheSettings, saveCacheSettings, DEFAULT_CACHE_SETTINGS, type CacheSettings as LookupCacheSettings } from '../lib/cache';
+import {
+  loadProfiles,
+  saveProfiles,
+  loadActiveProfileId,
+  saveActiveProfileId,
+  createProfile,
+  toConnection,
+  DEFAULT_PROFILE,
+  DEMO_PROFILE,
+  type ApiProfile
+} from '../lib/profiles';
+import {
+  saveJob,
+  enforceLimits,
+  loadLimits,
+  saveLimits,
+  DEFAULT_HISTORY_LIMITS,
+  type HistoryLimits,
+  type StoredJob
+} from '../lib/history';
+import {
+  buildReport,
+  buildReportRows,
+  reportFilename,
+  REPORT_FORMATS,
+  type ReportFormat,
+  type ReportScope
+} from '../lib/report';
+import { snapshotFromJob } from '../lib/compare';
+import { LATENCY_HISTORY, type DiagnosticsReport, type LatencySample } from '../lib/diagnostics';
+import type { ApiStatus } from '../lib/types';
+import {
+  createTranslator,
+  loadLocale,
+  saveLocale,
+  DEFAULT_LOCALE,
+  LOCALES,
+  type Locale,
+  type MessageKey
+} from '../lib/i18n';
+import { I18nContext } from './I18nContext';
+import useGeocoderJob from './useGeocoderJob';
+import WorkbookPreview from './WorkbookPreview';
+import ResultsTable, { type StatusFilter } from './ResultsTable';
+import SingleLookup from './SingleLookup';
+import BreakdownDashboard from './BreakdownDashboard';
+import JobHistory from './JobHistory';
+import RunComparison from './RunComparison';
+import BatchQueue from './BatchQueue';
+import ProfileEditor from './ProfileEditor';
+import DiagnosticsPanel from './DiagnosticsPanel';
+import LogTerminal from './LogTerminal';
+import CacheSettings from './CacheSettings';
+import ThroughputMeter from './ThroughputMeter';
 
-interface ProcessingResult {
-  total: number;
-  encontrados: number;
-  noEncontrados: number;
-  errores: number;
-}
-
-interface LogEntry {
-  id: number;
-  type: 'info' | 'found' | 'not_found' | 'error' | 'complete';
-  row?: number;
-  direccion?: string;
-  municipio?: string;
-  cp?: string;
-  message?: string;
-  timestamp: Date;
-}
+const API_STATUS_LABELS: Record<ApiStatus, MessageKey> = {
+  online: 'api.status.online',
+  checking: 'api.status.checking',
+  unauthorized: 'api.status.unauthorized',
+  offline: 'api.status.offline'
+};
 
-interface ApiError {
-  message: string;
-  status?: number;
-  details?: string;
-}
-
-type ApiStatus = 'checking' | 'online' | 'offline';
+const REPORT_SCOPE_LABELS: Record<ReportScope, MessageKey> = {
+  not_found: 'report.scope.not_found',
+  suspect: 'report.scope.suspect',
+  errors: 'report.scope.errors',
+  all: 'report.scope.all'
+};
 
 export default function GeocoderApp() {
   // State
-  const [apiUrl, setApiUrl] = useState('https://apicp.si-erp.cloud');
+  const [locale, setLocale] = useState<Locale>(DEFAULT_LOCALE);
+  const [profiles, setProfiles] = useState<ApiProfile[]>([DEFAULT_PROFILE]);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE.id);
+  const [profilesLoaded, setProfilesLoaded] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<ApiProfile | null>(null);
   const [apiStatus, setApiStatus] = useState<ApiStatus>('checking');
+  const [diagnostics, setDiagnostics] = useState<DiagnosticsReport | null>(null);
+  const [latencyHistory, setLatencyHistory] = useState<LatencySample[]>([]);
+  const [pollInterval, setPollInterval] = useState(60000);
+  const [isChecking, setIsChecking] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [mode, setMode] = useState<'batch' | 'single' | 'history' | 'compare'>('batch');
   const [file, setFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<SheetPreview[]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [isReadingFile, setIsReadingFile] = useState(false);
+  const [textOptions, setTextOptions] = useState<TextOptions>(DEFAULT_TEXT_OPTIONS);
+  const [detectedText, setDetectedText] = useState<DetectedText | null>(null);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('xlsx');
+  const [reportScope, setReportScope] = useState<ReportScope>('not_found');
+  const [reportFormat, setReportFormat] = useState<ReportFormat>('csv');
   const [isDragging, setIsDragging] = useState(false);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [totalRows, setTotalRows] = useState(0);
-  const [result, setResult] = useState<ProcessingResult | null>(null);
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null);
-  const [downloadFilename, setDownloadFilename] = useState<string>('resultado.xlsx');
-  const [error, setError] = useState<ApiError | null>(null);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const [logEntries, setLogEntries] = useState<LogEntry[]>([]);
-  const [showLog, setShowLog] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [corrections, setCorrections] = useState<Record<number, RowCorrection>>({});
+  const [historyLimits, setHistoryLimits] = useState<HistoryLimits>(DEFAULT_HISTORY_LIMITS);
+  const [historyRefresh, setHistoryRefresh] = useState(0);
+  const [notifyOnFinish, setNotifyOnFinish] = useState(false);
+  const [canNotify, setCanNotify] = useState(false);
+  const [cacheSettings, setCacheSettings] = useState<LookupCacheSettings>(DEFAULT_CACHE_SETTINGS);
+  const [queuedFiles, setQueuedFiles] = useState<File[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const logContainerRef = useRef<HTMLDivElement>(null);
-  const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const logIdRef = useRef(0);
+  const checkIdRef = useRef(0);
 
-  // Check API status
-  const checkApiStatus = async () => {
-    setApiStatus('checking');
-    try {
-      const response = await fetch(`${apiUrl}/`, {
-        method: 'GET',
-        signal: AbortSignal.timeout(5000)
-      });
-      if (response.ok) {
-        setApiStatus('online');
-      } else {
-        setApiStatus('offline');
-      }
-    } catch {
-      setApiStatus('offline');
-    }
+  const translator = useMemo(() => createTranslator(locale), [locale]);
+  const { t, translate, number, percent, fileSize, duration } = translator;
+
+  const degradedWarnings = apiStatus === 'online' && diagnostics ? diagnostics.warnings.map(translate) : [];
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? profiles[0];
+  const api = useMemo(() => toConnection(activeProfile), [activeProfile]);
+  const client = useMemo(() => createGeocoderClient(api), [api]);
+
+  const job = useGeocoderJob(client, translator);
+  const {
+    isProcessing,
+    isRetrying,
+    progress,
+    totalRows,
+    elapsedTime,
+    result,
+    resultBlob,
+    preparing,
+    rows,
+    activeJobId,
+    downloadFilename,
+    error,
+    resumeInfo,
+    throughput,
+    log,
+    setError
+  } = job;
+  const showLog = isProcessing || log.length > 0;
+
+  // The run on screen can be compared once it has stopped
+  const currentRun = useMemo(
+    () => (job.meta && !isProcessing && rows.length > 0 ? snapshotFromJob({ fileName: job.meta.fileName, rows }, 'current') : null),
+    [job.meta, isProcessing, rows]
+  );
+
+  // Check API status. Background polls keep the current status visible instead of flashing "checking".
+  const checkApiStatus = async (background = false) => {
+    const checkId = ++checkIdRef.current;
+    if (!background) setApiStatus('checking');
+    setIsChecking(true);
+    const report = await client.checkHealth();
+    // A newer check (or a profile switch) supersedes this one
+    if (checkId !== checkIdRef.current) return;
+    setIsChecking(false);
+    setDiagnostics(report);
+    setApiStatus(report.status);
+    setLatencyHistory(prev => [...prev, { at: report.checkedAt, latency: report.latency }].slice(-LATENCY_HISTORY));
   };
 
   useEffect(() => {
+    setLocale(loadLocale());
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  // Progress stays visible in the tab strip while the job runs in the background
+  useEffect(() => {
+    const title = t('app.documentTitle');
+    document.title = isProcessing ? `(${percent(progress / 100)}) ${title}` : title;
+  }, [locale, isProcessing, progress]);
+
+  const changeLocale = (next: Locale) => {
+    setLocale(next);
+    saveLocale(next);
+  };
+
+  useEffect(() => {
+    const stored = loadProfiles();
+    const activeId = loadActiveProfileId();
+    setProfiles(stored);
+    setActiveProfileId(stored.find(p => p.id === activeId)?.id ?? stored[0].id);
+    setProfilesLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!profilesLoaded) return;
+    setLatencyHistory([]);
     checkApiStatus();
-  }, [apiUrl]);
+  }, [api, profilesLoaded]);
 
-  // Auto-scroll log to bottom
   useEffect(() => {
-    if (logContainerRef.current) {
-      logContainerRef.current.scrollTop = logContainerRef.current.scrollHeight;
-    }
-  }, [logEntries]);
+    if (!profilesLoaded || pollInterval === 0) return;
+    const timer = setInterval(() => checkApiStatus(true), pollInterval);
+    return () => clearInterval(timer);
+  }, [api, profilesLoaded, pollInterval]);
+
+  const selectProfile = (id: string) => {
+    setActiveProfileId(id);
+    saveActiveProfileId(id);
+    setEditingProfile(null);
+  };
 
-  // File handling
+  const saveProfile = (profile: ApiProfile) => {
+    const exists = profiles.some(p => p.id === profile.id);
+    const next = exists ? profiles.map(p => (p.id === profile.id ? profile : p)) : [...profiles, profile];
+    setProfiles(next);
+    saveProfiles(next);
+    selectProfile(profile.id);
+  };
+
+  // Switches to the simulated backend, adding its profile the first time
+  const switchToDemo = () => {
+    const demo = profiles.find(p => p.backend === 'demo');
+    if (demo) selectProfile(demo.id);
+    else saveProfile(DEMO_PROFILE);
+  };
+
+  const deleteProfile = (id: string) => {
+    const next = profiles.filter(p => p.id !== id);
+    if (next.length === 0) return;
+    setProfiles(next);
+    saveProfiles(next);
+    selectProfile(next[0].id);
+  };
+
+  // File handling. While a run is going the dropzone takes no files: replacing the file would
+  // reset the job's state under the stream that is still writing to it.
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
+    if (isProcessing || isRetrying) {
+      e.dataTransfer.dropEffect = 'none';
+      return;
+    }
     setIsDragging(true);
   };
 
@@ -90,519 +269,798 @@ export default function GeocoderApp() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
-    const droppedFile = e.dataTransfer.files[0];
-    if (droppedFile && isValidFile(droppedFile)) {
-      setFile(droppedFile);
-      resetState();
-    }
+    addFiles(Array.from(e.dataTransfer.files));
   };
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile && isValidFile(selectedFile)) {
-      setFile(selectedFile);
-      resetState();
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = '';
+  };
+
+  // A single file opens the interactive flow; several go to the queue with automatic mapping
+  const addFiles = (candidates: File[]) => {
+    const valid = candidates.filter(isValidFile);
+    if (valid.length === 0 || isProcessing || isRetrying) return;
+    if (valid.length === 1 && queuedFiles.length === 0) {
+      selectFile(valid[0]);
+      return;
     }
+    removeFile();
+    setQueuedFiles(prev => [...prev, ...valid.filter(f => !prev.some(q => q.name === f.name && q.size === f.size))]);
   };
 
-  const isValidFile = (file: File) => {
-    const validExtensions = ['.xlsx', '.xls', '.xlsm'];
-    return validExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+  // Parse the workbook locally so the sheet and columns can be chosen before uploading
+  const selectFile = async (candidate: File, options: TextOptions = DEFAULT_TEXT_OPTIONS) => {
+    removeFile();
+    setTextOptions(options);
+    setIsReadingFile(true);
+    try {
+      const preview = await readWorkbookPreview(candidate, options);
+      const guessed = guessWorkbookMapping(preview.sheets);
+      if (!guessed) {
+        setError({ message: t('upload.noAddressColumn', { file: candidate.name }) });
+        return;
+      }
+      setFile(candidate);
+      setSheets(preview.sheets);
+      setDetectedText(preview.detected);
+      setMapping(guessed);
+    } catch {
+      setError({ message: t('upload.unreadable', { file: candidate.name }) });
+    } finally {
+      setIsReadingFile(false);
+    }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  // The demo backend is its own chunk, loaded when it is first used
+  const loadSampleWorkbook = async () => {
+    const { createSampleWorkbook } = await import('../lib/demo');
+    selectFile(createSampleWorkbook());
   };
 
+  // Re-read a CSV/TSV with a different encoding or delimiter
+  const changeTextOptions = (options: Partial<TextOptions>) => {
+    if (file) selectFile(file, { ...textOptions, ...options });
+  };
+
+  const isValidFile = (file: File) => getInputFormat(file.name) !== null;
+
   const resetState = () => {
-    setResult(null);
-    setDownloadUrl(null);
-    setError(null);
-    setProgress(0);
-    setTotalRows(0);
-    setLogEntries([]);
-    setShowLog(false);
+    job.reset();
+    setStatusFilter('all');
+    setCorrections({});
   };
 
   const removeFile = () => {
     setFile(null);
+    setSheets([]);
+    setMapping(null);
+    setDetectedText(null);
     resetState();
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    if (mins > 0) return `${mins}m ${secs}s`;
-    return `${secs}s`;
+  const processFile = (resume = false) => {
+    if (!file || !mapping || apiStatus !== 'online') return;
+    setStatusFilter('all');
+    setCorrections({});
+    job.start({ file, mapping, textOptions, warnings: degradedWarnings, cache: cacheSettings }, resume);
   };
 
-  const addLogEntry = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
-    logIdRef.current += 1;
-    setLogEntries(prev => [...prev, { ...entry, id: logIdRef.current, timestamp: new Date() }]);
-  };
+  // Persist the run once it stops (and again after corrections) so it survives closing the tab
+  useEffect(() => {
+    const meta = job.meta;
+    if (isProcessing || isRetrying || !meta) return;
+    saveJob({
+      ...meta,
+      result,
+      outputName: downloadFilename,
+      size: 0,
+      rows,
+      log: log.entries,
+      output: resultBlob,
+      mapping
+    })
+      .then(() => enforceLimits(historyLimits))
+      .then(() => setHistoryRefresh(k => k + 1))
+      .catch(err => console.warn('Could not save job history:', err));
+  }, [isProcessing, isRetrying]);
 
-  // Cleanup on unmount
   useEffect(() => {
-    return () => {
-      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
-    };
+    setHistoryLimits(loadLimits());
+    setCacheSettings(loadCacheSettings());
+    setNotifyOnFinish(loadNotifyOnFinish());
+    setCanNotify(notificationsSupported());
   }, []);
 
-  // Process file with SSE
-  const processFile = async () => {
-    if (!file || apiStatus !== 'online') return;
-
-    setIsProcessing(true);
-    setProgress(0);
-    setElapsedTime(0);
-    setTotalRows(0);
-    setResult(null);
-    setDownloadUrl(null);
-    setError(null);
-    setLogEntries([]);
-    setShowLog(true);
-    logIdRef.current = 0;
-
-    const formData = new FormData();
-    formData.append('file', file);
+  // Desktop notification once a run stops, if the user asked for one; a cancelled run needs none
+  useEffect(() => {
+    const meta = job.meta;
+    if (isProcessing || !meta || !notifyOnFinish || job.cancelled) return;
+    if (meta.status === 'completed' && result) {
+      notify(t('notify.completed', { file: meta.fileName }), t('history.foundOf', { found: result.encontrados, total: result.total }));
+    } else if (meta.status !== 'completed') {
+      notify(t('notify.failed', { file: meta.fileName }), error?.message ?? t(meta.status === 'interrupted' ? 'history.status.interrupted' : 'history.status.failed'));
+    }
+  }, [isProcessing]);
 
-    // Start timer
-    const startTime = Date.now();
-    timerIntervalRef.current = setInterval(() => {
-      setElapsedTime(Math.floor((Date.now() - startTime) / 1000));
-    }, 1000);
+  const changeNotifyOnFinish = async (enabled: boolean) => {
+    const allowed = enabled && await requestNotifications();
+    setNotifyOnFinish(allowed);
+    saveNotifyOnFinish(allowed);
+    if (enabled && !allowed) setError({ message: t('notify.denied') });
+  };
 
-    addLogEntry({ type: 'info', message: `Iniciando procesamiento de ${file.name}...` });
+  const changeHistoryLimits = (limits: HistoryLimits) => {
+    setHistoryLimits(limits);
+    saveLimits(limits);
+  };
 
-    try {
-      const response = await fetch(`${apiUrl}/procesar-excel-stream`, {
-        method: 'POST',
-        body: formData,
-      });
+  const changeCacheSettings = (settings: LookupCacheSettings) => {
+    setCacheSettings(settings);
+    saveCacheSettings(settings);
+  };
 
-      if (!response.ok) {
-        throw new Error(`Error ${response.status}: ${response.statusText}`);
-      }
+  const openJob = (stored: StoredJob) => {
+    removeFile();
+    job.restore(stored);
+    setMapping(stored.mapping);
+    setMode('batch');
+  };
 
-      const reader = response.body?.getReader();
-      if (!reader) throw new Error('No se pudo leer la respuesta');
-
-      const decoder = new TextDecoder();
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (value) {
-          buffer += decoder.decode(value, { stream: true });
-        }
-
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              handleSSEEvent(data);
-            } catch (e) {
-              console.warn('Error parsing SSE:', e);
-            }
-          }
-        }
-
-        if (done) {
-          // Procesar cualquier dato restante en el buffer
-          if (buffer.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(buffer.slice(6));
-              handleSSEEvent(data);
-            } catch (e) {
-              console.warn('Error parsing final SSE:', e);
-            }
-          }
-          break;
-        }
-      }
+  const setCorrection = (index: number, correction: RowCorrection | null) => {
+    setCorrections(prev => {
+      const next = { ...prev };
+      if (correction) next[index] = correction;
+      else delete next[index];
+      return next;
+    });
+  };
 
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Error desconocido';
-      addLogEntry({ type: 'error', message: `Error: ${errorMessage}` });
-      setError({ message: errorMessage });
-    } finally {
-      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
-      setIsProcessing(false);
-    }
+  const retryCorrections = async () => {
+    const pending = Object.entries(corrections).map(([index, c]) => ({ ...c, index: Number(index) }));
+    if (!mapping || apiStatus !== 'online') return;
+    if (await job.retry(mapping, pending)) setCorrections({});
   };
 
-  const handleSSEEvent = (data: any) => {
-    switch (data.type) {
-      case 'start':
-        setTotalRows(data.total);
-        addLogEntry({ type: 'info', message: `Archivo cargado: ${data.total} filas detectadas` });
-        break;
-
-      case 'progress':
-        setProgress(Math.round((data.stats.procesadas / data.total) * 100));
-        addLogEntry({
-          type: data.status === 'found' ? 'found' : 'not_found',
-          row: data.row,
-          direccion: data.direccion,
-          municipio: data.municipio,
-          cp: data.cp
-        });
-        break;
-
-      case 'row_error':
-        addLogEntry({ type: 'error', row: data.row, message: data.error });
-        break;
-
-      case 'error':
-        addLogEntry({ type: 'error', message: data.message });
-        setError({ message: data.message });
-        break;
-
-      case 'complete':
-        setProgress(100);
-        setResult({
-          total: data.stats.procesadas,
-          encontrados: data.stats.encontradas,
-          noEncontrados: data.stats.no_encontradas,
-          errores: data.stats.errores
-        });
-        addLogEntry({ type: 'complete', message: `Completado en ${data.elapsed}` });
-
-        // Create download URL from base64
-        if (data.file) {
-          const byteCharacters = atob(data.file);
-          const byteNumbers = new Array(byteCharacters.length);
-          for (let i = 0; i < byteCharacters.length; i++) {
-            byteNumbers[i] = byteCharacters.charCodeAt(i);
-          }
-          const byteArray = new Uint8Array(byteNumbers);
-          const blob = new Blob([byteArray], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-          setDownloadUrl(URL.createObjectURL(blob));
-          setDownloadFilename(data.filename);
-        }
-        break;
+  // JSON is built from the progress events; xlsx and CSV come from the server workbook
+  const downloadFile = async () => {
+    let blob: Blob | null = null;
+    if (outputFormat === 'json') {
+      blob = rowsToGeoJson(rows, downloadFilename, translate);
+    } else if (resultBlob) {
+      blob = outputFormat === 'csv' ? await workbookToCsv(resultBlob) : resultBlob;
+    }
+    if (blob) {
+      saveBlob(blob, replaceExtension(downloadFilename, outputFormat));
     }
   };
 
-  const downloadFile = () => {
-    if (downloadUrl) {
-      const link = document.createElement('a');
-      link.href = downloadUrl;
-      link.download = downloadFilename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-    }
+  // Worklist of the rows to fix at the source; the original file fills in addresses missing from error events
+  const exportReport = async () => {
+    if (!job.meta) return;
+    const source = file && mapping
+      ? await readSheetRows(file, mapping.sheet, textOptions).catch(() => undefined)
+      : undefined;
+    const reportRows = buildReportRows(rows, log.entries, reportScope, translate, source, mapping);
+    const meta = { ...job.meta, fileSize: file?.size, result, mapping };
+    saveBlob(buildReport(meta, reportRows, reportScope, reportFormat), reportFilename(job.meta.fileName, reportScope, reportFormat));
   };
 
   return (
-    <div className="app-wrapper">
-      {/* Header */}
-      <header className="header">
-        <div className="container">
-          <div className="header-content">
-            <h1>Geocoder CP</h1>
-            <p>Obtener Codigos Postales de direcciones en Excel</p>
-            <div className="header-badge">
-              <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"/>
-                <circle cx="12" cy="10" r="3"/>
-              </svg>
-              API GeoAPI.es
-            </div>
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="main-content">
-        <div className="container">
-          {/* API Configuration */}
-          <div className="card fade-in">
-            <div className="card-title">
-              <div className="card-title-icon">
-                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>
+    <I18nContext.Provider value={translator}>
+      <div className="app-wrapper">
+        {/* Header */}
+        <header className="header">
+          <div className="container">
+            <div className="header-content">
+              <h1>{t('app.title')}</h1>
+              <p>{t('app.subtitle')}</p>
+              <div className="header-badge">
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"/>
+                  <circle cx="12" cy="10" r="3"/>
                 </svg>
+                {t('app.badge')}
               </div>
-              Configuracion de API
+              <select
+                className="language-select"
+                value={locale}
+                onChange={(e) => changeLocale(e.target.value as Locale)}
+                aria-label={t('app.language')}
+              >
+                {(Object.keys(LOCALES) as Locale[]).map(key => (
+                  <option key={key} value={key}>{LOCALES[key]}</option>
+                ))}
+              </select>
             </div>
+          </div>
+        </header>
 
-            <div className="api-config">
-              <input
-                type="text"
-                className="form-input"
-                value={apiUrl}
-                onChange={(e) => setApiUrl(e.target.value)}
-                placeholder="URL de la API"
-              />
-              <button className="btn btn-secondary" onClick={checkApiStatus}>
-                Verificar
-              </button>
-              <div className="status-indicator">
-                <span className={`status-dot ${apiStatus}`}></span>
-                {apiStatus === 'online' ? 'Conectado' : apiStatus === 'checking' ? 'Verificando...' : 'Desconectado'}
+        {/* Main Content */}
+        <main className="main-content">
+          <div className="container">
+            {/* API Configuration */}
+            <div className="card fade-in">
+              <div className="card-title">
+                <div className="card-title-icon">
+                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M12 2L2 7l10 5 10-5-10-5zM2 17l10 5 10-5M2 12l10 5 10-5"/>
+                  </svg>
+                </div>
+                {t('api.title')}
               </div>
-            </div>
-          </div>
 
-          {/* File Upload */}
-          <div className="card fade-in stagger-1">
-            <div className="card-title">
-              <div className="card-title-icon">
-                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
-                  <polyline points="14 2 14 8 20 8"/>
-                  <line x1="12" y1="18" x2="12" y2="12"/>
-                  <line x1="9" y1="15" x2="15" y2="15"/>
-                </svg>
+              <div className="api-config">
+                <select
+                  className="form-select"
+                  value={activeProfile.id}
+                  onChange={(e) => selectProfile(e.target.value)}
+                  disabled={isProcessing || isRetrying}
+                >
+                  {profiles.map(profile => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name} ({profile.backend === 'demo' ? t('profile.backend.demo') : profile.baseUrl})
+                    </option>
+                  ))}
+                </select>
+                <button className="btn btn-secondary" onClick={() => setEditingProfile(activeProfile)} disabled={isProcessing || isRetrying}>
+                  {t('api.edit')}
+                </button>
+                <button className="btn btn-secondary" onClick={() => setEditingProfile(createProfile())} disabled={isProcessing || isRetrying}>
+                  {t('api.new')}
+                </button>
+                <button className="btn btn-secondary" onClick={() => checkApiStatus()}>
+                  {t('api.verify')}
+                </button>
+                <button className="btn btn-secondary" onClick={() => setShowDiagnostics(!showDiagnostics)}>
+                  {t('api.diagnostics')}
+                </button>
+                <div className="status-indicator">
+                  <span className={`status-dot ${apiStatus}`}></span>
+                  {t(API_STATUS_LABELS[apiStatus])}
+                </div>
               </div>
-              Archivo Excel
-            </div>
 
-            <div
-              className={`dropzone ${isDragging ? 'active' : ''}`}
-              onDragOver={handleDragOver}
-              onDragLeave={handleDragLeave}
-              onDrop={handleDrop}
-              onClick={() => fileInputRef.current?.click()}
-            >
-              <div className="dropzone-content">
-                <svg className="dropzone-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
-                  <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
-                  <polyline points="17 8 12 3 7 8"/>
-                  <line x1="12" y1="3" x2="12" y2="15"/>
-                </svg>
-                <p className="dropzone-text">
-                  Arrastra tu archivo aqui o <strong>haz clic para seleccionar</strong>
+              {apiStatus === 'unauthorized' && !editingProfile && (
+                <p className="row-detail-error">
+                  {t('api.unauthorized', { name: activeProfile.name })}
                 </p>
-                <p className="dropzone-hint">Formatos soportados: .xlsx, .xls, .xlsm</p>
-              </div>
-            </div>
+              )}
 
-            <input
-              ref={fileInputRef}
-              type="file"
-              accept=".xlsx,.xls,.xlsm"
-              onChange={handleFileSelect}
-              style={{ display: 'none' }}
-            />
-
-            {file && (
-              <div className="file-info">
-                <svg className="file-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                  <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
-                  <polyline points="14 2 14 8 20 8"/>
-                  <path d="M9 15l2 2 4-4"/>
-                </svg>
-                <div className="file-details">
-                  <div className="file-name">{file.name}</div>
-                  <div className="file-size">{formatFileSize(file.size)}</div>
+              {apiStatus === 'offline' && activeProfile.backend !== 'demo' && !editingProfile && (
+                <div className="demo-offer">
+                  <p>{t('api.offlineDemo')}</p>
+                  <button className="btn btn-secondary btn-small" onClick={switchToDemo} disabled={isProcessing || isRetrying}>
+                    {t('api.useDemo')}
+                  </button>
                 </div>
-                <button className="file-remove" onClick={removeFile} disabled={isProcessing}>
-                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <line x1="18" y1="6" x2="6" y2="18"/>
-                    <line x1="6" y1="6" x2="18" y2="18"/>
-                  </svg>
-                </button>
-              </div>
-            )}
+              )}
 
-            {/* Process Button */}
-            <div style={{ marginTop: '1.5rem', textAlign: 'center' }}>
-              <button
-                className="btn btn-primary"
-                onClick={processFile}
-                disabled={!file || apiStatus !== 'online' || isProcessing}
-              >
-                {isProcessing ? (
-                  <>
-                    <span className="spinner"></span>
-                    Procesando...
-                  </>
-                ) : (
-                  <>
-                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                      <polygon points="5 3 19 12 5 21 5 3"/>
-                    </svg>
-                    Procesar Archivo
-                  </>
-                )}
+              {showDiagnostics && (
+                <DiagnosticsPanel
+                  report={diagnostics}
+                  history={latencyHistory}
+                  pollInterval={pollInterval}
+                  isChecking={isChecking}
+                  onPollIntervalChange={setPollInterval}
+                  onRefresh={() => checkApiStatus(true)}
+                />
+              )}
+
+              {editingProfile && (
+                <ProfileEditor
+                  key={editingProfile.id}
+                  profile={editingProfile}
+                  canDelete={profiles.length > 1 && profiles.some(p => p.id === editingProfile.id)}
+                  onSave={saveProfile}
+                  onDelete={() => deleteProfile(editingProfile.id)}
+                  onCancel={() => setEditingProfile(null)}
+                />
+              )}
+            </div>
+
+            {/* Mode selector */}
+            <div className="mode-tabs fade-in stagger-1">
+              <button className={`mode-tab ${mode === 'batch' ? 'active' : ''}`} onClick={() => setMode('batch')}>
+                {t('mode.batch')}
+              </button>
+              <button className={`mode-tab ${mode === 'single' ? 'active' : ''}`} onClick={() => setMode('single')}>
+                {t('mode.single')}
+              </button>
+              <button className={`mode-tab ${mode === 'history' ? 'active' : ''}`} onClick={() => setMode('history')}>
+                {t('mode.history')}
+              </button>
+              <button className={`mode-tab ${mode === 'compare' ? 'active' : ''}`} onClick={() => setMode('compare')}>
+                {t('mode.compare')}
               </button>
             </div>
 
-            {/* Progress Bar */}
-            {(isProcessing || progress > 0) && (
-              <div className="progress-container">
-                <div className="progress-bar">
-                  <div className="progress-fill" style={{ width: `${progress}%` }}></div>
-                </div>
-                <div className="progress-text">
-                  <span className="progress-status">
-                    {isProcessing ? `Procesando... ${totalRows > 0 ? `(${totalRows} filas)` : ''}` : 'Completado'}
-                  </span>
-                  <span style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
-                    <span style={{ color: '#666', fontSize: '0.85rem' }}>
-                      Tiempo: {formatTime(elapsedTime)}
-                    </span>
-                    <span>{progress}%</span>
-                  </span>
+            {/* Job History */}
+            {mode === 'history' && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <circle cx="12" cy="12" r="10"/>
+                      <polyline points="12 6 12 12 16 14"/>
+                    </svg>
+                  </div>
+                  {t('history.title')}
                 </div>
+                <JobHistory
+                  refreshKey={historyRefresh}
+                  activeJobId={activeJobId}
+                  limits={historyLimits}
+                  onLimitsChange={changeHistoryLimits}
+                  onOpen={openJob}
+                />
               </div>
             )}
 
-            {/* Error Display */}
-            {error && !isProcessing && (
-              <div className="error-container" style={{
-                marginTop: '1.5rem',
-                padding: '1rem',
-                backgroundColor: '#fef2f2',
-                border: '1px solid #fecaca',
-                borderRadius: '8px'
-              }}>
-                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: '#dc2626', fontWeight: 600 }}>
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <circle cx="12" cy="12" r="10"/>
-                    <line x1="12" y1="8" x2="12" y2="12"/>
-                    <line x1="12" y1="16" x2="12.01" y2="16"/>
-                  </svg>
-                  Error
+            {/* Run comparison */}
+            {mode === 'compare' && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <polyline points="17 1 21 5 17 9"/>
+                      <path d="M3 11V9a4 4 0 0 1 4-4h14"/>
+                      <polyline points="7 23 3 19 7 15"/>
+                      <path d="M21 13v2a4 4 0 0 1-4 4H3"/>
+                    </svg>
+                  </div>
+                  {t('compare.title')}
                 </div>
-                <p style={{ color: '#991b1b', margin: '0.5rem 0 0' }}>{error.message}</p>
+                <RunComparison refreshKey={historyRefresh} current={currentRun} />
               </div>
             )}
-          </div>
 
-          {/* Live Log Terminal */}
-          {showLog && (
-            <div className="card fade-in" style={{ padding: 0, overflow: 'hidden' }}>
-              <div className="terminal-header">
-                <div className="terminal-dots">
-                  <span className="dot red"></span>
-                  <span className="dot yellow"></span>
-                  <span className="dot green"></span>
+            {/* Single Address Lookup */}
+            {mode === 'single' && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 10c0 7-9 13-9 13s-9-6-9-13a9 9 0 0 1 18 0z"/>
+                      <circle cx="12" cy="10" r="3"/>
+                    </svg>
+                  </div>
+                  {t('lookup.title')}
                 </div>
-                <span className="terminal-title">Procesamiento en Tiempo Real</span>
-                <span className="terminal-stats">
-                  {logEntries.filter(e => e.type === 'found').length} encontrados · {logEntries.filter(e => e.type === 'not_found').length} no encontrados
-                </span>
+                <SingleLookup client={client} apiStatus={apiStatus} />
               </div>
-              <div className="terminal-body" ref={logContainerRef}>
-                {logEntries.map((entry, idx) => (
-                  <div
-                    key={entry.id}
-                    className={`log-entry log-${entry.type}`}
-                    style={{ animationDelay: `${Math.min(idx * 0.02, 0.5)}s` }}
-                  >
-                    <span className="log-time">
-                      {entry.timestamp.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
-                    </span>
-                    {entry.type === 'info' && (
-                      <>
-                        <span className="log-badge info">INFO</span>
-                        <span className="log-message">{entry.message}</span>
-                      </>
-                    )}
-                    {entry.type === 'found' && (
-                      <>
-                        <span className="log-badge found">CP {entry.cp}</span>
-                        <span className="log-row">#{entry.row}</span>
-                        <span className="log-direccion">{entry.direccion}</span>
-                        <span className="log-municipio">{entry.municipio}</span>
-                      </>
-                    )}
-                    {entry.type === 'not_found' && (
-                      <>
-                        <span className="log-badge not-found">NO ENCONTRADO</span>
-                        <span className="log-row">#{entry.row}</span>
-                        <span className="log-direccion">{entry.direccion}</span>
-                        <span className="log-municipio">{entry.municipio}</span>
-                      </>
+            )}
+
+            {/* File Upload */}
+            {mode === 'batch' && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                      <polyline points="14 2 14 8 20 8"/>
+                      <line x1="12" y1="18" x2="12" y2="12"/>
+                      <line x1="9" y1="15" x2="15" y2="15"/>
+                    </svg>
+                  </div>
+                  {t('upload.title')}
+                </div>
+
+                <div
+                  className={`dropzone ${isDragging ? 'active' : ''} ${isProcessing || isRetrying ? 'disabled' : ''}`}
+                  onDragOver={handleDragOver}
+                  onDragLeave={handleDragLeave}
+                  onDrop={handleDrop}
+                  onClick={() => !(isProcessing || isRetrying) && fileInputRef.current?.click()}
+                  aria-disabled={isProcessing || isRetrying}
+                >
+                  <div className="dropzone-content">
+                    <svg className="dropzone-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <polyline points="17 8 12 3 7 8"/>
+                      <line x1="12" y1="3" x2="12" y2="15"/>
+                    </svg>
+                    <p className="dropzone-text">
+                      {t('upload.drop')} <strong>{t('upload.dropClick')}</strong>
+                    </p>
+                    <p className="dropzone-hint">{t('upload.formats', { formats: '.xlsx, .xls, .xlsm, .ods, .csv, .tsv' })}</p>
+                    <p className="dropzone-hint">{t('upload.multiple')}</p>
+                  </div>
+                </div>
+
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={Object.keys(INPUT_EXTENSIONS).join(',')}
+                  onChange={handleFileSelect}
+                  style={{ display: 'none' }}
+                />
+
+                {activeProfile.backend === 'demo' && !file && queuedFiles.length === 0 && (
+                  <button className="btn btn-secondary sample-workbook" onClick={loadSampleWorkbook} disabled={isProcessing || isRetrying}>
+                    {t('upload.sample')}
+                  </button>
+                )}
+
+                {file && (
+                  <div className="file-info">
+                    <svg className="file-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                      <polyline points="14 2 14 8 20 8"/>
+                      <path d="M9 15l2 2 4-4"/>
+                    </svg>
+                    <div className="file-details">
+                      <div className="file-name">{file.name}</div>
+                      <div className="file-size">{fileSize(file.size)}</div>
+                    </div>
+                    <button className="file-remove" onClick={removeFile} disabled={isProcessing}>
+                      <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <line x1="18" y1="6" x2="6" y2="18"/>
+                        <line x1="6" y1="6" x2="18" y2="18"/>
+                      </svg>
+                    </button>
+                  </div>
+                )}
+
+                {isReadingFile && (
+                  <div className="preview-loading">
+                    <span className="spinner dark"></span>
+                    {t('upload.reading')}
+                  </div>
+                )}
+
+                {/* Encoding and delimiter for text inputs */}
+                {file && isTextFormat(getInputFormat(file.name)) && (
+                  <div className="grid-2 text-options">
+                    <div className="form-group">
+                      <label className="form-label">{t('upload.encoding')}</label>
+                      <select
+                        className="form-select"
+                        value={textOptions.encoding}
+                        onChange={(e) => changeTextOptions({ encoding: e.target.value as TextEncoding })}
+                        disabled={isProcessing || isReadingFile}
+                      >
+                        <option value="auto">
+                          {t('upload.detect')}
+                          {detectedText ? ` (${ENCODING_LABELS[detectedText.encoding]})` : ''}
+                        </option>
+                        {(Object.keys(ENCODING_LABELS) as Exclude<TextEncoding, 'auto'>[]).map(key => (
+                          <option key={key} value={key}>{ENCODING_LABELS[key]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="form-group">
+                      <label className="form-label">{t('upload.delimiter')}</label>
+                      <select
+                        className="form-select"
+                        value={textOptions.delimiter}
+                        onChange={(e) => changeTextOptions({ delimiter: e.target.value as Delimiter })}
+                        disabled={isProcessing || isReadingFile}
+                      >
+                        {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(key => (
+                          <option key={key} value={key}>
+                            {t(DELIMITER_LABELS[key])}
+                            {key === 'auto' && detectedText ? ` (${t(DELIMITER_LABELS[detectedText.delimiter])})` : ''}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                )}
+
+                {/* Sheet and column mapping */}
+                {file && mapping && (
+                  <WorkbookPreview sheets={sheets} mapping={mapping} onChange={setMapping} disabled={isProcessing} />
+                )}
+
+                {/* Lookup cache */}
+                {file && mapping && (
+                  <CacheSettings
+                    refreshKey={historyRefresh}
+                    settings={cacheSettings}
+                    onChange={changeCacheSettings}
+                    disabled={isProcessing}
+                  />
+                )}
+
+                {/* Degraded backend warning */}
+                {degradedWarnings.length > 0 && (
+                  <div className="diagnostics-warning">
+                    {t('api.degraded', { warnings: degradedWarnings.join('; ') })}
+                  </div>
+                )}
+
+                {/* Process Button */}
+                {queuedFiles.length === 0 && (
+                  <div style={{ marginTop: '1.5rem', textAlign: 'center' }}>
+                    <button
+                      className="btn btn-primary"
+                      onClick={() => processFile()}
+                      disabled={!file || !mapping || apiStatus !== 'online' || isProcessing}
+                    >
+                      {isProcessing ? (
+                        <>
+                          <span className="spinner"></span>
+                          {t('process.running')}
+                        </>
+                      ) : (
+                        <>
+                          <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                            <polygon points="5 3 19 12 5 21 5 3"/>
+                          </svg>
+                          {t('process.start')}
+                        </>
+                      )}
+                    </button>
+                    {isProcessing && (
+                      <button className="btn btn-secondary" onClick={job.cancel} style={{ marginLeft: '1rem' }}>
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <rect x="6" y="6" width="12" height="12"/>
+                        </svg>
+                        {t('common.cancel')}
+                      </button>
                     )}
-                    {entry.type === 'error' && (
-                      <>
-                        <span className="log-badge error">ERROR</span>
-                        {entry.row && <span className="log-row">#{entry.row}</span>}
-                        <span className="log-message">{entry.message}</span>
-                      </>
+                    {resumeInfo && !isProcessing && (
+                      <button
+                        className="btn btn-secondary"
+                        onClick={() => processFile(true)}
+                        disabled={apiStatus !== 'online'}
+                        style={{ marginLeft: '1rem' }}
+                      >
+                        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                          <polyline points="23 4 23 10 17 10"/>
+                          <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10"/>
+                        </svg>
+                        {t('process.resume', { row: String(resumeInfo.lastRow + 1) })}
+                      </button>
                     )}
-                    {entry.type === 'complete' && (
-                      <>
-                        <span className="log-badge complete">COMPLETADO</span>
-                        <span className="log-message">{entry.message}</span>
-                      </>
+                    {canNotify && (
+                      <label className="notify-toggle">
+                        <input
+                          type="checkbox"
+                          checked={notifyOnFinish}
+                          onChange={(e) => changeNotifyOnFinish(e.target.checked)}
+                        />
+                        {t('notify.toggle')}
+                      </label>
                     )}
                   </div>
-                ))}
-                {isProcessing && (
-                  <div className="log-entry log-processing">
-                    <span className="log-cursor"></span>
+                )}
+
+                {/* Progress Bar */}
+                {(isProcessing || progress > 0) && (
+                  <div className="progress-container">
+                    <div className="progress-bar">
+                      <div className="progress-fill" style={{ width: `${progress}%` }}></div>
+                    </div>
+                    <div className="progress-text">
+                      <span className="progress-status">
+                        {preparing
+                          ? t('process.preparing', {
+                              progress: preparing.total ? percent(preparing.loaded / preparing.total) : fileSize(preparing.loaded)
+                            })
+                          : isProcessing
+                          ? totalRows > 0 ? t('process.runningRows', { count: totalRows }) : t('process.running')
+                          : resumeInfo ? t('process.interrupted', { count: resumeInfo.processedRows }) : t('process.completed')}
+                      </span>
+                      <span style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+                        <span style={{ color: '#666', fontSize: '0.85rem' }}>
+                          {t('process.elapsed', { time: duration(elapsedTime) })}
+                        </span>
+                        <span>{percent(progress / 100)}</span>
+                      </span>
+                    </div>
+                    {isProcessing && throughput.length > 0 && <ThroughputMeter samples={throughput} />}
+                  </div>
+                )}
+
+                {/* Error Display */}
+                {error && !isProcessing && (
+                  <div className="error-container" style={{
+                    marginTop: '1.5rem',
+                    padding: '1rem',
+                    backgroundColor: '#fef2f2',
+                    border: '1px solid #fecaca',
+                    borderRadius: '8px'
+                  }}>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', color: '#dc2626', fontWeight: 600 }}>
+                      <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <circle cx="12" cy="12" r="10"/>
+                        <line x1="12" y1="8" x2="12" y2="12"/>
+                        <line x1="12" y1="16" x2="12.01" y2="16"/>
+                      </svg>
+                      {t('process.error')}
+                    </div>
+                    <p style={{ color: '#991b1b', margin: '0.5rem 0 0' }}>{error.message}</p>
                   </div>
                 )}
               </div>
-            </div>
-          )}
+            )}
 
-          {/* Results */}
-          {result && !isProcessing && (
-            <div className="card fade-in">
-              <div className="card-title">
-                <div className="card-title-icon">
-                  <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"/>
-                    <polyline points="22 4 12 14.01 9 11.01"/>
-                  </svg>
+            {/* Multi-file queue */}
+            {mode === 'batch' && queuedFiles.length > 0 && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <line x1="8" y1="6" x2="21" y2="6"/>
+                      <line x1="8" y1="12" x2="21" y2="12"/>
+                      <line x1="8" y1="18" x2="21" y2="18"/>
+                      <line x1="3" y1="6" x2="3.01" y2="6"/>
+                      <line x1="3" y1="12" x2="3.01" y2="12"/>
+                      <line x1="3" y1="18" x2="3.01" y2="18"/>
+                    </svg>
+                  </div>
+                  {t('queue.title')}
                 </div>
-                Resultados
+                <BatchQueue
+                  api={api}
+                  apiStatus={apiStatus}
+                  files={queuedFiles}
+                  historyLimits={historyLimits}
+                  onClear={() => setQueuedFiles([])}
+                  onSaved={() => setHistoryRefresh(k => k + 1)}
+                />
               </div>
+            )}
+
+            {/* Live Log Terminal */}
+            {showLog && (
+              <LogTerminal entries={log.entries} length={log.length} counts={log.counts} isProcessing={isProcessing} />
+            )}
 
-              <div className="results-summary">
-                <div className="result-stat">
-                  <div className="result-stat-value">{result.total}</div>
-                  <div className="result-stat-label">Procesadas</div>
+            {/* Results */}
+            {result && !isProcessing && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M22 11.08V12a10 10 0 1 1-5.93-9.14"/>
+                      <polyline points="22 4 12 14.01 9 11.01"/>
+                    </svg>
+                  </div>
+                  {t('results.title')}
                 </div>
-                <div className="result-stat success">
-                  <div className="result-stat-value">{result.encontrados}</div>
-                  <div className="result-stat-label">Encontrados</div>
+
+                {/* Summary cards double as quick filters for the table below */}
+                <div className="results-summary">
+                  <div
+                    className={`result-stat filterable ${statusFilter === 'all' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('all')}
+                  >
+                    <div className="result-stat-value">{number(result.total)}</div>
+                    <div className="result-stat-label">{t('results.processed')}</div>
+                  </div>
+                  <div
+                    className={`result-stat success filterable ${statusFilter === 'found' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('found')}
+                  >
+                    <div className="result-stat-value">{number(result.encontrados)}</div>
+                    <div className="result-stat-label">{t('results.found')}</div>
+                  </div>
+                  <div
+                    className={`result-stat suspect filterable ${statusFilter === 'suspect' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('suspect')}
+                  >
+                    <div className="result-stat-value">{number(result.dudosos)}</div>
+                    <div className="result-stat-label">{t('results.suspect')}</div>
+                  </div>
+                  <div
+                    className={`result-stat filterable ${statusFilter === 'not_found' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('not_found')}
+                  >
+                    <div className="result-stat-value">{number(result.noEncontrados)}</div>
+                    <div className="result-stat-label">{t('results.notFound')}</div>
+                  </div>
+                  <div
+                    className={`result-stat error filterable ${statusFilter === 'error' ? 'active' : ''}`}
+                    onClick={() => setStatusFilter('error')}
+                  >
+                    <div className="result-stat-value">{number(result.errores)}</div>
+                    <div className="result-stat-label">{t('results.errors')}</div>
+                  </div>
                 </div>
-                <div className="result-stat">
-                  <div className="result-stat-value">{result.noEncontrados}</div>
-                  <div className="result-stat-label">No encontrados</div>
+
+                {!!result.desdeCache && (
+                  <p className="preview-hint results-cached">{t('results.cached', { count: result.desdeCache })}</p>
+                )}
+
+                <div className="download-actions">
+                  <select
+                    className="form-select"
+                    value={outputFormat}
+                    onChange={(e) => setOutputFormat(e.target.value as OutputFormat)}
+                  >
+                    {(Object.keys(OUTPUT_FORMATS) as OutputFormat[]).map(key => (
+                      <option key={key} value={key} disabled={key !== 'json' && !resultBlob}>
+                        {OUTPUT_FORMATS[key].label}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    className="btn btn-success"
+                    onClick={downloadFile}
+                    disabled={outputFormat !== 'json' && !resultBlob}
+                  >
+                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <polyline points="7 10 12 15 17 10"/>
+                      <line x1="12" y1="15" x2="12" y2="3"/>
+                    </svg>
+                    {t('results.download', { format: outputFormat === 'xlsx' ? 'Excel' : outputFormat.toUpperCase() })}
+                  </button>
                 </div>
-                <div className="result-stat error">
-                  <div className="result-stat-value">{result.errores}</div>
-                  <div className="result-stat-label">Errores</div>
+
+                <div className="download-actions report-actions">
+                  <select
+                    className="form-select"
+                    value={reportScope}
+                    onChange={(e) => setReportScope(e.target.value as ReportScope)}
+                  >
+                    {(Object.keys(REPORT_SCOPE_LABELS) as ReportScope[]).map(key => (
+                      <option key={key} value={key}>{t(REPORT_SCOPE_LABELS[key])}</option>
+                    ))}
+                  </select>
+                  <select
+                    className="form-select"
+                    value={reportFormat}
+                    onChange={(e) => setReportFormat(e.target.value as ReportFormat)}
+                  >
+                    {(Object.keys(REPORT_FORMATS) as ReportFormat[]).map(key => (
+                      <option key={key} value={key}>{REPORT_FORMATS[key]}</option>
+                    ))}
+                  </select>
+                  <button className="btn btn-secondary" onClick={exportReport} disabled={isRetrying}>
+                    {t('results.exportReport')}
+                  </button>
                 </div>
+
+                {rows.length > 0 && (
+                  <ResultsTable
+                    rows={rows}
+                    filter={statusFilter}
+                    onFilterChange={setStatusFilter}
+                    loadSource={() => file
+                      ? readSheetRows(file, mapping?.sheet, textOptions)
+                      : Promise.reject(new Error(t('upload.sourceUnavailable')))}
+                    corrections={corrections}
+                    onCorrect={setCorrection}
+                    onRetry={retryCorrections}
+                    isRetrying={isRetrying}
+                    canRetry={apiStatus === 'online'}
+                  />
+                )}
               </div>
+            )}
 
-              <div style={{ textAlign: 'center' }}>
-                <button className="btn btn-success" onClick={downloadFile}>
-                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                    <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
-                    <polyline points="7 10 12 15 17 10"/>
-                    <line x1="12" y1="15" x2="12" y2="3"/>
-                  </svg>
-                  Descargar Excel
-                </button>
+            {/* Province and municipality breakdown */}
+            {result && !isProcessing && rows.length > 0 && (
+              <div className="card fade-in">
+                <div className="card-title">
+                  <div className="card-title-icon">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <line x1="18" y1="20" x2="18" y2="10"/>
+                      <line x1="12" y1="20" x2="12" y2="4"/>
+                      <line x1="6" y1="20" x2="6" y2="14"/>
+                    </svg>
+                  </div>
+                  {t('breakdown.title')}
+                </div>
+                <BreakdownDashboard rows={rows} />
               </div>
-            </div>
-          )}
-        </div>
-      </main>
-
-      {/* Footer */}
-      <footer className="footer">
-        <p>Geocoder CP - Powered by <a href="https://www.geoapi.es" target="_blank" rel="noopener">GeoAPI.es</a></p>
-      </footer>
-    </div>
+            )}
+          </div>
+        </main>
+
+        {/* Footer */}
+        <footer className="footer">
+          <p>{t('app.poweredBy')} <a href="https://www.geoapi.es" target="_blank" rel="noopener">GeoAPI.es</a></p>
+        </footer>
+      </div>
+    </I18nContext.Provider>
   );
 }
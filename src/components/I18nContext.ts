@@ -0,0 +1,7 @@
+import { createContext, useContext } from 'react';
+import { createTranslator, DEFAULT_LOCALE, type Translator } from '../lib/i18n';
+
+// The translator of the selected language, provided by GeocoderApp
+export const I18nContext = createContext<Translator>(createTranslator(DEFAULT_LOCALE));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,206 @@
+import { useState, useEffect } from 'react';
+import {
+  listJobs,
+  getJob,
+  deleteJob,
+  enforceLimits,
+  logToCsv,
+  type HistoryLimits,
+  type JobStatus,
+  type JobSummary,
+  type StoredJob
+} from '../lib/history';
+import { saveBlob } from '../lib/download';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './I18nContext';
+
+interface JobHistoryProps {
+  refreshKey: number;
+  activeJobId: string | null;
+  limits: HistoryLimits;
+  onLimitsChange: (limits: HistoryLimits) => void;
+  onOpen: (job: StoredJob) => void;
+}
+
+const STATUS_LABELS: Record<JobStatus, { label: MessageKey; badge: string }> = {
+  completed: { label: 'history.status.completed', badge: 'badge-success' },
+  interrupted: { label: 'history.status.interrupted', badge: 'badge-warning' },
+  failed: { label: 'history.status.failed', badge: 'badge-error' }
+};
+
+interface LimitInputProps {
+  value: number;
+  onCommit: (value: number) => void;
+}
+
+// Lowering a limit deletes jobs, so the value is only applied on blur or Enter, never while typing.
+// An empty or invalid entry goes back to the current value.
+function LimitInput({ value, onCommit }: LimitInputProps) {
+  const [draft, setDraft] = useState(String(value));
+
+  useEffect(() => {
+    setDraft(String(value));
+  }, [value]);
+
+  const commit = () => {
+    const next = Math.floor(Number(draft));
+    if (draft.trim() === '' || !Number.isFinite(next) || next < 1) {
+      setDraft(String(value));
+      return;
+    }
+    setDraft(String(next));
+    if (next !== value) onCommit(next);
+  };
+
+  return (
+    <input
+      type="number"
+      className="form-input"
+      min={1}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commit();
+      }}
+    />
+  );
+}
+
+export default function JobHistory({ refreshKey, activeJobId, limits, onLimitsChange, onOpen }: JobHistoryProps) {
+  const { t, fileSize, duration, dateTime } = useI18n();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setJobs(await listJobs());
+      setError(null);
+    } catch {
+      setError('history.unavailable');
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refreshKey]);
+
+  // Loads the full record for an action on one job
+  const withJob = async (id: string, action: (job: StoredJob) => void | Promise<void>) => {
+    setBusyId(id);
+    try {
+      const job = await getJob(id);
+      if (job) await action(job);
+      else setError('history.missing');
+    } catch {
+      setError('history.unavailable');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const removeJob = async (id: string) => {
+    try {
+      await deleteJob(id);
+      refresh();
+    } catch {
+      setError('history.unavailable');
+    }
+  };
+
+  // The new limits are kept even if IndexedDB fails; they are applied again after the next run
+  const changeLimits = async (next: HistoryLimits) => {
+    onLimitsChange(next);
+    try {
+      await enforceLimits(next);
+      refresh();
+    } catch {
+      setError('history.unavailable');
+    }
+  };
+
+  const totalSize = jobs.reduce((sum, job) => sum + job.size, 0);
+
+  return (
+    <div className="job-history">
+      <div className="history-limits">
+        <label>
+          {t('history.maxJobs')}
+          <LimitInput value={limits.maxJobs} onCommit={(maxJobs) => changeLimits({ ...limits, maxJobs })} />
+        </label>
+        <label>
+          {t('history.maxSpace')}
+          <LimitInput value={limits.maxMegabytes} onCommit={(maxMegabytes) => changeLimits({ ...limits, maxMegabytes })} />
+        </label>
+        <span className="preview-hint">
+          {t('history.usage', { count: jobs.length, size: fileSize(totalSize) })}
+        </span>
+      </div>
+
+      {error && <p className="row-detail-error">{t(error)}</p>}
+
+      {jobs.length === 0 && !error && <p className="preview-hint">{t('history.empty')}</p>}
+
+      {jobs.length > 0 && (
+        <div className="preview-table-wrapper">
+          <table className="preview-table history-table">
+            <thead>
+              <tr>
+                <th>{t('common.file')}</th>
+                <th>{t('history.started')}</th>
+                <th>{t('common.duration')}</th>
+                <th>{t('history.result')}</th>
+                <th>{t('history.size')}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {jobs.map(job => (
+                <tr key={job.id} className={job.id === activeJobId ? 'selected' : ''}>
+                  <td>
+                    <div className="file-name">{job.fileName}</div>
+                    <span className={`badge ${STATUS_LABELS[job.status].badge}`}>{t(STATUS_LABELS[job.status].label)}</span>
+                  </td>
+                  <td>{dateTime(job.startedAt)}</td>
+                  <td>{duration(Math.round((job.finishedAt - job.startedAt) / 1000))}</td>
+                  <td>
+                    {job.result
+                      ? t('history.foundOf', { found: job.result.encontrados, total: job.result.total })
+                      : '—'}
+                  </td>
+                  <td>{fileSize(job.size)}</td>
+                  <td className="history-actions">
+                    <button className="btn btn-secondary btn-small" disabled={busyId === job.id} onClick={() => withJob(job.id, onOpen)}>
+                      {t('history.open')}
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-small"
+                      disabled={busyId === job.id}
+                      onClick={() => withJob(job.id, j => {
+                        if (j.output) saveBlob(j.output, j.outputName);
+                        else setError('history.noOutput');
+                      })}
+                    >
+                      {t('history.download')}
+                    </button>
+                    <button
+                      className="btn btn-secondary btn-small"
+                      disabled={busyId === job.id}
+                      onClick={() => withJob(job.id, j => saveBlob(logToCsv(j.log, t), j.fileName.replace(/\.[^.]+$/, '') + '_log.csv'))}
+                    >
+                      {t('history.log')}
+                    </button>
+                    <button className="btn btn-secondary btn-small" disabled={busyId === job.id} onClick={() => removeJob(job.id)}>
+                      {t('history.delete')}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
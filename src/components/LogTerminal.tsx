@@ -0,0 +1,130 @@
+import { useState, useRef, useEffect, useLayoutEffect, memo } from 'react';
+import type { LogCounts } from '../lib/aggregate';
+import type { LogEntry } from '../lib/types';
+import { useI18n } from './I18nContext';
+
+interface LogTerminalProps {
+  /** Appended to in place; `length` is what tells the terminal it grew */
+  entries: LogEntry[];
+  length: number;
+  counts: LogCounts;
+  isProcessing: boolean;
+}
+
+// Every line has the same height so only the visible slice of a 100k-line log is rendered
+const ROW_HEIGHT = 36;
+const OVERSCAN = 12;
+
+const LogLine = memo(function LogLine({ entry }: { entry: LogEntry }) {
+  const { t, time } = useI18n();
+  return (
+    <div className={`log-entry log-${entry.type}`} title={entry.message}>
+      <span className="log-time">{time(entry.timestamp)}</span>
+      {entry.type === 'info' && (
+        <>
+          <span className="log-badge info">{t('log.badge.info')}</span>
+          <span className="log-message">{entry.message}</span>
+        </>
+      )}
+      {entry.type === 'found' && (
+        <>
+          <span className="log-badge found">{t('log.badge.found', { cp: entry.cp ?? '' })}</span>
+          <span className="log-row">#{entry.row}</span>
+          <span className="log-direccion">{entry.direccion}</span>
+          <span className="log-municipio">{entry.municipio}</span>
+        </>
+      )}
+      {entry.type === 'suspect' && (
+        <>
+          <span className="log-badge suspect">{t('log.badge.suspect', { cp: entry.cp ?? '' })}</span>
+          <span className="log-row">#{entry.row}</span>
+          <span className="log-direccion">{entry.direccion}</span>
+          <span className="log-municipio">{entry.municipio}</span>
+          <span className="log-message">{entry.message}</span>
+        </>
+      )}
+      {entry.type === 'not_found' && (
+        <>
+          <span className="log-badge not-found">{t('log.badge.notFound')}</span>
+          <span className="log-row">#{entry.row}</span>
+          <span className="log-direccion">{entry.direccion}</span>
+          <span className="log-municipio">{entry.municipio}</span>
+        </>
+      )}
+      {entry.type === 'error' && (
+        <>
+          <span className="log-badge error">{t('log.badge.error')}</span>
+          {entry.row && <span className="log-row">#{entry.row}</span>}
+          <span className="log-message">{entry.message}</span>
+        </>
+      )}
+      {entry.type === 'complete' && (
+        <>
+          <span className="log-badge complete">{t('log.badge.complete')}</span>
+          <span className="log-message">{entry.message}</span>
+        </>
+      )}
+    </div>
+  );
+});
+
+export default function LogTerminal({ entries, length, counts, isProcessing }: LogTerminalProps) {
+  const { t } = useI18n();
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const followRef = useRef(true);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewport, setViewport] = useState(450);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const observer = new ResizeObserver(() => setViewport(body.clientHeight));
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
+
+  // Keep following new lines unless the user has scrolled up to read
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (body && followRef.current) body.scrollTop = body.scrollHeight;
+  }, [length, isProcessing]);
+
+  const handleScroll = () => {
+    const body = bodyRef.current;
+    if (!body) return;
+    setScrollTop(body.scrollTop);
+    followRef.current = body.scrollHeight - body.scrollTop - body.clientHeight < ROW_HEIGHT;
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(length, Math.ceil((scrollTop + viewport) / ROW_HEIGHT) + OVERSCAN);
+  const lines = isProcessing ? length + 1 : length;
+
+  return (
+    <div className="card fade-in" style={{ padding: 0, overflow: 'hidden' }}>
+      <div className="terminal-header">
+        <div className="terminal-dots">
+          <span className="dot red"></span>
+          <span className="dot yellow"></span>
+          <span className="dot green"></span>
+        </div>
+        <span className="terminal-title">{t('log.title')}</span>
+        <span className="terminal-stats">
+          {t('log.stats', { found: counts.found ?? 0, suspect: counts.suspect ?? 0, notFound: counts.not_found ?? 0 })}
+        </span>
+      </div>
+      <div className="terminal-body" ref={bodyRef} onScroll={handleScroll}>
+        <div className="log-window" style={{ height: lines * ROW_HEIGHT }}>
+          <div className="log-slice" style={{ transform: `translateY(${first * ROW_HEIGHT}px)` }}>
+            {entries.slice(first, last).map(entry => <LogLine key={entry.id} entry={entry} />)}
+          </div>
+          {isProcessing && (
+            <div className="log-entry log-processing" style={{ top: length * ROW_HEIGHT }}>
+              <span className="log-cursor"></span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
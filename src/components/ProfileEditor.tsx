@@ -0,0 +1,236 @@
+import { Fragment, useState } from 'react';
+import { AUTH_LABELS, BACKEND_LABELS, type ApiProfile, type AuthType, type BackendType } from '../lib/profiles';
+import { DEMO_BASE_URL, DEMO_RATES, DEMO_SPEEDS, type DemoOptions } from '../lib/demoOptions';
+import { isValidHeaderName, isValidHeaderValue } from '../lib/api';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './I18nContext';
+
+interface ProfileEditorProps {
+  profile: ApiProfile;
+  canDelete: boolean;
+  onSave: (profile: ApiProfile) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+export default function ProfileEditor({ profile, canDelete, onSave, onDelete, onCancel }: ProfileEditorProps) {
+  const { t, percent } = useI18n();
+  const [draft, setDraft] = useState<ApiProfile>(profile);
+  const [showSecret, setShowSecret] = useState(false);
+
+  const update = (changes: Partial<ApiProfile>) => setDraft(prev => ({ ...prev, ...changes }));
+
+  const updateHeader = (index: number, changes: Partial<ApiProfile['headers'][number]>) => {
+    update({ headers: draft.headers.map((header, i) => (i === index ? { ...header, ...changes } : header)) });
+  };
+
+  const updateDemo = (changes: Partial<DemoOptions>) => update({ demo: { ...draft.demo, ...changes } });
+
+  const isDemo = draft.backend === 'demo';
+  const isValidUrl = isDemo || /^https?:\/\/\S+$/.test(draft.baseUrl.trim());
+
+  // Requests with these headers would fail before reaching the API, so they cannot be saved
+  const isBadName = (name: string) => name.trim() !== '' && !isValidHeaderName(name.trim());
+  const isBadSecret = draft.authType !== 'none' && !isValidHeaderValue(draft.secret);
+  const isBadKeyHeader = draft.authType === 'apiKey' && isBadName(draft.apiKeyHeader);
+  const headerError = ({ name, value }: ApiProfile['headers'][number]): MessageKey | null => {
+    if (isBadName(name)) return 'profile.invalidHeaderName';
+    if (name.trim() && !isValidHeaderValue(value)) return 'profile.invalidHeaderValue';
+    return null;
+  };
+  const isValidHeaders = isDemo || !(isBadSecret || isBadKeyHeader || draft.headers.some(headerError));
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim() || !isValidUrl || !isValidHeaders) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      baseUrl: isDemo ? DEMO_BASE_URL : draft.baseUrl.trim(),
+      headers: draft.headers.filter(header => header.name.trim())
+    });
+  };
+
+  const rateSelect = (key: 'errorRate' | 'notFoundRate') => (
+    <select className="form-select" value={draft.demo[key]} onChange={(e) => updateDemo({ [key]: Number(e.target.value) })}>
+      {DEMO_RATES.map(rate => (
+        <option key={rate} value={rate}>{percent(rate)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <form className="profile-editor fade-in" onSubmit={save}>
+      <div className="grid-2">
+        <div className="form-group">
+          <label className="form-label">{t('profile.name')}</label>
+          <input
+            className="form-input"
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Staging"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label">{t('profile.backend')}</label>
+          <select
+            className="form-select"
+            value={draft.backend}
+            onChange={(e) => update({ backend: e.target.value as BackendType })}
+          >
+            {(Object.keys(BACKEND_LABELS) as BackendType[]).map(key => (
+              <option key={key} value={key}>{t(BACKEND_LABELS[key])}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isDemo && (
+        <>
+          <div className="grid-3">
+            <div className="form-group">
+              <label className="form-label">{t('profile.demo.speed')}</label>
+              <select
+                className="form-select"
+                value={draft.demo.rowsPerSecond}
+                onChange={(e) => updateDemo({ rowsPerSecond: Number(e.target.value) })}
+              >
+                {DEMO_SPEEDS.map(speed => (
+                  <option key={speed} value={speed}>{t('profile.demo.rowsPerSecond', { count: speed })}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">{t('profile.demo.errorRate')}</label>
+              {rateSelect('errorRate')}
+            </div>
+            <div className="form-group">
+              <label className="form-label">{t('profile.demo.notFoundRate')}</label>
+              {rateSelect('notFoundRate')}
+            </div>
+          </div>
+          <p className="preview-hint">{t('profile.demo.hint')}</p>
+        </>
+      )}
+
+      {!isDemo && (
+        <>
+          <div className="form-group">
+            <label className="form-label">{t('profile.baseUrl')}</label>
+            <input
+              className="form-input"
+              value={draft.baseUrl}
+              onChange={(e) => update({ baseUrl: e.target.value })}
+              placeholder="https://api.ejemplo.es"
+              required
+            />
+            {draft.baseUrl && !isValidUrl && <span className="row-detail-error">{t('profile.invalidUrl')}</span>}
+          </div>
+
+          <div className="grid-2">
+            <div className="form-group">
+              <label className="form-label">{t('profile.auth')}</label>
+              <select
+                className="form-select"
+                value={draft.authType}
+                onChange={(e) => update({ authType: e.target.value as AuthType })}
+              >
+                {(Object.keys(AUTH_LABELS) as AuthType[]).map(key => (
+                  <option key={key} value={key}>{t(AUTH_LABELS[key])}</option>
+                ))}
+              </select>
+            </div>
+            {draft.authType !== 'none' && (
+              <div className="form-group">
+                <label className="form-label">{draft.authType === 'bearer' ? t('profile.token') : t('profile.key')}</label>
+                <div className="secret-input">
+                  <input
+                    className="form-input"
+                    type={showSecret ? 'text' : 'password'}
+                    value={draft.secret}
+                    onChange={(e) => update({ secret: e.target.value })}
+                    autoComplete="off"
+                  />
+                  <button type="button" className="btn btn-secondary btn-small" onClick={() => setShowSecret(!showSecret)}>
+                    {showSecret ? t('profile.hide') : t('profile.show')}
+                  </button>
+                </div>
+                {isBadSecret && <span className="row-detail-error">{t('profile.invalidHeaderValue')}</span>}
+              </div>
+            )}
+          </div>
+
+          {draft.authType === 'apiKey' && (
+            <div className="form-group">
+              <label className="form-label">{t('profile.keyHeader')}</label>
+              <input
+                className="form-input"
+                value={draft.apiKeyHeader}
+                onChange={(e) => update({ apiKeyHeader: e.target.value })}
+                placeholder="X-API-Key"
+              />
+              {isBadKeyHeader && <span className="row-detail-error">{t('profile.invalidHeaderName')}</span>}
+            </div>
+          )}
+
+          <div className="form-group">
+            <label className="form-label">{t('profile.headers')}</label>
+            {draft.headers.map((header, i) => {
+              const error = headerError(header);
+              return (
+                <Fragment key={i}>
+                  <div className="header-row">
+                    <input
+                      className="form-input"
+                      value={header.name}
+                      onChange={(e) => updateHeader(i, { name: e.target.value })}
+                      placeholder={t('profile.name')}
+                    />
+                    <input
+                      className="form-input"
+                      value={header.value}
+                      onChange={(e) => updateHeader(i, { value: e.target.value })}
+                      placeholder={t('profile.headerValue')}
+                    />
+                    <button
+                      type="button"
+                      className="btn btn-secondary btn-small"
+                      onClick={() => update({ headers: draft.headers.filter((_, j) => j !== i) })}
+                    >
+                      {t('profile.removeHeader')}
+                    </button>
+                  </div>
+                  {error && <span className="row-detail-error">{t(error)}</span>}
+                </Fragment>
+              );
+            })}
+            <button
+              type="button"
+              className="btn btn-secondary btn-small"
+              onClick={() => update({ headers: [...draft.headers, { name: '', value: '' }] })}
+            >
+              {t('profile.addHeader')}
+            </button>
+          </div>
+        </>
+      )}
+
+      <p className="preview-hint">{t('profile.localOnly')}</p>
+
+      <div className="profile-actions">
+        {canDelete && (
+          <button type="button" className="btn btn-secondary" onClick={onDelete}>
+            {t('profile.delete')}
+          </button>
+        )}
+        <button type="button" className="btn btn-secondary" onClick={onCancel}>
+          {t('common.cancel')}
+        </button>
+        <button type="submit" className="btn btn-primary" disabled={!draft.name.trim() || !isValidUrl || !isValidHeaders}>
+          {t('profile.save')}
+        </button>
+      </div>
+    </form>
+  );
+}
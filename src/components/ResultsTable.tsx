@@ -0,0 +1,268 @@
+import { useState, useMemo, useEffect } from 'react';
+import { foldText } from '../lib/text';
+import type { Cell, ProcessedRow, RowCorrection } from '../lib/workbook';
+import type { MessageKey } from '../lib/i18n';
+import { useI18n } from './I18nContext';
+
+export type StatusFilter = 'all' | ProcessedRow['status'];
+
+type SortKey = 'row' | 'direccion' | 'municipio' | 'cp' | 'status';
+
+interface SourceData {
+  header: Cell[];
+  rows: Cell[][];
+}
+
+interface ResultsTableProps {
+  rows: ProcessedRow[];
+  filter: StatusFilter;
+  onFilterChange: (filter: StatusFilter) => void;
+  loadSource: () => Promise<SourceData>;
+  corrections: Record<number, RowCorrection>;
+  onCorrect: (index: number, correction: RowCorrection | null) => void;
+  onRetry: () => void;
+  isRetrying: boolean;
+  canRetry: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+export const STATUS_LABELS: Record<ProcessedRow['status'], MessageKey> = {
+  found: 'status.found',
+  suspect: 'status.suspect',
+  not_found: 'status.not_found',
+  error: 'status.error'
+};
+
+export const STATUS_BADGES: Record<ProcessedRow['status'], string> = {
+  found: 'badge-success',
+  suspect: 'badge-suspect',
+  not_found: 'badge-warning',
+  error: 'badge-error'
+};
+
+const COLUMNS: { key: SortKey; label: MessageKey }[] = [
+  { key: 'row', label: 'table.row' },
+  { key: 'direccion', label: 'common.address' },
+  { key: 'municipio', label: 'common.municipality' },
+  { key: 'cp', label: 'table.cp' },
+  { key: 'status', label: 'common.status' }
+];
+
+export default function ResultsTable({
+  rows,
+  filter,
+  onFilterChange,
+  loadSource,
+  corrections,
+  onCorrect,
+  onRetry,
+  isRetrying,
+  canRetry
+}: ResultsTableProps) {
+  const { t, translate, number, compare } = useI18n();
+  const [search, setSearch] = useState('');
+  const [sortKey, setSortKey] = useState<SortKey>('row');
+  const [sortAsc, setSortAsc] = useState(true);
+  const [page, setPage] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [source, setSource] = useState<SourceData | null>(null);
+  const [sourceError, setSourceError] = useState(false);
+  const [draft, setDraft] = useState<RowCorrection>({ direccion: '', municipio: '' });
+
+  // Position in the processed list is the position of the row in the uploaded sheet
+  const indexed = useMemo(() => rows.map((row, index) => ({ ...row, index })), [rows]);
+
+  const visible = useMemo(() => {
+    const query = foldText(search.trim());
+    const filtered = indexed.filter(row => {
+      if (filter !== 'all' && row.status !== filter) return false;
+      if (!query) return true;
+      return [String(row.row), row.direccion, row.municipio, row.cp, row.error]
+        .some(value => value && foldText(value).includes(query));
+    });
+    const direction = sortAsc ? 1 : -1;
+    return filtered.sort((a, b) => {
+      if (sortKey === 'row') return (a.row - b.row) * direction;
+      return compare(String(a[sortKey] ?? ''), String(b[sortKey] ?? '')) * direction;
+    });
+  }, [indexed, filter, search, sortKey, sortAsc, compare]);
+
+  useEffect(() => {
+    setPage(0);
+  }, [filter, search, sortKey, sortAsc, rows]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const pageRows = visible.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAsc(!sortAsc);
+    } else {
+      setSortKey(key);
+      setSortAsc(true);
+    }
+  };
+
+  const selectRow = async (index: number) => {
+    if (selected === index) {
+      setSelected(null);
+      return;
+    }
+    setSelected(index);
+    const row = rows[index];
+    setDraft(corrections[index] ?? { direccion: row.direccion ?? '', municipio: row.municipio ?? '' });
+    if (!source) {
+      try {
+        setSource(await loadSource());
+      } catch {
+        setSourceError(true);
+      }
+    }
+  };
+
+  const selectedRow = selected !== null ? indexed[selected] : null;
+  const original = selected !== null && source ? source.rows[selected] : null;
+  const pendingCount = Object.keys(corrections).length;
+
+  const saveCorrection = () => {
+    if (selected === null) return;
+    const direccion = draft.direccion.trim();
+    const municipio = draft.municipio.trim();
+    onCorrect(selected, direccion ? { direccion, municipio } : null);
+  };
+
+  return (
+    <div className="results-table">
+      <div className="results-toolbar">
+        <input
+          type="search"
+          className="form-input"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder={t('table.search')}
+        />
+        <select
+          className="form-select"
+          value={filter}
+          onChange={(e) => onFilterChange(e.target.value as StatusFilter)}
+        >
+          <option value="all">{t('table.allStatuses')}</option>
+          {(Object.keys(STATUS_LABELS) as ProcessedRow['status'][]).map(status => (
+            <option key={status} value={status}>{t(STATUS_LABELS[status])}</option>
+          ))}
+        </select>
+        {pendingCount > 0 && (
+          <button className="btn btn-primary" onClick={onRetry} disabled={!canRetry || isRetrying}>
+            {isRetrying && <span className="spinner"></span>}
+            {t('table.retry', { count: pendingCount })}
+          </button>
+        )}
+      </div>
+
+      <div className="preview-table-wrapper">
+        <table className="preview-table data-table">
+          <thead>
+            <tr>
+              {COLUMNS.map(column => (
+                <th key={column.key} onClick={() => toggleSort(column.key)} className="sortable">
+                  {t(column.label)}
+                  {sortKey === column.key && <span className="sort-arrow">{sortAsc ? '▲' : '▼'}</span>}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map(row => (
+              <tr
+                key={row.index}
+                className={row.index === selected ? 'selected' : ''}
+                onClick={() => selectRow(row.index)}
+              >
+                <td>{row.row}</td>
+                <td>{corrections[row.index]?.direccion ?? (row.direccion || row.error)}</td>
+                <td>{corrections[row.index]?.municipio ?? row.municipio}</td>
+                <td>{row.cp}</td>
+                <td>
+                  <span className={`badge ${STATUS_BADGES[row.status]}`}>{t(STATUS_LABELS[row.status])}</span>
+                  {row.manual && <span className="badge badge-manual">{t('table.corrected')}</span>}
+                  {corrections[row.index] && <span className="badge badge-pending">{t('table.pending')}</span>}
+                </td>
+              </tr>
+            ))}
+            {pageRows.length === 0 && (
+              <tr>
+                <td colSpan={COLUMNS.length} className="empty">{t('table.empty')}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="results-pagination">
+        <span>{t('table.count', { visible: visible.length, total: rows.length })}</span>
+        <span className="results-pages">
+          <button className="btn btn-secondary btn-small" onClick={() => setPage(page - 1)} disabled={page === 0}>
+            {t('table.previous')}
+          </button>
+          {number(page + 1)} / {number(pageCount)}
+          <button className="btn btn-secondary btn-small" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+            {t('table.next')}
+          </button>
+        </span>
+      </div>
+
+      {selectedRow && (
+        <div className="row-detail fade-in">
+          <div className="row-detail-title">
+            {t('table.detailTitle', { row: String(selectedRow.row) })}
+            <button className="file-remove" onClick={() => setSelected(null)}>
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                <line x1="18" y1="6" x2="6" y2="18"/>
+                <line x1="6" y1="6" x2="18" y2="18"/>
+              </svg>
+            </button>
+          </div>
+          {selectedRow.error && <p className="row-detail-error">{selectedRow.error}</p>}
+          {selectedRow.warning && <p className="row-detail-warning">{translate(selectedRow.warning)}</p>}
+          {selectedRow.status !== 'found' && (
+            <div className="row-correction">
+              <input
+                className="form-input"
+                value={draft.direccion}
+                onChange={(e) => setDraft({ ...draft, direccion: e.target.value })}
+                placeholder={t('table.correctedAddress')}
+              />
+              <input
+                className="form-input"
+                value={draft.municipio}
+                onChange={(e) => setDraft({ ...draft, municipio: e.target.value })}
+                placeholder={t('common.municipality')}
+              />
+              <button className="btn btn-secondary btn-small" onClick={saveCorrection} disabled={isRetrying}>
+                {t('table.saveCorrection')}
+              </button>
+              {corrections[selectedRow.index] && (
+                <button className="btn btn-secondary btn-small" onClick={() => onCorrect(selectedRow.index, null)} disabled={isRetrying}>
+                  {t('table.discard')}
+                </button>
+              )}
+            </div>
+          )}
+          {sourceError && <p className="row-detail-error">{t('table.sourceError')}</p>}
+          {!source && !sourceError && <p className="preview-hint">{t('table.loading')}</p>}
+          {source && original && (
+            <dl className="row-detail-fields">
+              {source.header.map((name, i) => (
+                <div key={i}>
+                  <dt>{String(name ?? '') || t('common.column', { n: i + 1 })}</dt>
+                  <dd>{String(original[i] ?? '')}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { listJobs, getJob, type JobSummary } from '../lib/history';
+import {
+  compareRuns,
+  readRunFile,
+  snapshotFromJob,
+  buildComparison,
+  comparisonFilename,
+  COMPARED_STATS,
+  COMPARISON_FORMATS,
+  type ChangeKind,
+  type ComparisonFormat,
+  type RunSnapshot
+} from '../lib/compare';
+import { saveBlob } from '../lib/download';
+import type { ProcessedRow } from '../lib/workbook';
+import type { MessageKey } from '../lib/i18n';
+import { STATUS_LABELS, STATUS_BADGES } from './ResultsTable';
+import { useI18n } from './I18nContext';
+
+interface RunComparisonProps {
+  refreshKey: number;
+  /** Rows of the run on screen, if any */
+  current: RunSnapshot | null;
+}
+
+interface RunPickerProps {
+  label: MessageKey;
+  jobs: JobSummary[];
+  current: RunSnapshot | null;
+  snapshot: RunSnapshot | null;
+  onLoad: (load: () => Promise<RunSnapshot>) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const CHANGE_LABELS: Record<ChangeKind, MessageKey> = {
+  cp_changed: 'compare.kind.cp_changed',
+  now_found: 'compare.kind.now_found',
+  now_missing: 'compare.kind.now_missing',
+  only_before: 'compare.kind.only_before',
+  only_after: 'compare.kind.only_after'
+};
+
+const STAT_LABELS: Record<keyof typeof COMPARED_STATS, MessageKey> = {
+  total: 'results.processed',
+  encontrados: 'results.found',
+  dudosos: 'results.suspect',
+  noEncontrados: 'results.notFound',
+  errores: 'results.errors'
+};
+
+// One side of the comparison: the run on screen, a job from the history or an uploaded file
+function RunPicker({ label, jobs, current, snapshot, onLoad }: RunPickerProps) {
+  const { t, dateTime } = useI18n();
+  const [choice, setChoice] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const choose = (value: string) => {
+    setChoice(value);
+    if (value === 'current' && current) {
+      onLoad(async () => current);
+    } else if (value) {
+      onLoad(async () => {
+        const job = await getJob(value);
+        if (!job) throw new Error(t('history.missing'));
+        return snapshotFromJob(job);
+      });
+    }
+  };
+
+  const upload = (file: File | undefined) => {
+    if (!file) return;
+    setChoice('');
+    onLoad(() => readRunFile(file));
+  };
+
+  return (
+    <div className="compare-picker">
+      <label className="form-label">{t(label)}</label>
+      <select className="form-select" value={choice} onChange={(e) => choose(e.target.value)}>
+        <option value="">{t('compare.choose')}</option>
+        {current && <option value="current">{t('compare.current', { name: current.name })}</option>}
+        {jobs.map(job => (
+          <option key={job.id} value={job.id}>{job.fileName} · {dateTime(job.startedAt)}</option>
+        ))}
+      </select>
+      <button className="btn btn-secondary btn-small" onClick={() => fileInputRef.current?.click()}>
+        {t('compare.upload')}
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".xlsx,.xls,.ods,.csv,.tsv,.txt,.json"
+        onChange={(e) => {
+          upload(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+        hidden
+      />
+      {snapshot && (
+        <div className="compare-snapshot">
+          <div className="file-name">{snapshot.name}</div>
+          <span className="preview-hint">{t('compare.rows', { count: snapshot.rows.length })}</span>
+          {snapshot.partial && <p className="row-detail-warning">{t('compare.partial')}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const StatusCell = ({ row }: { row?: ProcessedRow }) => {
+  const { t } = useI18n();
+  if (!row) return <td>—</td>;
+  return (
+    <td>
+      <span className={`badge ${STATUS_BADGES[row.status]}`}>{t(STATUS_LABELS[row.status])}</span>
+      {row.cp && <span className="compare-cp">{row.cp}</span>}
+    </td>
+  );
+};
+
+export default function RunComparison({ refreshKey, current }: RunComparisonProps) {
+  const { t, number, describeError } = useI18n();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [before, setBefore] = useState<RunSnapshot | null>(null);
+  const [after, setAfter] = useState<RunSnapshot | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ChangeKind | 'all'>('all');
+  const [page, setPage] = useState(0);
+  const [format, setFormat] = useState<ComparisonFormat>('xlsx');
+
+  // Without IndexedDB the pickers only offer the current run and uploads
+  useEffect(() => {
+    listJobs().then(setJobs, () => setJobs([]));
+  }, [refreshKey]);
+
+  const load = (setSnapshot: (snapshot: RunSnapshot | null) => void) => async (read: () => Promise<RunSnapshot>) => {
+    setError(null);
+    try {
+      setSnapshot(await read());
+    } catch (err) {
+      setSnapshot(null);
+      setError(describeError(err));
+    }
+  };
+
+  const comparison = useMemo(() => (before && after ? compareRuns(before, after) : null), [before, after]);
+  const visible = useMemo(
+    () => comparison?.changes.filter(change => filter === 'all' || change.kind === filter) ?? [],
+    [comparison, filter]
+  );
+
+  useEffect(() => {
+    setPage(0);
+  }, [comparison, filter]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const pageRows = visible.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const exportComparison = () => {
+    if (!before || !after || !comparison) return;
+    saveBlob(buildComparison(before, after, comparison, format), comparisonFilename(before, format));
+  };
+
+  const signed = (value: number) => (value > 0 ? '+' : '') + number(value);
+
+  return (
+    <div className="run-comparison">
+      <p className="preview-hint">{t('compare.hint')}</p>
+
+      <div className="compare-pickers">
+        <RunPicker label="compare.before" jobs={jobs} current={current} snapshot={before} onLoad={load(setBefore)} />
+        <RunPicker label="compare.after" jobs={jobs} current={current} snapshot={after} onLoad={load(setAfter)} />
+      </div>
+
+      {error && <p className="row-detail-error">{error}</p>}
+
+      {comparison && (
+        <>
+          <div className="preview-table-wrapper">
+            <table className="preview-table compare-stats">
+              <thead>
+                <tr>
+                  <th></th>
+                  <th>{t('compare.beforeShort')}</th>
+                  <th>{t('compare.afterShort')}</th>
+                  <th>{t('compare.delta')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(STAT_LABELS) as (keyof typeof STAT_LABELS)[]).map(key => {
+                  const delta = comparison.after[key] - comparison.before[key];
+                  return (
+                    <tr key={key}>
+                      <td>{t(STAT_LABELS[key])}</td>
+                      <td>{number(comparison.before[key])}</td>
+                      <td>{number(comparison.after[key])}</td>
+                      {comparison.partial
+                        ? <td>—</td>
+                        : <td className={delta !== 0 ? 'compare-delta' : ''}>{signed(delta)}</td>}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {comparison.partial && <p className="preview-hint">{t('compare.partialStats')}</p>}
+
+          <div className="compare-filters">
+            <button className={`compare-filter ${filter === 'all' ? 'active' : ''}`} onClick={() => setFilter('all')}>
+              {t('compare.all')} <span className="compare-count">{number(comparison.changes.length)}</span>
+            </button>
+            {(Object.keys(CHANGE_LABELS) as ChangeKind[]).map(kind => (
+              <button
+                key={kind}
+                className={`compare-filter ${filter === kind ? 'active' : ''}`}
+                onClick={() => setFilter(kind)}
+                disabled={comparison.counts[kind] === 0}
+              >
+                {t(CHANGE_LABELS[kind])} <span className="compare-count">{number(comparison.counts[kind])}</span>
+              </button>
+            ))}
+          </div>
+
+          {comparison.changes.length === 0 ? (
+            <p className="preview-hint">{t('compare.noChanges')}</p>
+          ) : (
+            <>
+              <div className="preview-table-wrapper">
+                <table className="preview-table data-table">
+                  <thead>
+                    <tr>
+                      <th>{t('table.row')}</th>
+                      <th>{t('compare.change')}</th>
+                      <th>{t('common.address')}</th>
+                      <th>{t('common.municipality')}</th>
+                      <th>{t('compare.beforeShort')}</th>
+                      <th>{t('compare.afterShort')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pageRows.map(change => {
+                      const row = change.after ?? change.before;
+                      return (
+                        <tr key={change.row}>
+                          <td>{change.row}</td>
+                          <td>{t(CHANGE_LABELS[change.kind])}</td>
+                          <td>{row?.direccion}</td>
+                          <td>{row?.municipio}</td>
+                          <StatusCell row={change.before} />
+                          <StatusCell row={change.after} />
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="results-pagination">
+                <span>{t('table.count', { visible: visible.length, total: comparison.changes.length })}</span>
+                <span className="results-pages">
+                  <button className="btn btn-secondary btn-small" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                    {t('table.previous')}
+                  </button>
+                  {number(page + 1)} / {number(pageCount)}
+                  <button className="btn btn-secondary btn-small" onClick={() => setPage(page + 1)} disabled={page >= pageCount - 1}>
+                    {t('table.next')}
+                  </button>
+                </span>
+              </div>
+            </>
+          )}
+
+          <div className="download-actions">
+            <select className="form-select" value={format} onChange={(e) => setFormat(e.target.value as ComparisonFormat)}>
+              {(Object.keys(COMPARISON_FORMATS) as ComparisonFormat[]).map(key => (
+                <option key={key} value={key}>{COMPARISON_FORMATS[key]}</option>
+              ))}
+            </select>
+            <button className="btn btn-secondary" onClick={exportComparison}>
+              {t('compare.export')}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+import { useState, useEffect } from 'react';
+import type { LookupQuery, LookupResult } from '../lib/lookup';
+import type { GeocoderClient } from '../lib/client';
+import type { ApiStatus } from '../lib/types';
+import { useI18n } from './I18nContext';
+
+interface HistoryEntry {
+  id: number;
+  query: LookupQuery;
+  result: LookupResult;
+  timestamp: string;
+}
+
+interface SingleLookupProps {
+  client: GeocoderClient;
+  apiStatus: ApiStatus;
+}
+
+const HISTORY_KEY = 'geocoder.lookupHistory';
+const HISTORY_LIMIT = 20;
+
+const loadHistory = (): HistoryEntry[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export default function SingleLookup({ client, apiStatus }: SingleLookupProps) {
+  const { t, describeError } = useI18n();
+  const [query, setQuery] = useState<LookupQuery>({ direccion: '', municipio: '', provincia: '' });
+  const [isSearching, setIsSearching] = useState(false);
+  const [current, setCurrent] = useState<LookupResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setHistory(loadHistory());
+  }, []);
+
+  const saveHistory = (entries: HistoryEntry[]) => {
+    setHistory(entries);
+    localStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+  };
+
+  const search = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed: LookupQuery = {
+      direccion: query.direccion.trim(),
+      municipio: query.municipio.trim(),
+      provincia: query.provincia?.trim() || undefined
+    };
+    if (!trimmed.direccion || !trimmed.municipio || apiStatus !== 'online') return;
+
+    setIsSearching(true);
+    setError(null);
+    setCurrent(null);
+    try {
+      const result = await client.lookupAddress(trimmed, AbortSignal.timeout(30000));
+      setCurrent(result);
+      const entry: HistoryEntry = { id: Date.now(), query: trimmed, result, timestamp: new Date().toISOString() };
+      saveHistory([entry, ...history].slice(0, HISTORY_LIMIT));
+    } catch (err) {
+      setError(describeError(err));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const copyHistory = async () => {
+    const lines = history.map(({ query: q, result }) =>
+      [q.direccion, q.municipio, q.provincia ?? '', result.cp ?? t('log.badge.notFound')].join('\t')
+    );
+    const header = [t('common.address'), t('common.municipality'), t('common.province'), t('table.cp')].join('\t');
+    await navigator.clipboard.writeText([header, ...lines].join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="single-lookup">
+      <form className="lookup-form" onSubmit={search}>
+        <div className="form-group lookup-address">
+          <label className="form-label">{t('common.address')}</label>
+          <input
+            className="form-input"
+            value={query.direccion}
+            onChange={(e) => setQuery({ ...query, direccion: e.target.value })}
+            placeholder="C/ Mayor 12"
+            required
+          />
+        </div>
+        <div className="grid-2">
+          <div className="form-group">
+            <label className="form-label">{t('common.municipality')}</label>
+            <input
+              className="form-input"
+              value={query.municipio}
+              onChange={(e) => setQuery({ ...query, municipio: e.target.value })}
+              placeholder="Madrid"
+              required
+            />
+          </div>
+          <div className="form-group">
+            <label className="form-label">{t('lookup.provinceOptional')}</label>
+            <input
+              className="form-input"
+              value={query.provincia}
+              onChange={(e) => setQuery({ ...query, provincia: e.target.value })}
+              placeholder="Madrid"
+            />
+          </div>
+        </div>
+        <div style={{ textAlign: 'center' }}>
+          <button className="btn btn-primary" type="submit" disabled={apiStatus !== 'online' || isSearching}>
+            {isSearching ? (
+              <>
+                <span className="spinner"></span>
+                {t('lookup.searching')}
+              </>
+            ) : (
+              <>
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <circle cx="11" cy="11" r="8"/>
+                  <line x1="21" y1="21" x2="16.65" y2="16.65"/>
+                </svg>
+                {t('lookup.search')}
+              </>
+            )}
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="row-detail-error lookup-error">{error}</p>}
+
+      {current && (
+        <div className="lookup-result fade-in">
+          <div className={`lookup-cp ${current.cp ? '' : 'not-found'}`}>{current.cp ?? t('lookup.noResult')}</div>
+          <div className="lookup-match">
+            {current.municipio && <span>{current.municipio}</span>}
+            {current.provincia && <span>{current.provincia}</span>}
+          </div>
+          {current.candidatos.length > 0 && (
+            <div className="lookup-candidates">
+              <div className="form-label">{t('lookup.alternatives')}</div>
+              <ul>
+                {current.candidatos.map((candidate, i) => (
+                  <li key={i}>
+                    <strong>{candidate.cp}</strong>
+                    {[candidate.direccion, candidate.municipio, candidate.provincia].filter(Boolean).join(' · ')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="lookup-history">
+          <div className="lookup-history-header">
+            <span className="form-label">{t('lookup.recent')}</span>
+            <span className="results-pages">
+              <button className="btn btn-secondary btn-small" onClick={copyHistory}>
+                {copied ? t('lookup.copied') : t('lookup.copy')}
+              </button>
+              <button className="btn btn-secondary btn-small" onClick={() => saveHistory([])}>
+                {t('lookup.clear')}
+              </button>
+            </span>
+          </div>
+          <table className="preview-table">
+            <tbody>
+              {history.map(entry => (
+                <tr key={entry.id}>
+                  <td>{entry.query.direccion}</td>
+                  <td>{entry.query.municipio}</td>
+                  <td>
+                    {entry.result.cp
+                      ? <span className="badge badge-success">{entry.result.cp}</span>
+                      : <span className="badge badge-warning">{t('status.not_found')}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import { measureThroughput, throughputSeries, ROLLING_WINDOW, type ThroughputSample } from '../lib/throughput';
+import { useI18n } from './I18nContext';
+
+interface ThroughputMeterProps {
+  samples: ThroughputSample[];
+}
+
+const SPARK_WIDTH = 160;
+const SPARK_HEIGHT = 28;
+
+// Rows per second over the run so far
+function ThroughputSparkline({ series }: { series: number[] }) {
+  const max = Math.max(...series, 1);
+  const step = series.length > 1 ? SPARK_WIDTH / (series.length - 1) : 0;
+  const points = series.map((value, i) => `${(i * step).toFixed(1)},${(SPARK_HEIGHT - (value / max) * (SPARK_HEIGHT - 4) - 2).toFixed(1)}`);
+
+  return (
+    <svg className="sparkline" viewBox={`0 0 ${SPARK_WIDTH} ${SPARK_HEIGHT}`} width={SPARK_WIDTH} height={SPARK_HEIGHT} role="img">
+      <polyline className="sparkline-line" points={points.join(' ')} />
+    </svg>
+  );
+}
+
+export default function ThroughputMeter({ samples }: ThroughputMeterProps) {
+  const { t, number, duration } = useI18n();
+  const stats = measureThroughput(samples);
+  const series = throughputSeries(samples);
+  const rate = (value: number) => number(Math.round(value * 10) / 10);
+
+  return (
+    <div className="throughput">
+      <span>{t('throughput.rate', { rate: stats ? rate(stats.overall) : '—' })}</span>
+      <span>{t('throughput.recent', { seconds: ROLLING_WINDOW / 1000, rate: stats ? rate(stats.recent) : '—' })}</span>
+      <span className="throughput-eta">
+        {stats?.eta != null ? t('throughput.eta', { time: duration(stats.eta) }) : t('throughput.estimating')}
+      </span>
+      {series.length > 1 && <ThroughputSparkline series={series} />}
+    </div>
+  );
+}
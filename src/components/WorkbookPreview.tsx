@@ -0,0 +1,121 @@
+import { guessMapping, type ColumnMapping, type SheetPreview } from '../lib/workbook';
+import { useI18n } from './I18nContext';
+
+interface WorkbookPreviewProps {
+  sheets: SheetPreview[];
+  mapping: ColumnMapping;
+  onChange: (mapping: ColumnMapping) => void;
+  disabled?: boolean;
+}
+
+export default function WorkbookPreview({ sheets, mapping, onChange, disabled }: WorkbookPreviewProps) {
+  const { t, number } = useI18n();
+  const sheet = sheets.find(s => s.name === mapping.sheet) ?? sheets[0];
+  const columns = sheet.header.filter(name => name !== '');
+
+  const selectSheet = (name: string) => {
+    const next = sheets.find(s => s.name === name);
+    if (!next) return;
+    const keep = (column?: string) => (column && next.header.includes(column) ? column : undefined);
+    const direccion = keep(mapping.direccion);
+    const municipio = keep(mapping.municipio);
+    if (direccion && municipio) {
+      onChange({ sheet: name, direccion, municipio, provincia: keep(mapping.provincia) });
+      return;
+    }
+    // The columns of the previous sheet are not all here, so map this one from scratch
+    onChange(guessMapping(next) ?? {
+      sheet: name,
+      direccion: next.header[0] ?? '',
+      municipio: next.header[1] ?? ''
+    });
+  };
+
+  const columnClass = (name: string) => {
+    if (name === mapping.direccion) return 'mapped-direccion';
+    if (name === mapping.municipio) return 'mapped-municipio';
+    if (name === mapping.provincia) return 'mapped-provincia';
+    return '';
+  };
+
+  return (
+    <div className="workbook-preview">
+      {sheets.length > 1 && (
+        <div className="preview-tabs">
+          {sheets.map(s => (
+            <button
+              key={s.name}
+              className={`preview-tab ${s.name === sheet.name ? 'active' : ''}`}
+              onClick={() => selectSheet(s.name)}
+              disabled={disabled}
+            >
+              {s.name}
+              <span className="preview-tab-count">{number(s.rowCount)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="grid-3 preview-mapping">
+        <div className="form-group">
+          <label className="form-label">{t('preview.direccion')}</label>
+          <select
+            className="form-select"
+            value={mapping.direccion}
+            onChange={(e) => onChange({ ...mapping, sheet: sheet.name, direccion: e.target.value })}
+            disabled={disabled}
+          >
+            {columns.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label className="form-label">{t('preview.municipio')}</label>
+          <select
+            className="form-select"
+            value={mapping.municipio}
+            onChange={(e) => onChange({ ...mapping, sheet: sheet.name, municipio: e.target.value })}
+            disabled={disabled}
+          >
+            {columns.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+        <div className="form-group">
+          <label className="form-label">{t('preview.provincia')}</label>
+          <select
+            className="form-select"
+            value={mapping.provincia ?? ''}
+            onChange={(e) => onChange({ ...mapping, sheet: sheet.name, provincia: e.target.value || undefined })}
+            disabled={disabled}
+          >
+            <option value="">{t('preview.noProvince')}</option>
+            {columns.map(name => <option key={name} value={name}>{name}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="preview-table-wrapper">
+        <table className="preview-table">
+          <thead>
+            <tr>
+              {sheet.header.map((name, i) => (
+                <th key={i} className={columnClass(name)}>{name || t('common.column', { n: i + 1 })}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sheet.rows.map((row, r) => (
+              <tr key={r}>
+                {sheet.header.map((name, c) => (
+                  <td key={c} className={columnClass(name)}>{String(row[c] ?? '')}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="preview-hint">
+        {t('preview.showing', { shown: sheet.rows.length, total: sheet.rowCount, sheet: sheet.name })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,517 @@
+import { useState, useRef, useEffect } from 'react';
+import { describeReconnect, type ReconnectInfo } from '../lib/api';
+import { FIRST_DATA_ROW, type ProtocolError } from '../lib/events';
+import {
+  readSheetRows,
+  pickRows,
+  expandResultWorkbook,
+  buildRetryWorkbook,
+  patchResultWorkbook,
+  type ColumnMapping,
+  type ProcessedRow,
+  type RowCorrection,
+  type RowPatch,
+  type SheetRows
+} from '../lib/workbook';
+import type { TextOptions } from '../lib/formats';
+import { planDedupe, pendingRows, countPairRows, expandOutcomes, type DedupePlan, type PairOutcome } from '../lib/dedupe';
+import { getCachedPairs, cachePairs, pruneCache, type CacheSettings } from '../lib/cache';
+import { defaultOutputName } from '../lib/batch';
+import { classifyFound } from '../lib/plausibility';
+import type { ResultProgress } from '../lib/result';
+import { streamJobBatched } from '../lib/pipeline';
+import { tallyLog, type JobBatch, type JobEvent, type LogCounts, type PendingLogEntry } from '../lib/aggregate';
+import type { GeocoderClient } from '../lib/client';
+import type { JobSummary, StoredJob } from '../lib/history';
+import type { ThroughputSample } from '../lib/throughput';
+import type { Translator } from '../lib/i18n';
+import type { LogEntry, ProcessingResult } from '../lib/types';
+
+// State of the single-file job shown in GeocoderApp: the run itself, its rows and log, resuming
+// after an interruption and retrying corrected rows. The network side goes through the client.
+// Each distinct address is uploaded once, and only when neither the lookup cache nor an
+// interrupted attempt of the same run already answered it.
+
+export interface ApiError {
+  message: string;
+  status?: number;
+  details?: string;
+}
+
+export type JobMeta = Omit<JobSummary, 'result' | 'outputName' | 'size'>;
+
+export interface ResumeInfo {
+  lastRow: number;
+  processedRows: number;
+}
+
+export interface JobInput {
+  file: File;
+  mapping: ColumnMapping;
+  textOptions: TextOptions;
+  /** Degraded-backend warnings noted at the top of the log */
+  warnings: string[];
+  cache: CacheSettings;
+}
+
+export type PendingCorrection = RowCorrection & { index: number };
+
+const countRows = (rows: ProcessedRow[]): ProcessingResult => ({
+  total: rows.length,
+  encontrados: rows.filter(r => r.status === 'found').length,
+  dudosos: rows.filter(r => r.status === 'suspect').length,
+  noEncontrados: rows.filter(r => r.status === 'not_found').length,
+  errores: rows.filter(r => r.status === 'error').length,
+  desdeCache: rows.filter(r => r.cached).length
+});
+
+const statusKey = (status: ProcessedRow['status']): Exclude<keyof ProcessingResult, 'desdeCache'> =>
+  status === 'found' ? 'encontrados'
+    : status === 'suspect' ? 'dudosos'
+    : status === 'not_found' ? 'noEncontrados'
+    : 'errores';
+
+export default function useGeocoderJob(client: GeocoderClient, { t, translate, describeError, locale }: Translator) {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [totalRows, setTotalRows] = useState(0);
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [result, setResult] = useState<ProcessingResult | null>(null);
+  const [resultBlob, setResultBlob] = useState<Blob | null>(null);
+  const [preparing, setPreparing] = useState<ResultProgress | null>(null);
+  const [rows, setRows] = useState<ProcessedRow[]>([]);
+  const [activeJobId, setActiveJobId] = useState<string | null>(null);
+  const [downloadFilename, setDownloadFilename] = useState<string>('resultado.xlsx');
+  const [error, setError] = useState<ApiError | null>(null);
+  const [logLength, setLogLength] = useState(0);
+  const [logCounts, setLogCounts] = useState<LogCounts>({});
+  const [resumeInfo, setResumeInfo] = useState<ResumeInfo | null>(null);
+  const [cancelled, setCancelled] = useState(false);
+  const [throughput, setThroughput] = useState<ThroughputSample[]>([]);
+
+  const logRef = useRef<LogEntry[]>([]);
+  const logIdRef = useRef(0);
+  const timerIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const sheetRef = useRef<{ source: SheetRows; plan: DedupePlan } | null>(null);
+  const outcomesRef = useRef(new Map<string, PairOutcome>());
+  const uploadRef = useRef<number[]>([]);
+  const resolvedRowsRef = useRef(0);
+  const completedRef = useRef(false);
+  const streamStatsRef = useRef<Omit<ThroughputSample, 'at'> | null>(null);
+  const jobRef = useRef<JobMeta | null>(null);
+  const inputRef = useRef<JobInput | null>(null);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
+  // The log can reach 100k lines, so it is appended to in place instead of copied on every line
+  const appendLog = (entries: PendingLogEntry[]) => {
+    if (entries.length === 0) return;
+    for (const entry of entries) logRef.current.push({ ...entry, id: ++logIdRef.current });
+    setLogLength(logRef.current.length);
+    setLogCounts(prev => tallyLog(prev, entries));
+  };
+
+  const addLogEntry = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    appendLog([{ ...entry, timestamp: new Date() }]);
+  };
+
+  const clearLog = (entries: LogEntry[] = []) => {
+    logRef.current = [...entries];
+    logIdRef.current = entries.reduce((max, entry) => Math.max(max, entry.id), 0);
+    setLogLength(entries.length);
+    setLogCounts(tallyLog({}, entries));
+  };
+
+  const reset = () => {
+    setResult(null);
+    setResultBlob(null);
+    setRows([]);
+    setError(null);
+    setProgress(0);
+    setTotalRows(0);
+    clearLog();
+    setResumeInfo(null);
+    setCancelled(false);
+    setThroughput([]);
+    sheetRef.current = null;
+    outcomesRef.current = new Map();
+    jobRef.current = null;
+    inputRef.current = null;
+    setActiveJobId(null);
+  };
+
+  const reportProtocolError = (err: ProtocolError) => {
+    addLogEntry({ type: 'error', message: t('log.protocolError', { error: err.detail }) });
+    console.warn('Invalid SSE event:', err.payload);
+  };
+
+  const reportReconnect = (info: ReconnectInfo) => {
+    addLogEntry({ type: 'info', message: translate(describeReconnect(info)) });
+  };
+
+  // Rows and log lines arrive in batches from the stream worker, already numbered as rows of the
+  // source sheet; each one answers the pair of that row
+  const applyBatch = (batch: JobBatch) => {
+    const sheet = sheetRef.current;
+    const input = inputRef.current;
+    if (!sheet || !input) return;
+
+    const fresh: [string, PairOutcome][] = [];
+    for (const row of batch.rows) {
+      const key = sheet.plan.keys[row.row - FIRST_DATA_ROW];
+      if (key === undefined) continue;
+      const outcome: PairOutcome = row.status === 'error'
+        ? { status: 'error', error: row.error }
+        : { status: row.status === 'not_found' ? 'not_found' : 'found', cp: row.cp };
+      outcomesRef.current.set(key, outcome);
+      fresh.push([key, outcome]);
+    }
+    resolvedRowsRef.current += countPairRows(sheet.plan, fresh.map(([key]) => key));
+    if (batch.total > 0) streamStatsRef.current = { processed: batch.processed, total: batch.total };
+    appendLog(batch.log);
+
+    const total = sheet.source.rows.length;
+    if (total > 0) setProgress(Math.round((resolvedRowsRef.current / total) * 100));
+    if (input.cache.enabled && fresh.length > 0) {
+      cachePairs(client.connection.baseUrl, fresh).catch(err => console.warn('Could not update the lookup cache:', err));
+    }
+  };
+
+  // Every pair has an outcome: expand them to all rows and rebuild the result workbook around them
+  const completeJob = async (output: Blob | null, filename?: string) => {
+    const sheet = sheetRef.current;
+    const input = inputRef.current;
+    if (!sheet || !input) return;
+
+    completedRef.current = true;
+    const processed = expandOutcomes(sheet.source, sheet.plan, outcomesRef.current);
+    const uploaded = new Map(uploadRef.current.map((index, position) => [sheet.plan.keys[index], position]));
+    const positions = sheet.plan.keys.map(key => uploaded.get(key) ?? -1);
+
+    setProgress(100);
+    setResult(countRows(processed));
+    setDownloadFilename(filename || defaultOutputName(input.file));
+    setResultBlob(await expandResultWorkbook(input.mapping.sheet, sheet.source, processed, positions, output));
+  };
+
+  const handleJobEvent = async (data: JobEvent) => {
+    switch (data.type) {
+      case 'start':
+        streamStatsRef.current = { processed: 0, total: data.total };
+        break;
+
+      case 'error':
+        setError({ message: data.message });
+        break;
+
+      case 'complete': {
+        let output: Blob | null = null;
+        if (data.file || data.download_url || data.job_id) {
+          // The rows are already in; a failed download only loses the columns the server adds
+          setPreparing({ phase: data.file ? 'decode' : 'download', loaded: 0, total: null });
+          try {
+            output = await client.fetchResult(data, {
+              signal: abortControllerRef.current?.signal,
+              onProgress: setPreparing
+            });
+          } catch (err) {
+            if (abortControllerRef.current?.signal.aborted) throw err;
+            const message = t('process.prepareFailed', { error: describeError(err) });
+            addLogEntry({ type: 'error', message });
+            setError({ message });
+          } finally {
+            setPreparing(null);
+          }
+        }
+        await completeJob(output, data.filename);
+        break;
+      }
+    }
+  };
+
+  // Looks up the pairs not answered yet in the lookup cache; a broken cache only costs extra uploads
+  const readCache = async (plan: DedupePlan, cache: CacheSettings) => {
+    if (!cache.enabled) return 0;
+    try {
+      await pruneCache(cache.maxAgeDays);
+      const missing = [...plan.groups.keys()].filter(key => !outcomesRef.current.has(key));
+      const hits = await getCachedPairs(client.connection.baseUrl, missing, cache.maxAgeDays);
+      hits.forEach((outcome, key) => outcomesRef.current.set(key, outcome));
+      return hits.size;
+    } catch (err) {
+      console.warn('Could not read the lookup cache:', err);
+      return 0;
+    }
+  };
+
+  // Process the file with SSE. Only the pairs without an outcome are uploaded, so resuming sends
+  // what the interrupted attempt did not get to.
+  const start = async (input: JobInput, resume = false) => {
+    const { file, mapping, textOptions, warnings, cache } = input;
+    const isResume = resume && resumeInfo !== null;
+    inputRef.current = input;
+
+    setIsProcessing(true);
+    setProgress(0);
+    setElapsedTime(0);
+    setTotalRows(0);
+    setResult(null);
+    setResultBlob(null);
+    setError(null);
+    setResumeInfo(null);
+    setCancelled(false);
+    setThroughput([]);
+    streamStatsRef.current = null;
+    if (!isResume) {
+      clearLog();
+      outcomesRef.current = new Map();
+      jobRef.current = {
+        id: crypto.randomUUID(),
+        fileName: file.name,
+        apiUrl: client.connection.baseUrl,
+        startedAt: Date.now(),
+        finishedAt: Date.now(),
+        status: 'failed'
+      };
+      setActiveJobId(jobRef.current.id);
+    }
+    sheetRef.current = null;
+    uploadRef.current = [];
+    completedRef.current = false;
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    // Start timer; throughput is sampled from the moment rows are being uploaded
+    const startTime = Date.now();
+    timerIntervalRef.current = setInterval(() => {
+      const now = Date.now();
+      setElapsedTime(Math.floor((now - startTime) / 1000));
+      const stats = streamStatsRef.current;
+      if (stats) setThroughput(prev => [...prev, { at: now, ...stats }]);
+    }, 1000);
+
+    try {
+      if (isResume) {
+        addLogEntry({ type: 'info', message: t('log.resuming', { file: file.name, row: String(resumeInfo.lastRow) }) });
+      } else {
+        addLogEntry({ type: 'info', message: t('log.starting', { file: file.name }) });
+        if (warnings.length > 0) {
+          addLogEntry({ type: 'info', message: t('log.degraded', { warnings: warnings.join('; ') }) });
+        }
+      }
+
+      const source = await readSheetRows(file, mapping.sheet, textOptions);
+      const plan = planDedupe(source, mapping);
+      sheetRef.current = { source, plan };
+      setTotalRows(source.rows.length);
+
+      const cached = await readCache(plan, cache);
+      const upload = pendingRows(plan, outcomesRef.current);
+      uploadRef.current = upload;
+      resolvedRowsRef.current = countPairRows(plan, outcomesRef.current.keys());
+      setProgress(source.rows.length > 0 ? Math.round((resolvedRowsRef.current / source.rows.length) * 100) : 0);
+      addLogEntry({
+        type: 'info',
+        message: t('log.deduped', { rows: source.rows.length, pairs: plan.groups.size, cached, pending: upload.length })
+      });
+
+      if (upload.length === 0) {
+        await completeJob(null);
+      } else {
+        // Always sent as .xlsx, which also converts CSV, TSV and ODS inputs for the API
+        streamStatsRef.current = { processed: 0, total: upload.length };
+        setThroughput([{ at: Date.now(), ...streamStatsRef.current }]);
+        const updates = streamJobBatched(
+          {
+            api: client.connection,
+            file: pickRows(file.name, mapping.sheet, source, upload),
+            mapping,
+            sourceRows: upload,
+            locale
+          },
+          controller.signal
+        );
+        for await (const update of updates) {
+          if (update.type === 'batch') applyBatch(update.batch);
+          else if (update.type === 'event') await handleJobEvent(update.event);
+        }
+      }
+
+      if (!completedRef.current) {
+        throw new Error(t('process.closed'));
+      }
+
+    } catch (err) {
+      if (controller.signal.aborted) {
+        addLogEntry({ type: 'info', message: t('log.cancelled') });
+        setCancelled(true);
+      } else {
+        const errorMessage = describeError(err);
+        addLogEntry({ type: 'error', message: t('log.error', { error: errorMessage }) });
+        setError({ message: errorMessage });
+      }
+    } finally {
+      if (timerIntervalRef.current) clearInterval(timerIntervalRef.current);
+      const sheet = sheetRef.current;
+      const processed = sheet ? expandOutcomes(sheet.source, sheet.plan, outcomesRef.current) : [];
+
+      // Keep what was already processed so the job can be resumed
+      if (!completedRef.current && processed.length > 0) {
+        setResumeInfo({ lastRow: processed[processed.length - 1].row, processedRows: processed.length });
+      }
+      if (jobRef.current) {
+        jobRef.current.finishedAt = Date.now();
+        jobRef.current.status = completedRef.current
+          ? 'completed'
+          : processed.length > 0 || controller.signal.aborted ? 'interrupted' : 'failed';
+      }
+      setRows(processed);
+      abortControllerRef.current = null;
+      setIsProcessing(false);
+    }
+  };
+
+  const cancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Reopen a stored run as if it had just finished; the original input file is not kept
+  const restore = (job: StoredJob) => {
+    const { result: storedResult, rows: storedRows, log, output, mapping, outputName, ...meta } = job;
+    jobRef.current = meta;
+    sheetRef.current = null;
+    setActiveJobId(job.id);
+    // Runs stored before the plausibility checks have no dudosos count
+    setResult(storedResult && { ...storedResult, dudosos: storedResult.dudosos ?? 0 });
+    setRows(storedRows);
+    clearLog(log);
+    setResultBlob(output);
+    setDownloadFilename(outputName);
+    setProgress(storedResult ? 100 : 0);
+  };
+
+  // Send only the corrected rows through the stream endpoint and patch the results in place.
+  // Resolves to whether the whole retry went through.
+  const retry = async (mapping: ColumnMapping, pending: PendingCorrection[]) => {
+    if (!result || pending.length === 0) return false;
+
+    setIsRetrying(true);
+    setError(null);
+    addLogEntry({ type: 'info', message: t('log.retrying', { count: pending.length }) });
+
+    const updated = [...rows];
+    const counts = { ...result };
+    const patches: RowPatch[] = [];
+    // Rows already answered, so an event replayed after a reconnect is not applied twice
+    const answered = new Set<number>();
+
+    const applyRow = (next: ProcessedRow, index: number) => {
+      counts[statusKey(updated[index].status)] -= 1;
+      counts[statusKey(next.status)] += 1;
+      if (updated[index].cached && counts.desdeCache) counts.desdeCache -= 1;
+      updated[index] = next;
+    };
+
+    // Corrections keep the province of their source row while the sheet is at hand; runs reopened
+    // from the history no longer have it
+    const source = sheetRef.current?.source;
+    const provinciaColumn = source && mapping.provincia
+      ? source.header.findIndex(cell => String(cell ?? '').trim() === mapping.provincia)
+      : -1;
+    const corrections = pending.map(correction => (source && provinciaColumn >= 0
+      ? { ...correction, provincia: String(source.rows[rows[correction.index].row - FIRST_DATA_ROW]?.[provinciaColumn] ?? '') }
+      : correction));
+
+    try {
+      const workbook = buildRetryWorkbook(mapping, corrections);
+      const events = client.processWorkbook(workbook.file, {
+        mapping: workbook.mapping,
+        onProtocolError: reportProtocolError,
+        onReconnect: reportReconnect
+      });
+      for await (const event of events) {
+        if (event.type === 'error') throw new Error(event.message);
+        if (event.type !== 'progress' && event.type !== 'row_error') continue;
+
+        const entry = pending[event.row - FIRST_DATA_ROW];
+        if (!entry || answered.has(entry.index)) continue;
+        answered.add(entry.index);
+        const row = updated[entry.index].row;
+
+        if (event.type === 'row_error') {
+          applyRow({ row, status: 'error', direccion: entry.direccion, municipio: entry.municipio, error: event.error }, entry.index);
+          addLogEntry({ type: 'error', row, message: event.error });
+        } else if (event.status === 'found') {
+          const { status, warning } = classifyFound(event.cp, entry.municipio);
+          applyRow({ row, status, direccion: entry.direccion, municipio: entry.municipio, cp: event.cp, warning, manual: true }, entry.index);
+          patches.push({ ...entry, cp: event.cp });
+          addLogEntry({ type: status, row, direccion: entry.direccion, municipio: entry.municipio, cp: event.cp, message: warning && translate(warning) });
+        } else {
+          applyRow({ row, status: 'not_found', direccion: entry.direccion, municipio: entry.municipio }, entry.index);
+          addLogEntry({ type: 'not_found', row, direccion: entry.direccion, municipio: entry.municipio });
+        }
+      }
+
+      addLogEntry({ type: 'complete', message: t('log.corrections', { resolved: patches.length, count: pending.length }) });
+      return true;
+    } catch (err) {
+      const errorMessage = describeError(err);
+      addLogEntry({ type: 'error', message: t('log.error', { error: errorMessage }) });
+      setError({ message: errorMessage });
+      return false;
+    } finally {
+      // Corrections that did come back are kept even when the stream failed part way
+      if (resultBlob && patches.length > 0) {
+        try {
+          setResultBlob(await patchResultWorkbook(resultBlob, mapping, patches));
+        } catch (err) {
+          const errorMessage = describeError(err);
+          addLogEntry({ type: 'error', message: t('log.error', { error: errorMessage }) });
+          setError({ message: errorMessage });
+        }
+      }
+      setRows(updated);
+      setResult(counts);
+      setIsRetrying(false);
+    }
+  };
+
+  return {
+    isProcessing,
+    isRetrying,
+    progress,
+    totalRows,
+    elapsedTime,
+    result,
+    resultBlob,
+    preparing,
+    rows,
+    activeJobId,
+    downloadFilename,
+    error,
+    resumeInfo,
+    /** The last run stopped because the user cancelled it */
+    cancelled,
+    /** Upload progress sampled every second while rows are being geocoded */
+    throughput,
+    /** Appended to in place; `length` changes whenever it grows */
+    log: { entries: logRef.current, length: logLength, counts: logCounts },
+    /** The run being shown, for the history and the report; null before the first run */
+    meta: jobRef.current,
+    setError,
+    start,
+    cancel,
+    reset,
+    restore,
+    retry
+  };
+}
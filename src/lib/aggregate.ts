@@ -0,0 +1,186 @@
+import { streamJob, describeReconnect, type ApiConnection, type ReconnectInfo } from './api';
+import { FIRST_DATA_ROW, type CompleteEvent, type ErrorEvent, type GeocoderEvent, type StartEvent } from './events';
+import { classifyFound } from './plausibility';
+import { errorMessage } from './errors';
+import { createTranslator, DEFAULT_LOCALE, type Locale, type Message } from './i18n';
+import type { ColumnMapping, ProcessedRow } from './workbook';
+import type { LogEntry, ProcessingResult } from './types';
+
+// Turns the event stream of a job into processed rows, log lines and running counters, handed
+// out in batches so the UI updates a few times per second instead of once per row.
+// Runs inside stream.worker.ts, or on the calling thread where workers are not available.
+
+/** Log ids are assigned by the receiver, which also logs lines of its own */
+export type PendingLogEntry = Omit<LogEntry, 'id'>;
+
+export interface JobBatch {
+  rows: ProcessedRow[];
+  log: PendingLogEntry[];
+  /** Rows of this run so far, by status */
+  counts: ProcessingResult;
+  /** `stats.procesadas` and `total` of the latest progress event */
+  processed: number;
+  total: number;
+}
+
+/** Events that change the job state beyond adding rows */
+export type JobEvent = StartEvent | ErrorEvent | CompleteEvent;
+
+export type JobMessage =
+  | { type: 'batch'; batch: JobBatch }
+  | { type: 'event'; event: JobEvent }
+  /** Sent as soon as a reconnection is scheduled, besides its log line */
+  | { type: 'reconnect'; info: ReconnectInfo }
+  | { type: 'end' }
+  | { type: 'failed'; error: Message | string };
+
+export interface JobRequest {
+  api: ApiConnection;
+  file: File;
+  mapping: ColumnMapping;
+  /** Data row of the original sheet behind each uploaded row, when only some rows are uploaded */
+  sourceRows?: number[];
+  /** Language of the log lines written by the aggregator */
+  locale: Locale;
+}
+
+export const FLUSH_INTERVAL = 100;
+
+export const emptyResult = (): ProcessingResult => ({ total: 0, encontrados: 0, dudosos: 0, noEncontrados: 0, errores: 0 });
+
+const COUNT_KEYS: Record<ProcessedRow['status'], keyof ProcessingResult> = {
+  found: 'encontrados',
+  suspect: 'dudosos',
+  not_found: 'noEncontrados',
+  error: 'errores'
+};
+
+export type LogCounts = Partial<Record<LogEntry['type'], number>>;
+
+export const tallyLog = (counts: LogCounts, entries: PendingLogEntry[]): LogCounts => {
+  const next = { ...counts };
+  for (const entry of entries) next[entry.type] = (next[entry.type] ?? 0) + 1;
+  return next;
+};
+
+export const createJobAggregator = (sourceRows?: number[], locale: Locale = DEFAULT_LOCALE) => {
+  const { t, translate } = createTranslator(locale);
+  let rows: ProcessedRow[] = [];
+  let log: PendingLogEntry[] = [];
+  const counts = emptyResult();
+  let processed = 0;
+  let total = 0;
+  // Sheet rows already answered, so an event replayed after a reconnect is not counted twice
+  const answered = new Set<number>();
+
+  const addLog = (entry: Omit<LogEntry, 'id' | 'timestamp'>) => {
+    log.push({ ...entry, timestamp: new Date() });
+  };
+
+  const addRow = (row: ProcessedRow) => {
+    rows.push(row);
+    counts.total++;
+    counts[COUNT_KEYS[row.status]]++;
+  };
+
+  // Sheet row behind the uploaded row an event is about, or null for a row that was not
+  // uploaded or has already been answered
+  const rowNumber = (eventRow: number) => {
+    const row = sourceRows ? sourceRows[eventRow - FIRST_DATA_ROW] + FIRST_DATA_ROW : eventRow;
+    if (!Number.isInteger(row) || answered.has(row)) return null;
+    answered.add(row);
+    return row;
+  };
+
+  const add = (event: GeocoderEvent) => {
+    switch (event.type) {
+      case 'start':
+        total = event.total;
+        addLog({ type: 'info', message: t('log.fileLoaded', { total: event.total }) });
+        break;
+
+      case 'progress': {
+        processed = event.stats.procesadas;
+        total = event.total;
+        const { status, warning } = event.status === 'found'
+          ? classifyFound(event.cp, event.municipio)
+          : { status: 'not_found' as const, warning: undefined };
+        const row = rowNumber(event.row);
+        if (row === null) break;
+        addRow({ row, status, direccion: event.direccion, municipio: event.municipio, cp: event.cp, warning });
+        addLog({ type: status, row, direccion: event.direccion, municipio: event.municipio, cp: event.cp, message: warning && translate(warning) });
+        break;
+      }
+
+      case 'row_error': {
+        const row = rowNumber(event.row);
+        if (row === null) break;
+        addRow({ row, status: 'error', error: event.error });
+        addLog({ type: 'error', row, message: event.error });
+        break;
+      }
+
+      case 'error':
+        addLog({ type: 'error', message: event.message });
+        break;
+
+      case 'complete':
+        addLog({ type: 'complete', message: t('log.completed', { elapsed: event.elapsed }) });
+        break;
+    }
+  };
+
+  // Everything added since the previous call, or null when nothing changed
+  const drain = (): JobBatch | null => {
+    if (rows.length === 0 && log.length === 0) return null;
+    const batch = { rows, log, counts: { ...counts }, processed, total };
+    rows = [];
+    log = [];
+    return batch;
+  };
+
+  return { add, addLog, drain };
+};
+
+// Streams one job and reports it through `post`: a batch at most every FLUSH_INTERVAL ms, job
+// events right after the rows that precede them, then `end` or `failed`
+export const runAggregatedJob = async (
+  { api, file, mapping, sourceRows, locale }: JobRequest,
+  post: (message: JobMessage) => void,
+  signal?: AbortSignal
+) => {
+  const aggregator = createJobAggregator(sourceRows, locale);
+  const { t, translate } = createTranslator(locale);
+  const flush = () => {
+    const batch = aggregator.drain();
+    if (batch) post({ type: 'batch', batch });
+  };
+  const timer = setInterval(flush, FLUSH_INTERVAL);
+
+  try {
+    const events = streamJob(api, file, mapping, {
+      signal,
+      onProtocolError: err => {
+        aggregator.addLog({ type: 'error', message: t('log.protocolError', { error: err.detail }) });
+        console.warn('Invalid SSE event:', err.payload);
+      },
+      onReconnect: info => {
+        aggregator.addLog({ type: 'info', message: translate(describeReconnect(info)) });
+        post({ type: 'reconnect', info });
+      }
+    });
+    for await (const event of events) {
+      aggregator.add(event);
+      if (event.type === 'progress' || event.type === 'row_error') continue;
+      flush();
+      post({ type: 'event', event });
+    }
+    flush();
+    post({ type: 'end' });
+  } catch (err) {
+    flush();
+    post({ type: 'failed', error: errorMessage(err) });
+  } finally {
+    clearInterval(timer);
+  }
+};
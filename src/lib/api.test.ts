@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { streamJob, HttpError, STREAM_ENDPOINT, type ApiConnection, type ReconnectInfo, type RetryPolicy } from './api';
+import { LocalizedError } from './errors';
+import type { GeocoderEvent } from './events';
+
+const API: ApiConnection = { baseUrl: 'http://api.test', headers: { Authorization: 'Bearer token' } };
+const FILE = new File(['xlsx'], 'direcciones.xlsx');
+const MAPPING = { sheet: 'Hoja1', direccion: 'Direccion', municipio: 'Municipio' };
+const POLICY: RetryPolicy = { attempts: 3, baseDelay: 5, maxDelay: 20 };
+
+const START = 'data: {"type":"start","total":2}\n\n';
+const COMPLETE = 'data: {"type":"complete","stats":{"procesadas":2,"encontradas":2,"no_encontradas":0,"errores":0}}\n\n';
+const progress = (row: number, id?: string) =>
+  `${id ? `id: ${id}\n` : ''}data: {"type":"progress","row":${row},"total":2,"status":"found","direccion":"Gran Via ${row}",` +
+  `"municipio":"Madrid","cp":"28013","stats":{"procesadas":${row - 1},"encontradas":${row - 1},"no_encontradas":0,"errores":0}}\n\n`;
+
+const stream = (body: string) => new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+const status = (code: number) => new Response(null, { status: code, statusText: 'Proxy' });
+
+// Body that sends `body` and then drops the connection on the next read
+const dropped = (body: string) => {
+  let sent = false;
+  return new Response(new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent) return controller.error(new TypeError('network error'));
+      controller.enqueue(new TextEncoder().encode(body));
+      sent = true;
+    }
+  }));
+};
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+// Answers each request with the next response, or throws it when it is an error
+const respond = (...responses: (Response | Error)[]) => {
+  for (const response of responses) {
+    fetchMock.mockImplementationOnce(async () => {
+      if (response instanceof Error) throw response;
+      return response;
+    });
+  }
+};
+
+const run = async (policy = POLICY) => {
+  const events: GeocoderEvent[] = [];
+  const reconnects: ReconnectInfo[] = [];
+  for await (const event of streamJob(API, FILE, MAPPING, { retry: policy, onReconnect: info => reconnects.push(info) })) {
+    events.push(event);
+  }
+  return { events, reconnects };
+};
+
+const sentHeaders = (call: number) => fetchMock.mock.calls[call][1].headers as Record<string, string>;
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('streamJob', () => {
+  it('uploads the workbook and yields its events', async () => {
+    respond(stream(START + progress(2) + COMPLETE));
+    const { events, reconnects } = await run();
+
+    expect(events.map(event => event.type)).toEqual(['start', 'progress', 'complete']);
+    expect(reconnects).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe(`${API.baseUrl}${STREAM_ENDPOINT}`);
+    expect(sentHeaders(0)).toEqual(API.headers);
+  });
+
+  it.each([502, 503, 504])('retries an upload answered with %i', async code => {
+    respond(status(code), stream(START + COMPLETE));
+    const { events, reconnects } = await run();
+
+    expect(events.map(event => event.type)).toEqual(['start', 'complete']);
+    expect(reconnects).toEqual([{
+      attempt: 1,
+      maxAttempts: 3,
+      delay: 5,
+      reason: { key: 'error.httpStatus', params: { status: String(code), statusText: 'Proxy' } },
+      lastEventId: null
+    }]);
+  });
+
+  it('does not retry other HTTP errors', async () => {
+    respond(status(500));
+
+    await expect(run()).rejects.toBeInstanceOf(HttpError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries network failures with exponential backoff up to the maximum delay', async () => {
+    respond(new TypeError('Failed to fetch'), new TypeError('Failed to fetch'), new TypeError('Failed to fetch'), stream(COMPLETE));
+    const { reconnects } = await run();
+
+    expect(reconnects.map(info => info.delay)).toEqual([5, 10, 20]);
+    expect(reconnects.map(info => info.reason)).toEqual(Array(3).fill({ key: 'error.network' }));
+  });
+
+  it('gives up after the configured attempts', async () => {
+    respond(status(503), status(503), status(503), status(503));
+
+    const error = await run().catch(err => err);
+    expect(error).toBeInstanceOf(LocalizedError);
+    expect(error.detail).toMatchObject({ key: 'error.retriesExhausted', params: { count: 3 } });
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('waits as long as the server asks with retry:', async () => {
+    respond(dropped('retry: 15\n' + progress(2, '1')), stream(COMPLETE));
+    const { reconnects } = await run();
+
+    expect(reconnects.map(info => info.delay)).toEqual([15]);
+  });
+
+  it('reconnects a dropped stream with the last event id', async () => {
+    respond(dropped(START.replace('data:', 'id: 0\ndata:') + progress(2, '1')), stream(progress(3, '2') + COMPLETE));
+    const { events, reconnects } = await run();
+
+    expect(events.map(event => event.type)).toEqual(['start', 'progress', 'progress', 'complete']);
+    expect(reconnects).toEqual([expect.objectContaining({ attempt: 1, lastEventId: '1', reason: { key: 'error.network' } })]);
+    expect(sentHeaders(0)).not.toHaveProperty('Last-Event-ID');
+    expect(sentHeaders(1)).toEqual({ ...API.headers, 'Last-Event-ID': '1' });
+  });
+
+  it('reconnects a stream with event ids that ends before the complete event', async () => {
+    respond(stream(progress(2, '1')), stream(COMPLETE));
+    const { reconnects } = await run();
+
+    expect(reconnects).toEqual([expect.objectContaining({ attempt: 1, lastEventId: '1', reason: { key: 'process.closed' } })]);
+    expect(sentHeaders(1)['Last-Event-ID']).toBe('1');
+  });
+
+  it('resets the attempt count whenever an event arrives', async () => {
+    // Without the reset the third failure would exhaust the two attempts allowed
+    respond(dropped(progress(2, '1')), status(503), dropped(progress(3, '2')), stream(COMPLETE));
+    const { events, reconnects } = await run({ ...POLICY, attempts: 2 });
+
+    expect(reconnects.map(info => info.attempt)).toEqual([1, 2, 1]);
+    expect(events.map(event => event.type)).toEqual(['progress', 'progress', 'complete']);
+  });
+
+  it('ends without retrying when a stream without ids closes early', async () => {
+    respond(stream(START + progress(2)));
+    const { events, reconnects } = await run();
+
+    expect(events.map(event => event.type)).toEqual(['start', 'progress']);
+    expect(reconnects).toEqual([]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not restart a job whose stream without ids drops', async () => {
+    respond(dropped(START + progress(2)), stream(START + COMPLETE));
+
+    await expect(run()).rejects.toBeInstanceOf(TypeError);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { readSSEStream, StreamTimeoutError } from './sse';
+import { parseEvent, ProtocolError, type GeocoderEvent } from './events';
+import type { ColumnMapping } from './workbook';
+import { LocalizedError, errorMessage } from './errors';
+import type { Message } from './i18n';
+import type { DemoOptions } from './demoOptions';
+
+export const STREAM_ENDPOINT = '/procesar-excel-stream';
+
+// Form fields telling the API which sheet and columns to read; kept here, away from the xlsx
+// code, so the stream worker does not bundle it
+const appendMapping = (formData: FormData, mapping: ColumnMapping) => {
+  formData.append('hoja', mapping.sheet);
+  formData.append('columna_direccion', mapping.direccion);
+  formData.append('columna_municipio', mapping.municipio);
+  if (mapping.provincia) formData.append('columna_provincia', mapping.provincia);
+};
+
+export interface ApiConnection {
+  baseUrl: string;
+  /** Sent with every request, e.g. the credentials of the selected profile */
+  headers: Record<string, string>;
+  /** Set for the simulated backend, which answers in the browser instead of over the network */
+  demo?: DemoOptions;
+}
+
+// fetch() throws a TypeError for a header name that is not an HTTP token or a value with line
+// breaks or characters beyond Latin-1, the same error it throws when the network is down.
+// Values are held to printable ASCII: a key or token with an accent is a typo, and servers read
+// the Latin-1 bytes fetch() would send in different ways.
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+const HEADER_VALUE = /^[\t\x20-\x7e]*$/;
+
+export const isValidHeaderName = (name: string) => HEADER_NAME.test(name);
+
+export const isValidHeaderValue = (value: string) => HEADER_VALUE.test(value);
+
+// Raised before anything is sent, so a misconfigured profile is reported as such instead of
+// being retried as a network failure
+export class InvalidHeaderError extends LocalizedError {
+  constructor(name: string) {
+    super({ key: 'error.invalidHeader', params: { name } });
+    this.name = 'InvalidHeaderError';
+  }
+}
+
+const checkHeaders = (headers: Record<string, string>) => {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!isValidHeaderName(name) || !isValidHeaderValue(value)) throw new InvalidHeaderError(name);
+  }
+};
+
+// Every request to the API goes through here. The demo backend is loaded on first use so
+// its xlsx code stays out of the bundles that never need it.
+export const apiFetch = async (api: ApiConnection, url: string, init: RequestInit = {}): Promise<Response> => {
+  checkHeaders(api.headers);
+  if (!api.demo) return fetch(url, init);
+  const { demoFetch } = await import('./demo');
+  return demoFetch(api.demo, url, init);
+};
+
+const describeStatus = (status: number, statusText: string): Message => {
+  if (status === 401) return { key: 'error.http401' };
+  if (status === 403) return { key: 'error.http403' };
+  return { key: 'error.httpStatus', params: { status: String(status), statusText } };
+};
+
+export class HttpError extends LocalizedError {
+  constructor(public status: number, statusText: string) {
+    super(describeStatus(status, statusText));
+    this.name = 'HttpError';
+  }
+}
+
+export interface RetryPolicy {
+  /** Reconnection attempts before giving up; the counter resets whenever an event arrives */
+  attempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 5, baseDelay: 1000, maxDelay: 30000 };
+
+// The server sends a comment line at least this often while a job is running
+export const HEARTBEAT_TIMEOUT = 60000;
+
+// Responses from the proxy in front of the API while it restarts or is overloaded
+const RETRYABLE_STATUS = new Set([502, 503, 504]);
+
+export interface ReconnectInfo {
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  reason: Message | string;
+  /** Set when the server supports resuming and the job continues after this event */
+  lastEventId: string | null;
+}
+
+export interface StreamJobOptions {
+  signal?: AbortSignal;
+  /** Invalid events are reported here and skipped instead of aborting the job */
+  onProtocolError?: (error: ProtocolError) => void;
+  /** Called before each wait-and-retry so the caller can show that the job is still alive */
+  onReconnect?: (info: ReconnectInfo) => void;
+  retry?: RetryPolicy;
+  heartbeatTimeout?: number;
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+class StreamClosedError extends LocalizedError {
+  constructor() {
+    super({ key: 'process.closed' });
+  }
+}
+
+// Network failures, proxy errors and stalled or truncated streams are worth another try;
+// anything the API itself rejected is not. Headers are checked before sending, so a TypeError
+// here means the request did not get through.
+const isRetryable = (err: unknown) =>
+  err instanceof TypeError ||
+  err instanceof StreamTimeoutError ||
+  err instanceof StreamClosedError ||
+  (err instanceof HttpError && RETRYABLE_STATUS.has(err.status));
+
+// Uploads a workbook and yields the validated events of the processing stream.
+// A failed upload is retried with exponential backoff. Once events have arrived the job is only
+// reconnected when the server tags them with `id:`, sending Last-Event-ID so it can continue
+// where it left off instead of starting over.
+export async function* streamJob(
+  api: ApiConnection,
+  file: File,
+  mapping: ColumnMapping,
+  options: StreamJobOptions = {}
+): AsyncGenerator<GeocoderEvent> {
+  const policy = options.retry ?? DEFAULT_RETRY_POLICY;
+  const heartbeatTimeout = options.heartbeatTimeout ?? HEARTBEAT_TIMEOUT;
+  let lastEventId = '';
+  let serverRetry: number | undefined;
+  let attempt = 0;
+
+  while (true) {
+    let received = false;
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      appendMapping(formData, mapping);
+
+      const response = await apiFetch(api, `${api.baseUrl}${STREAM_ENDPOINT}`, {
+        method: 'POST',
+        body: formData,
+        headers: lastEventId ? { ...api.headers, 'Last-Event-ID': lastEventId } : api.headers,
+        signal: options.signal,
+      });
+
+      if (!response.ok) throw new HttpError(response.status, response.statusText);
+      if (!response.body) throw new LocalizedError({ key: 'error.noBody' });
+
+      for await (const message of readSSEStream(response.body, { idleTimeout: heartbeatTimeout })) {
+        received = true;
+        attempt = 0;
+        if (message.retry !== undefined) serverRetry = message.retry;
+        lastEventId = message.lastEventId;
+
+        let event: GeocoderEvent;
+        try {
+          event = parseEvent(message.data);
+        } catch (err) {
+          if (!(err instanceof ProtocolError)) throw err;
+          options.onProtocolError?.(err);
+          continue;
+        }
+        yield event;
+        if (event.type === 'complete' || event.type === 'error') return;
+      }
+
+      // Without event ids a truncated stream cannot be continued; the caller decides what to do
+      if (!lastEventId) return;
+      throw new StreamClosedError();
+    } catch (err) {
+      if (options.signal?.aborted || !isRetryable(err)) throw err;
+      if (received && !lastEventId) throw err;
+      const reason: Message | string = err instanceof TypeError ? { key: 'error.network' } : errorMessage(err);
+      if (attempt >= policy.attempts) {
+        throw new LocalizedError({ key: 'error.retriesExhausted', params: { count: policy.attempts, reason } });
+      }
+
+      attempt++;
+      const delay = serverRetry ?? Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1));
+      options.onReconnect?.({
+        attempt,
+        maxAttempts: policy.attempts,
+        delay,
+        reason,
+        lastEventId: lastEventId || null
+      });
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+// Log line for a reconnection attempt
+export const describeReconnect = (info: ReconnectInfo): Message => {
+  const params = {
+    reason: info.reason,
+    attempt: info.attempt,
+    max: info.maxAttempts,
+    seconds: Math.round(info.delay / 1000)
+  };
+  return info.lastEventId
+    ? { key: 'log.reconnectFrom', params: { ...params, id: info.lastEventId } }
+    : { key: 'log.reconnect', params };
+};
@@ -0,0 +1,30 @@
+// Chunked base64 decoding, so a large payload never becomes one huge intermediate string or array
+
+// Multiple of 4 so every chunk decodes on its own
+export const BASE64_CHUNK = 1024 * 1024;
+
+export interface DecodedChunk {
+  bytes: Uint8Array<ArrayBuffer>;
+  /** Base64 characters consumed so far */
+  loaded: number;
+  total: number;
+}
+
+export function* decodeBase64Chunks(base64: string): Generator<DecodedChunk> {
+  const clean = /\s/.test(base64) ? base64.replace(/\s+/g, '') : base64;
+  for (let start = 0; start < clean.length; start += BASE64_CHUNK) {
+    const binary = atob(clean.slice(start, start + BASE64_CHUNK));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    yield { bytes, loaded: Math.min(start + BASE64_CHUNK, clean.length), total: clean.length };
+  }
+}
+
+// Counterpart for the demo backend, which sends its result workbook inline like older servers
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let start = 0; start < bytes.length; start += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(start, start + 0x8000));
+  }
+  return btoa(binary);
+};
@@ -0,0 +1,200 @@
+import { zipSync, strToU8 } from 'fflate';
+import type { ApiConnection, ReconnectInfo } from './api';
+import { readWorkbookPreview, guessWorkbookMapping, sliceWorkbook, type ColumnMapping, type ProcessedRow } from './workbook';
+import { getInputFormat, DEFAULT_TEXT_OPTIONS } from './formats';
+import { streamJobBatched } from './pipeline';
+import type { PendingLogEntry } from './aggregate';
+import { resolveResultFile } from './result';
+import { LocalizedError } from './errors';
+import { createTranslator, type Locale } from './i18n';
+import type { LogEntry, ProcessingResult } from './types';
+
+// Several files processed unattended: each one is auto-mapped and streamed like a single job,
+// and the results are bundled into one ZIP at the end.
+
+export type BatchStatus = 'pending' | 'processing' | 'done' | 'error' | 'cancelled';
+
+export interface BatchItem {
+  id: string;
+  file: File;
+  status: BatchStatus;
+  processed: number;
+  total: number;
+  result: ProcessingResult | null;
+  output: Blob | null;
+  outputName: string;
+  error?: string;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface BatchRun {
+  mapping: ColumnMapping;
+  rows: ProcessedRow[];
+  log: LogEntry[];
+  result: ProcessingResult;
+  output: Blob | null;
+  outputName: string;
+}
+
+export const MAX_CONCURRENCY = 4;
+
+export const SUMMARY_NAME = 'resumen.json';
+
+export const defaultOutputName = (file: File) => file.name.replace(/\.[^.]+$/, '') + '_con_cp.xlsx';
+
+export const createBatchItem = (file: File): BatchItem => ({
+  id: crypto.randomUUID(),
+  file,
+  status: 'pending',
+  processed: 0,
+  total: 0,
+  result: null,
+  output: null,
+  outputName: defaultOutputName(file)
+});
+
+// Runs one queued file to completion. There is no column picker in the queue, so the
+// mapping guessed from the first rows is used as is. Reconnections also end up in the log of
+// the run; `onReconnect` hears about them while the run is still waiting.
+export const processBatchFile = async (
+  api: ApiConnection,
+  file: File,
+  locale: Locale,
+  onProgress: (processed: number, total: number) => void,
+  signal?: AbortSignal,
+  onReconnect?: (info: ReconnectInfo) => void
+): Promise<BatchRun> => {
+  const preview = await readWorkbookPreview(file, DEFAULT_TEXT_OPTIONS);
+  const mapping = guessWorkbookMapping(preview.sheets);
+  if (!mapping) throw new LocalizedError({ key: 'error.noAddressColumn' });
+
+  const upload = getInputFormat(file.name) === 'excel'
+    ? file
+    : await sliceWorkbook(file, 0, mapping.sheet, DEFAULT_TEXT_OPTIONS);
+
+  const rows: ProcessedRow[] = [];
+  const log: LogEntry[] = [];
+  const addLog = (entry: PendingLogEntry) => {
+    log.push({ ...entry, id: log.length + 1 });
+  };
+
+  const { t } = createTranslator(locale);
+  addLog({ type: 'info', message: t('log.queued', { file: file.name, sheet: mapping.sheet }), timestamp: new Date() });
+
+  for await (const update of streamJobBatched({ api, file: upload, mapping, locale }, signal)) {
+    if (update.type === 'batch') {
+      for (const row of update.batch.rows) rows.push(row);
+      update.batch.log.forEach(addLog);
+      if (update.batch.total > 0) onProgress(update.batch.processed, update.batch.total);
+      continue;
+    }
+    if (update.type === 'reconnect') {
+      onReconnect?.(update.info);
+      continue;
+    }
+
+    const event = update.event;
+    switch (event.type) {
+      case 'start':
+        onProgress(0, event.total);
+        break;
+
+      case 'error':
+        throw new Error(event.message);
+
+      case 'complete': {
+        const dudosos = rows.filter(row => row.status === 'suspect').length;
+        return {
+          mapping,
+          rows,
+          log,
+          result: {
+            total: event.stats.procesadas,
+            encontrados: event.stats.encontradas - dudosos,
+            dudosos,
+            noEncontrados: event.stats.no_encontradas,
+            errores: event.stats.errores
+          },
+          output: await resolveResultFile(api, event, { signal }),
+          outputName: event.filename || defaultOutputName(file)
+        };
+      }
+    }
+  }
+
+  throw new LocalizedError({ key: 'process.closed' });
+};
+
+// Calls `worker` for every task with at most `concurrency` of them in flight
+export const runWithConcurrency = async <T>(tasks: T[], concurrency: number, worker: (task: T) => Promise<void>) => {
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, tasks.length) }, async () => {
+    while (next < tasks.length) {
+      await worker(tasks[next++]);
+    }
+  });
+  await Promise.all(lanes);
+};
+
+export const combineResults = (items: BatchItem[]): ProcessingResult =>
+  items.reduce<ProcessingResult>(
+    (sum, item) => item.result
+      ? {
+          total: sum.total + item.result.total,
+          encontrados: sum.encontrados + item.result.encontrados,
+          dudosos: sum.dudosos + item.result.dudosos,
+          noEncontrados: sum.noEncontrados + item.result.noEncontrados,
+          errores: sum.errores + item.result.errores
+        }
+      : sum,
+    { total: 0, encontrados: 0, dudosos: 0, noEncontrados: 0, errores: 0 }
+  );
+
+// Appends (2), (3)... when two inputs produce the same result name
+const uniqueName = (name: string, used: Set<string>) => {
+  let candidate = name;
+  for (let i = 2; used.has(candidate); i++) {
+    candidate = name.replace(/(\.[^.]+)?$/, ext => ` (${i})${ext}`);
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+// Result file names of the finished items, null for those without a workbook
+export const assignOutputNames = (items: BatchItem[], reserved: string[] = []) => {
+  const used = new Set(reserved);
+  return items.map(item => (item.output ? uniqueName(item.outputName, used) : null));
+};
+
+// Per-file and combined counts, as written next to the result workbooks
+export const buildBatchSummary = (items: BatchItem[], outputNames: (string | null)[]) => ({
+  generado: new Date().toISOString(),
+  total: combineResults(items),
+  archivos: items.map((item, i) => ({
+    archivo: item.file.name,
+    resultado: outputNames[i],
+    estado: item.status,
+    error: item.error ?? null,
+    ...item.result
+  }))
+});
+
+export type BatchSummary = ReturnType<typeof buildBatchSummary>;
+
+// One workbook per finished file plus a resumen.json with the per-file and combined counts
+export const buildBatchZip = async (items: BatchItem[]): Promise<Blob> => {
+  const names = assignOutputNames(items, [SUMMARY_NAME]);
+  const entries: Record<string, Uint8Array> = {};
+
+  for (const [i, item] of items.entries()) {
+    const name = names[i];
+    if (item.output && name) {
+      entries[name] = new Uint8Array(await item.output.arrayBuffer());
+    }
+  }
+
+  entries[SUMMARY_NAME] = strToU8(JSON.stringify(buildBatchSummary(items, names), null, 2));
+  // Workbooks are already deflated, so storing them avoids recompressing for nothing
+  return new Blob([zipSync(entries, { level: 0 })], { type: 'application/zip' });
+};
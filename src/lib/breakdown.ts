@@ -0,0 +1,72 @@
+import { PROVINCES, provinceCode } from './provinces';
+import { foldText } from './text';
+import type { ProcessedRow } from './workbook';
+
+export interface ProvinceCount {
+  code: string;
+  name: string;
+  count: number;
+}
+
+export interface MunicipalityStats {
+  /** Empty for rows without a municipality */
+  name: string;
+  total: number;
+  found: number;
+  notFound: number;
+  errors: number;
+  /** Share of rows with a CP, 0-1 */
+  rate: number;
+}
+
+export interface Breakdown {
+  provinces: ProvinceCount[];
+  municipalities: MunicipalityStats[];
+  unresolved: MunicipalityStats[];
+  unknownPrefix: number;
+}
+
+const UNRESOLVED_LIMIT = 10;
+
+// Municipality names are grouped case- and accent-insensitively, keeping the first spelling seen
+const groupKey = (name: string) => foldText(name.trim());
+
+export const buildBreakdown = (rows: ProcessedRow[]): Breakdown => {
+  const provinces = new Map<string, number>();
+  const municipalities = new Map<string, MunicipalityStats>();
+  let unknownPrefix = 0;
+
+  for (const row of rows) {
+    const hasCp = row.status === 'found' || row.status === 'suspect';
+    if (hasCp) {
+      const code = provinceCode(row.cp);
+      if (code) provinces.set(code, (provinces.get(code) ?? 0) + 1);
+      else unknownPrefix++;
+    }
+
+    const name = row.municipio?.trim() ?? '';
+    const key = groupKey(name);
+    const stats = municipalities.get(key) ?? { name, total: 0, found: 0, notFound: 0, errors: 0, rate: 0 };
+    stats.total++;
+    if (hasCp) stats.found++;
+    else if (row.status === 'not_found') stats.notFound++;
+    else stats.errors++;
+    municipalities.set(key, stats);
+  }
+
+  const allMunicipalities = [...municipalities.values()]
+    .map(stats => ({ ...stats, rate: stats.total > 0 ? stats.found / stats.total : 0 }))
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    provinces: [...provinces.entries()]
+      .map(([code, count]) => ({ code, name: PROVINCES[code], count }))
+      .sort((a, b) => b.count - a.count),
+    municipalities: allMunicipalities,
+    unresolved: allMunicipalities
+      .filter(m => m.notFound + m.errors > 0)
+      .sort((a, b) => (b.notFound + b.errors) - (a.notFound + a.errors))
+      .slice(0, UNRESOLVED_LIMIT),
+    unknownPrefix
+  };
+};
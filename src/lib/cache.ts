@@ -0,0 +1,94 @@
+import { openDatabase, promisify, transactionDone, LOOKUP_CACHE_STORE } from './db';
+import type { PairOutcome } from './dedupe';
+
+// Pairs geocoded in earlier runs, kept per API deployment so updated versions of the same
+// workbook only send the addresses not seen before. Row errors are never cached.
+
+export interface CacheSettings {
+  enabled: boolean;
+  maxAgeDays: number;
+}
+
+interface CacheEntry {
+  key: string;
+  status: 'found' | 'not_found';
+  cp?: string;
+  resolvedAt: number;
+}
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: true, maxAgeDays: 30 };
+
+export const CACHE_MAX_AGES = [1, 7, 30, 90];
+
+const SETTINGS_KEY = 'geocoder.cacheSettings';
+const DAY = 24 * 60 * 60 * 1000;
+
+const entryKey = (apiUrl: string, pair: string) => `${apiUrl} ${pair}`;
+
+const isFresh = (entry: CacheEntry, maxAgeDays: number) => Date.now() - entry.resolvedAt < maxAgeDays * DAY;
+
+export const getCachedPairs = async (apiUrl: string, pairs: string[], maxAgeDays: number) => {
+  const db = await openDatabase();
+  const store = db.transaction(LOOKUP_CACHE_STORE).objectStore(LOOKUP_CACHE_STORE);
+  const entries = await Promise.all(
+    pairs.map(pair => promisify(store.get(entryKey(apiUrl, pair)) as IDBRequest<CacheEntry | undefined>))
+  );
+
+  const hits = new Map<string, PairOutcome>();
+  entries.forEach((entry, i) => {
+    if (entry && isFresh(entry, maxAgeDays)) hits.set(pairs[i], { status: entry.status, cp: entry.cp, cached: true });
+  });
+  return hits;
+};
+
+export const cachePairs = async (apiUrl: string, outcomes: [string, PairOutcome][]) => {
+  const resolvedAt = Date.now();
+  const db = await openDatabase();
+  const tx = db.transaction(LOOKUP_CACHE_STORE, 'readwrite');
+  const store = tx.objectStore(LOOKUP_CACHE_STORE);
+  for (const [pair, { status, cp }] of outcomes) {
+    if (status === 'error') continue;
+    const entry: CacheEntry = { key: entryKey(apiUrl, pair), status, cp, resolvedAt };
+    store.put(entry);
+  }
+  await transactionDone(tx);
+};
+
+// Drops the entries older than the expiry so the cache does not grow forever
+export const pruneCache = async (maxAgeDays: number) => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOOKUP_CACHE_STORE, 'readwrite');
+  const request = tx.objectStore(LOOKUP_CACHE_STORE).index('resolvedAt')
+    .openCursor(IDBKeyRange.upperBound(Date.now() - maxAgeDays * DAY));
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.delete();
+    cursor.continue();
+  };
+  await transactionDone(tx);
+};
+
+export const countCache = async () => {
+  const db = await openDatabase();
+  return promisify(db.transaction(LOOKUP_CACHE_STORE).objectStore(LOOKUP_CACHE_STORE).count());
+};
+
+export const clearCache = async () => {
+  const db = await openDatabase();
+  const tx = db.transaction(LOOKUP_CACHE_STORE, 'readwrite');
+  tx.objectStore(LOOKUP_CACHE_STORE).clear();
+  await transactionDone(tx);
+};
+
+export const loadCacheSettings = (): CacheSettings => {
+  try {
+    return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = (settings: CacheSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,60 @@
+import { streamJob, type ApiConnection, type ReconnectInfo, type RetryPolicy } from './api';
+import { runDiagnostics } from './diagnostics';
+import { lookupAddress, type LookupQuery } from './lookup';
+import { resolveResultFile, type ResultFileOptions } from './result';
+import { readWorkbookPreview, guessWorkbookMapping, type ColumnMapping } from './workbook';
+import { DEFAULT_TEXT_OPTIONS } from './formats';
+import { LocalizedError } from './errors';
+import type { CompleteEvent, GeocoderEvent, ProtocolError } from './events';
+
+// Everything the app does over the network for one API deployment, with no UI state attached,
+// so other tools (or tests against a local mock server) can drive the API the same way.
+
+export interface GeocoderClientOptions {
+  retry?: RetryPolicy;
+  heartbeatTimeout?: number;
+}
+
+export interface ProcessWorkbookOptions {
+  /** Sheet and columns to read; guessed from the first rows when omitted */
+  mapping?: ColumnMapping;
+  /** Called with every event before it is yielded */
+  onEvent?: (event: GeocoderEvent) => void;
+  onProtocolError?: (error: ProtocolError) => void;
+  onReconnect?: (info: ReconnectInfo) => void;
+  signal?: AbortSignal;
+}
+
+export const createGeocoderClient = (connection: ApiConnection, options: GeocoderClientOptions = {}) => {
+  const resolveMapping = async (file: File) => {
+    const preview = await readWorkbookPreview(file, DEFAULT_TEXT_OPTIONS);
+    const mapping = guessWorkbookMapping(preview.sheets);
+    if (!mapping) throw new LocalizedError({ key: 'error.noAddressColumn' });
+    return mapping;
+  };
+
+  // Uploads the workbook and yields its typed events until the job completes or fails
+  async function* processWorkbook(file: File, { mapping, onEvent, onProtocolError, onReconnect, signal }: ProcessWorkbookOptions = {}) {
+    const events = streamJob(connection, file, mapping ?? await resolveMapping(file), {
+      ...options,
+      signal,
+      onProtocolError,
+      onReconnect
+    });
+    for await (const event of events) {
+      onEvent?.(event);
+      yield event;
+    }
+  }
+
+  return {
+    connection,
+    checkHealth: () => runDiagnostics(connection),
+    processWorkbook,
+    lookupAddress: (query: LookupQuery, signal?: AbortSignal) => lookupAddress(connection, query, signal),
+    /** Result workbook of a completed job, inline or downloaded */
+    fetchResult: (event: CompleteEvent, resultOptions?: ResultFileOptions) => resolveResultFile(connection, event, resultOptions)
+  };
+};
+
+export type GeocoderClient = ReturnType<typeof createGeocoderClient>;
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { compareRuns, readRunFile, buildComparison, type RunSnapshot } from './compare';
+import { buildReport, buildReportRows, type ReportFormat, type ReportScope } from './report';
+import { createTranslator } from './i18n';
+import type { ProcessedRow } from './workbook';
+
+const { translate } = createTranslator('es');
+
+const ROWS: ProcessedRow[] = [
+  { row: 2, status: 'found', cp: '28013', direccion: 'Gran Vía 1', municipio: 'Madrid' },
+  { row: 3, status: 'not_found', direccion: 'Calle Larios', municipio: 'Málaga' },
+  { row: 4, status: 'found', cp: '41001', direccion: 'Plaza Nueva 1', municipio: 'Sevilla' },
+  { row: 5, status: 'error', error: 'Fila vacia', direccion: '', municipio: '' }
+];
+
+const snapshot = (rows: ProcessedRow[], partial = false): RunSnapshot => ({ name: 'direcciones.xlsx', source: 'history', rows, partial });
+
+// Report of ROWS as the app exports it
+const reportFile = (rows: ProcessedRow[], scope: ReportScope, format: ReportFormat) => {
+  const meta = {
+    fileName: 'direcciones.xlsx',
+    apiUrl: 'http://api.test',
+    startedAt: 0,
+    finishedAt: 1000,
+    result: null,
+    mapping: null
+  };
+  const blob = buildReport(meta, buildReportRows(rows, [], scope, translate), scope, format);
+  return new File([blob], `direcciones_informe_${scope}.${format}`);
+};
+
+describe('compareRuns', () => {
+  it('matches rows by their sheet row, whatever their order', () => {
+    const after: ProcessedRow[] = [
+      { ...ROWS[2], cp: '41004' },
+      { ...ROWS[1], status: 'found', cp: '29005' },
+      { ...ROWS[0], status: 'not_found', cp: undefined },
+      ROWS[3]
+    ];
+    const comparison = compareRuns(snapshot(ROWS), snapshot(after));
+
+    expect(comparison.changes.map(({ row, kind }) => ({ row, kind }))).toEqual([
+      { row: 2, kind: 'now_missing' },
+      { row: 3, kind: 'now_found' },
+      { row: 4, kind: 'cp_changed' }
+    ]);
+    expect(comparison.changes[2].before?.cp).toBe('41001');
+    expect(comparison.changes[2].after?.cp).toBe('41004');
+    expect(comparison.partial).toBe(false);
+  });
+
+  it('counts suspect rows as found and ignores whitespace around the CP', () => {
+    const after: ProcessedRow[] = [{ ...ROWS[0], status: 'suspect', cp: ' 28013 ' }];
+    expect(compareRuns(snapshot([ROWS[0]]), snapshot(after)).changes).toEqual([]);
+  });
+
+  it('lists rows that only one of two complete runs has', () => {
+    const comparison = compareRuns(snapshot(ROWS.slice(0, 3)), snapshot(ROWS.slice(1)));
+
+    expect(comparison.changes.map(({ row, kind }) => ({ row, kind }))).toEqual([
+      { row: 2, kind: 'only_before' },
+      { row: 5, kind: 'only_after' }
+    ]);
+    expect(comparison.counts).toEqual({ cp_changed: 0, now_found: 0, now_missing: 0, only_before: 1, only_after: 1 });
+  });
+
+  it('only compares the rows a filtered report kept', () => {
+    const report = snapshot([{ ...ROWS[1], status: 'found', cp: '29005' }], true);
+
+    const forward = compareRuns(snapshot(ROWS), report);
+    expect(forward.changes.map(change => change.kind)).toEqual(['now_found']);
+    expect(forward.partial).toBe(true);
+
+    const backward = compareRuns(report, snapshot(ROWS));
+    expect(backward.changes.map(change => change.kind)).toEqual(['now_missing']);
+    expect(backward.partial).toBe(true);
+  });
+
+  it('summarizes each run on its own', () => {
+    const comparison = compareRuns(snapshot(ROWS), snapshot(ROWS.slice(0, 2), true));
+
+    expect(comparison.before).toEqual({ total: 4, encontrados: 2, dudosos: 0, noEncontrados: 1, errores: 1 });
+    expect(comparison.after).toEqual({ total: 2, encontrados: 1, dudosos: 0, noEncontrados: 1, errores: 0 });
+  });
+});
+
+describe('readRunFile', () => {
+  it.each<ReportFormat>(['json', 'csv'])('reads back a %s report of every row as a complete run', async format => {
+    const run = await readRunFile(reportFile(ROWS, 'all', format));
+
+    expect(run.partial).toBe(false);
+    expect(run.source).toBe('report');
+    expect(run.rows.map(({ row, status, cp }) => ({ row, status, cp }))).toEqual(
+      ROWS.map(({ row, status, cp }) => ({ row, status, cp }))
+    );
+  });
+
+  it.each<ReportFormat>(['json', 'csv'])('marks a filtered %s report as partial', async format => {
+    const run = await readRunFile(reportFile(ROWS, 'not_found', format));
+
+    expect(run.partial).toBe(true);
+    expect(run.rows.map(row => row.row)).toEqual([3]);
+  });
+});
+
+describe('buildComparison', () => {
+  const lines = async (blob: Blob) => (await blob.text()).replace(/^\uFEFF/, '').split('\r\n');
+
+  it('writes the stats differences of two complete runs', async () => {
+    const before = snapshot(ROWS);
+    const after = snapshot([{ ...ROWS[1], status: 'found', cp: '29005' }, ...ROWS.filter(row => row.row !== 3)]);
+
+    expect(await lines(buildComparison(before, after, compareRuns(before, after), 'csv'))).toContain('Encontrados;2;3;1');
+  });
+
+  it('leaves the differences out and warns when comparing with a filtered report', async () => {
+    const before = snapshot(ROWS);
+    const after = snapshot([{ ...ROWS[1], status: 'found', cp: '29005' }], true);
+    const output = await lines(buildComparison(before, after, compareRuns(before, after), 'csv'));
+
+    expect(output).toContain('Encontrados;2;1;');
+    expect(output.some(line => line.startsWith('Aviso;'))).toBe(true);
+    expect(output.filter(line => /^\d/.test(line))).toEqual(['3;Ahora encontrada;Calle Larios;Málaga;no encontrado;;encontrado;29005']);
+  });
+});
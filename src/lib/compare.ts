@@ -0,0 +1,257 @@
+import { toCsv } from './formats';
+import { classifyFound } from './plausibility';
+import { FIRST_DATA_ROW } from './events';
+import { LocalizedError } from './errors';
+import { STATUS_NAMES, REPORT_SCOPES, type ReportRow } from './report';
+import {
+  readSheetRows,
+  guessMapping,
+  isCpHeader,
+  buildWorkbook,
+  PREVIEW_ROWS,
+  type Cell,
+  type ProcessedRow
+} from './workbook';
+import type { StoredJob } from './history';
+import type { ProcessingResult } from './types';
+
+// Two runs of the same workbook matched by sheet row, to see what a backend update or a cleanup
+// of the source data changed. Runs come from the history, from result workbooks or from the
+// worklist reports exported by the app.
+
+export type RunSource = 'current' | 'history' | 'workbook' | 'report';
+
+export interface RunSnapshot {
+  name: string;
+  source: RunSource;
+  rows: ProcessedRow[];
+  /** A report filtered to some statuses; rows missing from it were not necessarily missing from the run */
+  partial: boolean;
+}
+
+export type ChangeKind = 'cp_changed' | 'now_found' | 'now_missing' | 'only_before' | 'only_after';
+
+export type ComparisonFormat = 'xlsx' | 'csv';
+
+export const CHANGE_NAMES: Record<ChangeKind, string> = {
+  cp_changed: 'CP distinto',
+  now_found: 'Ahora encontrada',
+  now_missing: 'Ya no encontrada',
+  only_before: 'Solo en la primera',
+  only_after: 'Solo en la segunda'
+};
+
+export const COMPARISON_FORMATS: Record<ComparisonFormat, string> = {
+  xlsx: 'Excel',
+  csv: 'CSV'
+};
+
+export const COMPARED_STATS: Record<Exclude<keyof ProcessingResult, 'desdeCache'>, string> = {
+  total: 'Total',
+  encontrados: 'Encontrados',
+  dudosos: 'Dudosos',
+  noEncontrados: 'No encontrados',
+  errores: 'Errores'
+};
+
+export interface RowChange {
+  row: number;
+  kind: ChangeKind;
+  before?: ProcessedRow;
+  after?: ProcessedRow;
+}
+
+export interface RunComparison {
+  changes: RowChange[];
+  counts: Record<ChangeKind, number>;
+  before: ProcessingResult;
+  after: ProcessingResult;
+  /** One side is a filtered report, so its stats only cover the rows it kept */
+  partial: boolean;
+}
+
+// Suspect rows still have a CP, so they count as found here
+const hasCp = (row: ProcessedRow) => row.status === 'found' || row.status === 'suspect';
+
+const normalizeCp = (cp?: string) => (cp ?? '').trim();
+
+export const summarizeRows = (rows: ProcessedRow[]): ProcessingResult => ({
+  total: rows.length,
+  encontrados: rows.filter(row => row.status === 'found').length,
+  dudosos: rows.filter(row => row.status === 'suspect').length,
+  noEncontrados: rows.filter(row => row.status === 'not_found').length,
+  errores: rows.filter(row => row.status === 'error').length
+});
+
+const classifyChange = (before?: ProcessedRow, after?: ProcessedRow): ChangeKind | null => {
+  if (!after) return 'only_before';
+  if (!before) return 'only_after';
+  if (hasCp(before) && hasCp(after)) return normalizeCp(before.cp) !== normalizeCp(after.cp) ? 'cp_changed' : null;
+  if (hasCp(after)) return 'now_found';
+  if (hasCp(before)) return 'now_missing';
+  return null;
+};
+
+export const compareRuns = (before: RunSnapshot, after: RunSnapshot): RunComparison => {
+  const beforeRows = new Map(before.rows.map(row => [row.row, row]));
+  const afterRows = new Map(after.rows.map(row => [row.row, row]));
+  const rowNumbers = [...new Set([...beforeRows.keys(), ...afterRows.keys()])].sort((a, b) => a - b);
+
+  const counts: Record<ChangeKind, number> = { cp_changed: 0, now_found: 0, now_missing: 0, only_before: 0, only_after: 0 };
+  const changes = rowNumbers.flatMap(row => {
+    const change = { row, before: beforeRows.get(row), after: afterRows.get(row) };
+    const kind = classifyChange(change.before, change.after);
+    // A row missing from a filtered report was most likely left out by its filter, not by the run
+    if (!kind || (kind === 'only_before' && after.partial) || (kind === 'only_after' && before.partial)) return [];
+    counts[kind]++;
+    return [{ ...change, kind }];
+  });
+
+  return {
+    changes,
+    counts,
+    before: summarizeRows(before.rows),
+    after: summarizeRows(after.rows),
+    partial: before.partial || after.partial
+  };
+};
+
+export const snapshotFromJob = (job: Pick<StoredJob, 'fileName' | 'rows'>, source: RunSource = 'history'): RunSnapshot => ({
+  name: job.fileName,
+  source,
+  rows: job.rows,
+  partial: false
+});
+
+const text = (value: Cell | undefined) => String(value ?? '').trim();
+
+const statusFromName = (name: string, row: number): ProcessedRow['status'] => {
+  const status = (Object.keys(STATUS_NAMES) as ProcessedRow['status'][])
+    .find(key => STATUS_NAMES[key] === name || key === name);
+  if (!status) throw new LocalizedError({ key: 'compare.error.status', params: { row, status: name } });
+  return status;
+};
+
+// CSV reports carry the status names, JSON reports the status itself
+type ReportFields = Pick<ReportRow, 'fila' | 'direccion' | 'municipio' | 'cp' | 'error' | 'aviso'> & { estado: string };
+
+const fromReportRow = (row: ReportFields): ProcessedRow => ({
+  row: row.fila,
+  status: statusFromName(row.estado, row.fila),
+  direccion: row.direccion,
+  municipio: row.municipio,
+  ...(row.cp && { cp: row.cp }),
+  ...(row.error && { error: row.error }),
+  ...(row.aviso && { warning: row.aviso })
+});
+
+const readJsonReport = (name: string, json: string): RunSnapshot => {
+  let report: { filtro?: string; filas?: ReportRow[] };
+  try {
+    report = JSON.parse(json);
+  } catch {
+    throw new LocalizedError({ key: 'compare.error.json' });
+  }
+  if (!Array.isArray(report.filas)) throw new LocalizedError({ key: 'compare.error.notReport' });
+  return { name, source: 'report', rows: report.filas.map(fromReportRow), partial: report.filtro !== 'all' };
+};
+
+// Metadata block, a blank line and the worklist, as written by buildReport
+const readCsvReport = (name: string, table: Cell[][], headerIndex: number): RunSnapshot => {
+  const header = table[headerIndex].map(text);
+  const column = (label: string) => header.indexOf(label);
+  const [fila, estado, direccion, municipio, cp, error, aviso] =
+    ['Fila', 'Estado', 'Direccion', 'Municipio', 'CP', 'Error', 'Aviso'].map(column);
+  const filter = table.slice(0, headerIndex).find(row => text(row[0]) === 'Filtro');
+
+  const rows = table.slice(headerIndex + 1)
+    .filter(cells => text(cells[fila]) !== '')
+    .map(cells => fromReportRow({
+      fila: Number(cells[fila]),
+      estado: text(cells[estado]),
+      direccion: text(cells[direccion]),
+      municipio: text(cells[municipio]),
+      cp: text(cells[cp]),
+      error: text(cells[error]),
+      aviso: text(cells[aviso])
+    }));
+  return { name, source: 'report', rows, partial: !!filter && text(filter[1]) !== REPORT_SCOPES.all };
+};
+
+// Result workbooks only keep the CP, so a row without one may have been an error as well
+const readResultWorkbook = (name: string, header: Cell[], data: Cell[][]): RunSnapshot => {
+  const cpColumn = header.findIndex(isCpHeader);
+  if (cpColumn < 0) throw new LocalizedError({ key: 'compare.error.noCp' });
+
+  const names = header.map(text);
+  const mapping = guessMapping({ name, header: names, rows: data.slice(0, PREVIEW_ROWS), rowCount: data.length });
+  const direccionColumn = mapping ? names.indexOf(mapping.direccion) : -1;
+  const municipioColumn = mapping?.municipio ? names.indexOf(mapping.municipio) : -1;
+
+  const rows = data.flatMap((cells, index): ProcessedRow[] => {
+    if (cells.every(cell => text(cell) === '')) return [];
+    const base = { row: index + FIRST_DATA_ROW, direccion: text(cells[direccionColumn]), municipio: text(cells[municipioColumn]) };
+    const cp = text(cells[cpColumn]);
+    if (!cp) return [{ ...base, status: 'not_found' }];
+    const { status, warning } = classifyFound(cp, base.municipio);
+    return [{ ...base, status, cp, warning }];
+  });
+  return { name, source: 'workbook', rows, partial: false };
+};
+
+// Result workbooks (.xlsx, .csv...) and reports (.csv, .json) are told apart by their content
+export const readRunFile = async (file: File): Promise<RunSnapshot> => {
+  if (/\.json$/i.test(file.name)) return readJsonReport(file.name, await file.text());
+
+  const { header, rows } = await readSheetRows(file);
+  const table = [header, ...rows];
+  const reportHeader = table.findIndex(row => text(row[0]) === 'Fila' && text(row[1]) === 'Estado');
+  return reportHeader >= 0
+    ? readCsvReport(file.name, table, reportHeader)
+    : readResultWorkbook(file.name, header, rows);
+};
+
+const describe = (row?: ProcessedRow) => [row ? STATUS_NAMES[row.status] : '', row?.cp ?? ''];
+
+// Names and stats of both runs, a blank line and then one line per changed row. The differences
+// are left out when a filtered report is involved, as its stats do not cover the whole run.
+export const buildComparison = (
+  before: RunSnapshot,
+  after: RunSnapshot,
+  comparison: RunComparison,
+  format: ComparisonFormat
+): Blob => {
+  const stats = (Object.keys(COMPARED_STATS) as (keyof typeof COMPARED_STATS)[]).map(key => [
+    COMPARED_STATS[key],
+    comparison.before[key],
+    comparison.after[key],
+    comparison.partial ? '' : comparison.after[key] - comparison.before[key]
+  ]);
+
+  const rows: Cell[][] = [
+    ['Primera ejecucion', before.name],
+    ['Segunda ejecucion', after.name],
+    ...(comparison.partial ? [['Aviso', 'Informe filtrado: solo se comparan las filas que incluye']] : []),
+    [],
+    ['', 'Primera', 'Segunda', 'Diferencia'],
+    ...stats,
+    [],
+    ['Fila', 'Cambio', 'Direccion', 'Municipio', 'Estado antes', 'CP antes', 'Estado despues', 'CP despues'],
+    ...comparison.changes.map(change => {
+      const source = change.after ?? change.before;
+      return [
+        change.row,
+        CHANGE_NAMES[change.kind],
+        source?.direccion ?? '',
+        source?.municipio ?? '',
+        ...describe(change.before),
+        ...describe(change.after)
+      ];
+    })
+  ];
+
+  return format === 'csv' ? toCsv(rows) : buildWorkbook('Comparacion', rows);
+};
+
+export const comparisonFilename = (before: RunSnapshot, format: ComparisonFormat) =>
+  `${before.name.replace(/\.[^.]+$/, '')}_comparacion.${format}`;
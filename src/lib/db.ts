@@ -0,0 +1,49 @@
+// The app's IndexedDB database: the job history stores and the lookup cache.
+
+export const JOB_STORE = 'jobs';
+export const JOB_DATA_STORE = 'jobData';
+export const LOOKUP_CACHE_STORE = 'lookupCache';
+
+const DB_NAME = 'geocoder';
+const DB_VERSION = 2;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(JOB_STORE)) {
+          db.createObjectStore(JOB_STORE, { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+        if (!db.objectStoreNames.contains(JOB_DATA_STORE)) {
+          db.createObjectStore(JOB_DATA_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(LOOKUP_CACHE_STORE)) {
+          db.createObjectStore(LOOKUP_CACHE_STORE, { keyPath: 'key' }).createIndex('resolvedAt', 'resolvedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,28 @@
+import { decodeBase64Chunks } from './base64';
+
+// Decodes the base64 result workbook away from the UI thread and posts back a Blob
+
+export interface DecodeRequest {
+  base64: string;
+  type: string;
+}
+
+export type DecodeMessage =
+  | { type: 'progress'; loaded: number; total: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+const post = (message: DecodeMessage) => self.postMessage(message);
+
+self.addEventListener('message', (e: MessageEvent<DecodeRequest>) => {
+  try {
+    const parts: Uint8Array<ArrayBuffer>[] = [];
+    for (const chunk of decodeBase64Chunks(e.data.base64)) {
+      parts.push(chunk.bytes);
+      post({ type: 'progress', loaded: chunk.loaded, total: chunk.total });
+    }
+    post({ type: 'done', blob: new Blob(parts, { type: e.data.type }) });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+});
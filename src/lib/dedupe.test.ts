@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { pairKey, planDedupe, pendingRows, countPairRows, expandOutcomes, type PairOutcome } from './dedupe';
+import type { ColumnMapping, SheetRows } from './workbook';
+
+const MAPPING: ColumnMapping = { sheet: 'Hoja1', direccion: 'Direccion', municipio: 'Municipio' };
+const WITH_PROVINCIA: ColumnMapping = { ...MAPPING, provincia: 'Provincia' };
+
+const sheet = (...rows: SheetRows['rows']): SheetRows => ({ header: ['Direccion', 'Municipio', 'Provincia'], rows });
+
+describe('pairKey', () => {
+  it('ignores case, accents and punctuation', () => {
+    expect(pairKey('C/ Mayor, 5', 'MÁLAGA')).toBe(pairKey('c/ mayor 5', 'Malaga'));
+  });
+
+  it('only adds the provincia when it is given', () => {
+    expect(pairKey('Calle Real 1', 'Arroyomolinos')).toBe('calle real 1|arroyomolinos');
+    expect(pairKey('Calle Real 1', 'Arroyomolinos', 'Cáceres')).toBe('calle real 1|arroyomolinos|caceres');
+    expect(pairKey('Calle Real 1', 'Arroyomolinos', '')).toBe('calle real 1|arroyomolinos|');
+  });
+});
+
+describe('planDedupe', () => {
+  it('groups duplicate pairs in order of first appearance', () => {
+    const plan = planDedupe(sheet(
+      ['Gran Vía 1', 'Madrid'],
+      ['Calle Larios 2', 'Málaga'],
+      ['gran via, 1', 'MADRID'],
+      ['Gran Vía 1', 'Madrid']
+    ), MAPPING);
+
+    expect(plan.keys).toEqual(['gran via 1|madrid', 'calle larios 2|malaga', 'gran via 1|madrid', 'gran via 1|madrid']);
+    expect([...plan.groups]).toEqual([['gran via 1|madrid', [0, 2, 3]], ['calle larios 2|malaga', [1]]]);
+    expect(pendingRows(plan, new Map())).toEqual([0, 1]);
+    expect(countPairRows(plan, ['gran via 1|madrid'])).toBe(3);
+  });
+
+  it('keeps pairs that only differ by provincia apart when that column is mapped', () => {
+    const rows = sheet(['Calle Real 1', 'Arroyomolinos', 'Madrid'], ['Calle Real 1', 'Arroyomolinos', 'Cáceres']);
+
+    expect(pendingRows(planDedupe(rows, WITH_PROVINCIA), new Map())).toEqual([0, 1]);
+    expect(pendingRows(planDedupe(rows, MAPPING), new Map())).toEqual([0]);
+  });
+
+  it('keeps blank rows in place and uploads them once', () => {
+    const plan = planDedupe(sheet(['Gran Vía 1', 'Madrid'], [], ['Calle Larios 2', 'Málaga'], ['', '', '']), MAPPING);
+
+    expect(plan.keys).toHaveLength(4);
+    expect(plan.keys[1]).toBe(plan.keys[3]);
+    expect(pendingRows(plan, new Map())).toEqual([0, 1, 2]);
+  });
+
+  it('only returns pairs without an outcome', () => {
+    const plan = planDedupe(sheet(['Gran Vía 1', 'Madrid'], ['Calle Larios 2', 'Málaga'], ['Gran Vía 1', 'Madrid']), MAPPING);
+    const outcomes = new Map<string, PairOutcome>([['gran via 1|madrid', { status: 'found', cp: '28013' }]]);
+
+    expect(pendingRows(plan, outcomes)).toEqual([1]);
+  });
+});
+
+describe('expandOutcomes', () => {
+  const source = sheet(
+    ['Gran Vía 1', 'Madrid'],
+    [],
+    ['Calle Larios 2', 'Málaga'],
+    ['gran via, 1', 'MADRID'],
+    ['Calle Inventada 9', 'Toledo']
+  );
+  const plan = planDedupe(source, MAPPING);
+
+  it('copies the outcome of each pair back to every source row', () => {
+    const outcomes = new Map<string, PairOutcome>([
+      [plan.keys[0], { status: 'found', cp: '28013' }],
+      [plan.keys[1], { status: 'error', error: 'Fila vacia' }],
+      [plan.keys[2], { status: 'found', cp: '29005', cached: true }],
+      [plan.keys[4], { status: 'not_found' }]
+    ]);
+
+    expect(expandOutcomes(source, plan, outcomes)).toEqual([
+      { row: 2, direccion: 'Gran Vía 1', municipio: 'Madrid', status: 'found', cp: '28013', warning: undefined },
+      { row: 3, direccion: '', municipio: '', status: 'error', error: 'Fila vacia' },
+      { row: 4, direccion: 'Calle Larios 2', municipio: 'Málaga', cached: true, status: 'found', cp: '29005', warning: undefined },
+      { row: 5, direccion: 'gran via, 1', municipio: 'MADRID', status: 'found', cp: '28013', warning: undefined },
+      { row: 6, direccion: 'Calle Inventada 9', municipio: 'Toledo', status: 'not_found' }
+    ]);
+  });
+
+  it('flags a CP from another province as suspect', () => {
+    const outcomes = new Map<string, PairOutcome>([[plan.keys[0], { status: 'found', cp: '08001' }]]);
+    const [row] = expandOutcomes(source, plan, outcomes);
+
+    expect(row.status).toBe('suspect');
+    expect(row.warning).toMatchObject({ key: 'plausibility.province' });
+  });
+
+  it('stops at the first row whose pair has no outcome yet', () => {
+    const outcomes = new Map<string, PairOutcome>([
+      [plan.keys[0], { status: 'found', cp: '28013' }],
+      [plan.keys[2], { status: 'found', cp: '29005' }]
+    ]);
+
+    expect(expandOutcomes(source, plan, outcomes).map(row => row.row)).toEqual([2]);
+  });
+});
@@ -0,0 +1,92 @@
+import { foldText } from './text';
+import { classifyFound } from './plausibility';
+import { FIRST_DATA_ROW } from './events';
+import type { Cell, ColumnMapping, ProcessedRow, SheetRows } from './workbook';
+
+// Workbooks repeat the same address many times. Rows are grouped by their normalized
+// direccion+municipio pair (plus provincia when that column is mapped) so each pair is geocoded
+// once and its result copied to every row.
+
+/** What the API answered for a pair */
+export interface PairOutcome {
+  status: 'found' | 'not_found' | 'error';
+  cp?: string;
+  error?: string;
+  /** Served from the lookup cache instead of the API */
+  cached?: boolean;
+}
+
+export interface DedupePlan {
+  /** Pair key of every data row */
+  keys: string[];
+  /** Data rows sharing each pair, in sheet order; keys are in order of first appearance */
+  groups: Map<string, number[]>;
+  direccionColumn: number;
+  municipioColumn: number;
+}
+
+const normalizePart = (value: Cell) => foldText(String(value ?? '')).replace(/[^a-z0-9]+/g, ' ').trim();
+
+// "C/ Mayor, 5" in "MÁLAGA" and "c/ mayor 5" in "Malaga" are the same pair. The province keeps
+// same-named municipalities apart, e.g. Arroyomolinos in Madrid and in Cáceres.
+export const pairKey = (direccion: Cell, municipio: Cell, provincia?: Cell) => {
+  const key = `${normalizePart(direccion)}|${normalizePart(municipio)}`;
+  return provincia === undefined ? key : `${key}|${normalizePart(provincia)}`;
+};
+
+export const planDedupe = ({ header, rows }: SheetRows, mapping: ColumnMapping): DedupePlan => {
+  const column = (name: string) => header.findIndex(cell => String(cell ?? '').trim() === name);
+  const direccionColumn = column(mapping.direccion);
+  const municipioColumn = mapping.municipio ? column(mapping.municipio) : -1;
+  const provinciaColumn = mapping.provincia ? column(mapping.provincia) : -1;
+
+  const keys = rows.map(row => pairKey(
+    row[direccionColumn] ?? '',
+    row[municipioColumn] ?? '',
+    provinciaColumn >= 0 ? row[provinciaColumn] ?? '' : undefined
+  ));
+  const groups = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+
+  return { keys, groups, direccionColumn, municipioColumn };
+};
+
+// First row of every pair that has no outcome yet; these are the rows to upload
+export const pendingRows = (plan: DedupePlan, outcomes: Map<string, PairOutcome>) =>
+  [...plan.groups].filter(([key]) => !outcomes.has(key)).map(([, indices]) => indices[0]);
+
+// Number of data rows covered by the given pairs
+export const countPairRows = (plan: DedupePlan, keys: Iterable<string>) => {
+  let count = 0;
+  for (const key of keys) count += plan.groups.get(key)?.length ?? 0;
+  return count;
+};
+
+// One processed row per data row, up to the first row whose pair has no outcome yet, so the
+// rows stay aligned with the sheet when a run is interrupted
+export const expandOutcomes = (source: SheetRows, plan: DedupePlan, outcomes: Map<string, PairOutcome>): ProcessedRow[] => {
+  const rows: ProcessedRow[] = [];
+  for (const [index, key] of plan.keys.entries()) {
+    const outcome = outcomes.get(key);
+    if (!outcome) break;
+
+    const cells = source.rows[index];
+    const direccion = String(cells[plan.direccionColumn] ?? '');
+    const municipio = String(cells[plan.municipioColumn] ?? '');
+    const base = { row: index + FIRST_DATA_ROW, direccion, municipio, ...(outcome.cached && { cached: true }) };
+
+    if (outcome.status === 'error') {
+      rows.push({ ...base, status: 'error', error: outcome.error });
+    } else if (outcome.status === 'found') {
+      const { status, warning } = classifyFound(outcome.cp, municipio);
+      rows.push({ ...base, status, cp: outcome.cp, warning });
+    } else {
+      rows.push({ ...base, status: 'not_found' });
+    }
+  }
+  return rows;
+};
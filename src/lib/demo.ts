@@ -0,0 +1,218 @@
+import { STREAM_ENDPOINT, sleep } from './api';
+import { LOOKUP_ENDPOINT } from './lookup';
+import { encodeBase64 } from './base64';
+import { pairKey } from './dedupe';
+import { foldText } from './text';
+import { readSheetRows, buildWorkbook, isCpHeader, XLSX_MIME, type Cell } from './workbook';
+import { FIRST_DATA_ROW, type GeocoderEvent, type StreamStats } from './events';
+import { DEMO_BASE_URL, type DemoOptions } from './demoOptions';
+
+// Simulated backend for training and demos without a network. It answers the same routes as the
+// real API with the same event sequence, looking addresses up in a small CP table, so the log,
+// results, downloads and history can all be exercised offline. It pulls in xlsx, so it is only
+// loaded on first use; its settings live in demoOptions.ts.
+
+const SAMPLE_NAME = 'muestra_demo.xlsx';
+
+interface DemoMunicipality {
+  name: string;
+  provincia: string;
+  cps: string[];
+}
+
+// Bilingual names are split on "/" and both forms are matched, as in municipalities.ts
+const DEMO_POSTAL_CODES: DemoMunicipality[] = [
+  { name: 'Madrid', provincia: 'Madrid', cps: ['28001', '28004', '28005', '28008', '28010', '28012', '28013', '28014', '28015', '28020'] },
+  { name: 'Barcelona', provincia: 'Barcelona', cps: ['08001', '08002', '08003', '08007', '08008', '08010', '08012', '08013', '08015'] },
+  { name: 'Valencia/València', provincia: 'Valencia/València', cps: ['46001', '46002', '46003', '46004', '46005', '46010'] },
+  { name: 'Sevilla', provincia: 'Sevilla', cps: ['41001', '41002', '41003', '41004', '41010', '41011'] },
+  { name: 'Zaragoza', provincia: 'Zaragoza', cps: ['50001', '50003', '50004', '50005', '50008'] },
+  { name: 'Málaga', provincia: 'Málaga', cps: ['29001', '29002', '29005', '29008', '29012'] },
+  { name: 'Bilbao', provincia: 'Bizkaia', cps: ['48001', '48003', '48005', '48007', '48009'] },
+  { name: 'Vitoria-Gasteiz/Vitoria/Gasteiz', provincia: 'Araba/Álava', cps: ['01001', '01002', '01004', '01005', '01008'] },
+  { name: 'A Coruña/La Coruña', provincia: 'A Coruña', cps: ['15001', '15003', '15004', '15005', '15008'] },
+  { name: 'Santiago de Compostela', provincia: 'A Coruña', cps: ['15701', '15702', '15703', '15705', '15706'] },
+  { name: 'Girona/Gerona', provincia: 'Girona', cps: ['17001', '17002', '17003', '17004', '17005'] },
+  { name: 'Donostia/San Sebastián', provincia: 'Gipuzkoa', cps: ['20001', '20003', '20004', '20005', '20012'] },
+  // Answers with Madrid CPs on purpose so the plausibility checks flag these rows as dudosas
+  { name: 'Toledo', provincia: 'Toledo', cps: ['28002', '28003'] }
+];
+
+// Direccion, Municipio, Provincia; with repeated addresses and municipalities missing from the table
+const DEMO_SAMPLE_ROWS: string[][] = [
+  ['Calle de Alcalá, 45', 'Madrid', 'Madrid'],
+  ['Gran Vía, 28', 'Madrid', 'Madrid'],
+  ['Paseo de la Castellana, 100', 'Madrid', 'Madrid'],
+  ['Calle Mayor, 5', 'Madrid', 'Madrid'],
+  ['Plaza de España, 1', 'Madrid', 'Madrid'],
+  ['Carrer de Mallorca, 401', 'Barcelona', 'Barcelona'],
+  ['Passeig de Gràcia, 92', 'Barcelona', 'Barcelona'],
+  ['La Rambla, 91', 'Barcelona', 'Barcelona'],
+  ['Calle de Colón, 1', 'Valencia', 'Valencia'],
+  ['Avenida del Puerto, 120', 'València', 'Valencia'],
+  ['Calle Sierpes, 12', 'Sevilla', 'Sevilla'],
+  ['Avenida de la Constitución, 20', 'Sevilla', 'Sevilla'],
+  ['c/ mayor 5', 'MADRID', 'Madrid'],
+  ['Paseo Independencia, 8', 'Zaragoza', 'Zaragoza'],
+  ['Calle Alfonso I, 17', 'Zaragoza', 'Zaragoza'],
+  ['Calle Larios, 4', 'Málaga', 'Málaga'],
+  ['Paseo del Parque, 2', 'Malaga', 'Málaga'],
+  ['Calle Ercilla, 15', 'Bilbao', 'Bizkaia'],
+  ['Calle Dato, 10', 'Vitoria-Gasteiz', 'Álava'],
+  ['Rúa Real, 50', 'A Coruña', 'A Coruña'],
+  ['Avenida de la Marina, 3', 'A Coruña', 'A Coruña'],
+  ['Rúa do Vilar, 30', 'Santiago de Compostela', 'A Coruña'],
+  ['Carrer de la Força, 8', 'Girona', 'Girona'],
+  ['Avenida de la Libertad, 20', 'Donostia', 'Gipuzkoa'],
+  ['Calle Comercio, 30', 'Toledo', 'Toledo'],
+  ['Plaza de Zocodover, 7', 'Toledo', 'Toledo'],
+  ['Carrer de Mallorca 401', 'barcelona', 'Barcelona'],
+  ['Calle Real, 3', 'Villanueva del Pardillo', 'Madrid'],
+  ['Camino Viejo s/n', 'Aldeanueva de Ebro', 'La Rioja'],
+  ['', 'Madrid', 'Madrid'],
+  ['Gran Via 28', 'Madrid', 'Madrid'],
+  ['Calle Mayor, 12', 'Bilbao', 'Bizkaia']
+];
+
+const SAMPLE_HEADER = ['Direccion', 'Municipio', 'Provincia'];
+
+const normalizeName = (value: string) => foldText(value).replace(/[^a-z0-9]+/g, ' ').trim();
+
+const MUNICIPALITY_INDEX = new Map(
+  DEMO_POSTAL_CODES.flatMap(entry => entry.name.split('/').map(name => [normalizeName(name), entry] as const))
+);
+
+// FNV-1a, so the same address always gets the same CP
+const hash = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) h = Math.imul(h ^ value.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+const findCp = (direccion: string, municipio: string) => {
+  const entry = MUNICIPALITY_INDEX.get(normalizeName(municipio));
+  if (!entry || !direccion.trim()) return null;
+  return { entry, cp: entry.cps[hash(pairKey(direccion, municipio)) % entry.cps.length] };
+};
+
+export const createSampleWorkbook = (): File =>
+  new File([buildWorkbook('Direcciones', [SAMPLE_HEADER, ...DEMO_SAMPLE_ROWS])], SAMPLE_NAME, { type: XLSX_MIME });
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+const failure = (status: number, statusText: string) => new Response(null, { status, statusText });
+
+const lookupResponse = (options: DemoOptions, body: string) => {
+  if (Math.random() < options.errorRate) return failure(503, 'Service Unavailable');
+  const { direccion = '', municipio = '' } = JSON.parse(body) as { direccion?: string; municipio?: string };
+  const found = findCp(direccion, municipio);
+  if (!found) return json({ cp: null, candidatos: [] });
+  const { entry, cp } = found;
+  const neighbour = entry.cps[(entry.cps.indexOf(cp) + 1) % entry.cps.length];
+  return json({
+    cp,
+    municipio,
+    provincia: entry.provincia,
+    candidatos: [...new Set([cp, neighbour])].map(code => ({ cp: code, direccion, municipio, provincia: entry.provincia }))
+  });
+};
+
+// Answers every row of the uploaded sheet at `rowsPerSecond`, then sends the result workbook inline
+const streamResponse = (options: DemoOptions, form: FormData, signal?: AbortSignal | null) => {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GeocoderEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      try {
+        const file = form.get('file') as File;
+        const { header, rows } = await readSheetRows(file, String(form.get('hoja') ?? ''));
+        const column = (name: FormDataEntryValue | null) => header.findIndex(cell => String(cell ?? '').trim() === name);
+        const direccionColumn = column(form.get('columna_direccion'));
+        const municipioColumn = column(form.get('columna_municipio'));
+        if (direccionColumn < 0) {
+          send({ type: 'error', message: `La columna "${form.get('columna_direccion')}" no existe en la hoja` });
+          controller.close();
+          return;
+        }
+
+        const total = rows.length;
+        const stats: StreamStats = { procesadas: 0, encontradas: 0, no_encontradas: 0, errores: 0 };
+        const cps: Cell[] = [];
+        const startedAt = Date.now();
+        send({ type: 'start', total });
+
+        for (const [index, cells] of rows.entries()) {
+          const wait = startedAt + ((index + 1) * 1000) / options.rowsPerSecond - Date.now();
+          if (wait > 0) await sleep(wait, signal ?? undefined);
+          if (cancelled) return;
+
+          const row = index + FIRST_DATA_ROW;
+          const direccion = String(cells[direccionColumn] ?? '');
+          const municipio = String(cells[municipioColumn] ?? '');
+          stats.procesadas++;
+
+          if (Math.random() < options.errorRate) {
+            stats.errores++;
+            cps.push('');
+            send({ type: 'row_error', row, error: 'Error simulado del geocodificador' });
+            continue;
+          }
+          const found = Math.random() < options.notFoundRate ? null : findCp(direccion, municipio);
+          if (found) stats.encontradas++;
+          else stats.no_encontradas++;
+          cps.push(found?.cp ?? '');
+          send({
+            type: 'progress',
+            row,
+            total,
+            status: found ? 'found' : 'not_found',
+            direccion,
+            municipio,
+            ...(found && { cp: found.cp }),
+            stats: { ...stats }
+          });
+        }
+
+        let cpColumn = header.findIndex(isCpHeader);
+        const outputHeader = [...header];
+        if (cpColumn < 0) cpColumn = outputHeader.push('CP') - 1;
+        const output = rows.map((cells, i) => outputHeader.map((_, col) => (col === cpColumn ? cps[i] : cells[col] ?? '')));
+        const workbook = buildWorkbook('Resultado', [outputHeader, ...output]);
+
+        send({
+          type: 'complete',
+          stats,
+          elapsed: `${((Date.now() - startedAt) / 1000).toFixed(1)}s`,
+          file: encodeBase64(new Uint8Array(await workbook.arrayBuffer())),
+          filename: file.name.replace(/\.[^.]+$/, '') + '_con_cp.xlsx'
+        });
+        controller.close();
+      } catch (err) {
+        if (!cancelled) controller.error(err);
+      }
+    },
+    cancel() {
+      cancelled = true;
+    }
+  });
+
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+// Stands in for fetch() against DEMO_BASE_URL. POST-only routes answer a GET with 405, as the
+// real API does for the diagnostics probes.
+export const demoFetch = async (options: DemoOptions, url: string, init: RequestInit = {}): Promise<Response> => {
+  const path = url.slice(DEMO_BASE_URL.length) || '/';
+  const method = (init.method ?? 'GET').toUpperCase();
+
+  if (path === '/') return json({ servicio: 'Geocoder CP (demo)', version: 'demo' });
+  if (path !== STREAM_ENDPOINT && path !== LOOKUP_ENDPOINT) return failure(404, 'Not Found');
+  if (method !== 'POST') return failure(405, 'Method Not Allowed');
+
+  return path === STREAM_ENDPOINT
+    ? streamResponse(options, init.body as FormData, init.signal)
+    : lookupResponse(options, String(init.body));
+};
@@ -0,0 +1,19 @@
+// Settings of the simulated backend in demo.ts, kept apart so profiles and the editor can use
+// them without loading the backend itself
+
+export const DEMO_BASE_URL = 'demo://local';
+
+export interface DemoOptions {
+  /** Rows answered per second */
+  rowsPerSecond: number;
+  /** Share of rows that fail with a row error */
+  errorRate: number;
+  /** Share of known addresses reported as not found anyway */
+  notFoundRate: number;
+}
+
+export const DEFAULT_DEMO_OPTIONS: DemoOptions = { rowsPerSecond: 10, errorRate: 0.05, notFoundRate: 0.05 };
+
+export const DEMO_SPEEDS = [2, 10, 50, 250];
+
+export const DEMO_RATES = [0, 0.05, 0.15, 0.3];
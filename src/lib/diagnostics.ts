@@ -0,0 +1,141 @@
+import { STREAM_ENDPOINT, apiFetch, InvalidHeaderError, type ApiConnection } from './api';
+import { LOOKUP_ENDPOINT } from './lookup';
+import type { ApiStatus } from './types';
+import type { Message, MessageKey } from './i18n';
+
+// Health checks for the selected API. POST-only endpoints are probed with a GET: a 405 means
+// the route exists, a 404 means this deployment does not have it.
+
+export interface EndpointProbe {
+  path: string;
+  label: MessageKey;
+  /** Missing optional endpoints only reduce functionality */
+  required: boolean;
+}
+
+export type ProbeState = 'available' | 'missing' | 'failing' | 'unreachable';
+
+export interface ProbeResult extends EndpointProbe {
+  state: ProbeState;
+  status?: number;
+  latency?: number;
+}
+
+export interface DiagnosticsReport {
+  checkedAt: number;
+  status: ApiStatus;
+  /** Round trip of the root request in ms */
+  latency: number | null;
+  version: string | null;
+  info: unknown;
+  probes: ProbeResult[];
+  /** Why the backend looks degraded; empty when healthy */
+  warnings: Message[];
+}
+
+export interface LatencySample {
+  at: number;
+  latency: number | null;
+}
+
+export const PROBES: EndpointProbe[] = [
+  { path: STREAM_ENDPOINT, label: 'diagnostics.probe.stream', required: true },
+  { path: LOOKUP_ENDPOINT, label: 'diagnostics.probe.lookup', required: false }
+];
+
+export const DEGRADED_LATENCY = 1500;
+export const LATENCY_HISTORY = 30;
+export const REQUEST_TIMEOUT = 5000;
+
+export const POLL_INTERVALS: Record<number, MessageKey> = {
+  0: 'diagnostics.poll.off',
+  30000: 'diagnostics.poll.30s',
+  60000: 'diagnostics.poll.1m',
+  300000: 'diagnostics.poll.5m'
+};
+
+const timedFetch = async (api: ApiConnection, url: string) => {
+  const start = performance.now();
+  const response = await apiFetch(api, url, { method: 'GET', headers: api.headers, signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+  return { response, latency: Math.round(performance.now() - start) };
+};
+
+const probeState = (status: number): ProbeState => {
+  if (status === 404) return 'missing';
+  if (status >= 500) return 'failing';
+  return 'available';
+};
+
+const probeEndpoint = async (api: ApiConnection, probe: EndpointProbe): Promise<ProbeResult> => {
+  try {
+    const { response, latency } = await timedFetch(api, `${api.baseUrl}${probe.path}`);
+    return { ...probe, state: probeState(response.status), status: response.status, latency };
+  } catch {
+    return { ...probe, state: 'unreachable' };
+  }
+};
+
+// The root route returns a JSON description of the service on current deployments, plain text on older ones
+const readInfo = async (response: Response): Promise<unknown> => {
+  const text = await response.text();
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text.trim().slice(0, 500) || null;
+  }
+};
+
+const findVersion = (info: unknown): string | null => {
+  if (typeof info !== 'object' || info === null) return null;
+  const record = info as Record<string, unknown>;
+  const version = record.version ?? record.api_version;
+  return typeof version === 'string' || typeof version === 'number' ? String(version) : null;
+};
+
+export const runDiagnostics = async (api: ApiConnection): Promise<DiagnosticsReport> => {
+  const report: DiagnosticsReport = {
+    checkedAt: Date.now(),
+    status: 'offline',
+    latency: null,
+    version: null,
+    info: null,
+    probes: [],
+    warnings: []
+  };
+
+  try {
+    const { response, latency } = await timedFetch(api, `${api.baseUrl}/`);
+    report.latency = latency;
+    if (response.status === 401 || response.status === 403) {
+      report.status = 'unauthorized';
+      return report;
+    }
+    if (!response.ok) {
+      report.warnings.push({ key: 'diagnostics.warn.httpError', params: { status: response.status } });
+      return report;
+    }
+    report.status = 'online';
+    report.info = await readInfo(response);
+    report.version = findVersion(report.info);
+  } catch (err) {
+    report.warnings.push(err instanceof InvalidHeaderError ? err.detail : { key: 'diagnostics.warn.noResponse' });
+    return report;
+  }
+
+  report.probes = await Promise.all(PROBES.map(probe => probeEndpoint(api, probe)));
+
+  if (report.latency !== null && report.latency > DEGRADED_LATENCY) {
+    report.warnings.push({ key: 'diagnostics.warn.latency', params: { ms: report.latency } });
+  }
+  for (const probe of report.probes) {
+    if (probe.state === 'available' || (!probe.required && probe.state === 'missing')) continue;
+    report.warnings.push(
+      probe.state === 'missing'
+        ? { key: 'diagnostics.warn.missing', params: { path: probe.path } }
+        : probe.status
+          ? { key: 'diagnostics.warn.unavailableStatus', params: { path: probe.path, status: probe.status } }
+          : { key: 'diagnostics.warn.unavailable', params: { path: probe.path } }
+    );
+  }
+  return report;
+};
@@ -0,0 +1,15 @@
+import type { Message } from './i18n';
+
+// Errors raised by lib code name a catalog message instead of carrying Spanish text, so they are
+// shown in the language of whoever reads them. `message` holds the key, for logs and stack traces.
+export class LocalizedError extends Error {
+  constructor(public detail: Message) {
+    super(detail.key);
+    this.name = 'LocalizedError';
+  }
+}
+
+// What to show for a caught error: its catalog message, or the text of an error from elsewhere
+// (the browser, SheetJS, the API's own `error` events)
+export const errorMessage = (err: unknown): Message | string =>
+  err instanceof LocalizedError ? err.detail : err instanceof Error ? err.message : String(err);
@@ -0,0 +1,164 @@
+import { LocalizedError } from './errors';
+import type { Message } from './i18n';
+
+// Events emitted by /procesar-excel-stream, validated at runtime before reaching the UI
+
+/** Sheet row number of the first data row, below the header; events number rows the same way */
+export const FIRST_DATA_ROW = 2;
+
+export interface StreamStats {
+  procesadas: number;
+  encontradas: number;
+  no_encontradas: number;
+  errores: number;
+}
+
+export interface StartEvent {
+  type: 'start';
+  total: number;
+}
+
+export interface ProgressEvent {
+  type: 'progress';
+  row: number;
+  total: number;
+  status: 'found' | 'not_found';
+  direccion: string;
+  municipio: string;
+  cp?: string;
+  stats: StreamStats;
+}
+
+export interface RowErrorEvent {
+  type: 'row_error';
+  row: number;
+  error: string;
+}
+
+export interface ErrorEvent {
+  type: 'error';
+  message: string;
+}
+
+export interface CompleteEvent {
+  type: 'complete';
+  stats: StreamStats;
+  elapsed: string;
+  /** Result workbook inline as base64; older servers only */
+  file?: string;
+  filename?: string;
+  /** Where to fetch the result workbook instead, absolute or relative to the API */
+  download_url?: string;
+  /** Result available at RESULT_ENDPOINT/<job_id> when no URL is given */
+  job_id?: string;
+}
+
+export type GeocoderEvent = StartEvent | ProgressEvent | RowErrorEvent | ErrorEvent | CompleteEvent;
+
+export class ProtocolError extends LocalizedError {
+  constructor(detail: Message, public readonly payload?: string) {
+    super(detail);
+    this.name = 'ProtocolError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const number = (obj: Json, key: string): number => {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ProtocolError({ key: 'protocol.notNumber', params: { field: key } });
+  }
+  return value;
+};
+
+const string = (obj: Json, key: string): string => {
+  const value = obj[key];
+  if (typeof value !== 'string') throw new ProtocolError({ key: 'protocol.notText', params: { field: key } });
+  return value;
+};
+
+const optionalString = (obj: Json, key: string): string | undefined => {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number') return String(value);
+  return string(obj, key);
+};
+
+// Address fields come straight from the spreadsheet, so numbers and empty cells are tolerated
+const cellText = (obj: Json, key: string): string => optionalString(obj, key) ?? '';
+
+const stats = (obj: Json): StreamStats => {
+  const value = obj.stats;
+  if (!isObject(value)) throw new ProtocolError({ key: 'protocol.stats' });
+  return {
+    procesadas: number(value, 'procesadas'),
+    encontradas: number(value, 'encontradas'),
+    no_encontradas: number(value, 'no_encontradas'),
+    errores: number(value, 'errores')
+  };
+};
+
+export const validateEvent = (value: unknown): GeocoderEvent => {
+  if (!isObject(value)) throw new ProtocolError({ key: 'protocol.notObject' });
+
+  switch (value.type) {
+    case 'start':
+      return { type: 'start', total: number(value, 'total') };
+
+    case 'progress': {
+      const status = value.status;
+      if (status !== 'found' && status !== 'not_found') {
+        throw new ProtocolError({ key: 'protocol.unknownStatus', params: { status: JSON.stringify(status) ?? '' } });
+      }
+      return {
+        type: 'progress',
+        row: number(value, 'row'),
+        total: number(value, 'total'),
+        status,
+        direccion: cellText(value, 'direccion'),
+        municipio: cellText(value, 'municipio'),
+        cp: optionalString(value, 'cp'),
+        stats: stats(value)
+      };
+    }
+
+    case 'row_error':
+      return { type: 'row_error', row: number(value, 'row'), error: string(value, 'error') };
+
+    case 'error':
+      return { type: 'error', message: string(value, 'message') };
+
+    case 'complete':
+      return {
+        type: 'complete',
+        stats: stats(value),
+        elapsed: optionalString(value, 'elapsed') ?? '',
+        file: optionalString(value, 'file'),
+        filename: optionalString(value, 'filename'),
+        download_url: optionalString(value, 'download_url'),
+        job_id: optionalString(value, 'job_id')
+      };
+
+    default:
+      throw new ProtocolError({ key: 'protocol.unknownType', params: { type: JSON.stringify(value.type) ?? '' } });
+  }
+};
+
+export const parseEvent = (data: string): GeocoderEvent => {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    throw new ProtocolError({ key: 'protocol.invalidJson' }, data);
+  }
+  try {
+    return validateEvent(json);
+  } catch (err) {
+    if (err instanceof ProtocolError) throw new ProtocolError(err.detail, data);
+    throw err;
+  }
+};
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimited, decodeText, DEFAULT_TEXT_OPTIONS, type InputFormat } from './formats';
+
+const decode = (content: string | Uint8Array<ArrayBuffer>, name = 'direcciones.csv', format: InputFormat = 'csv') =>
+  decodeText(new File([content], name), format, DEFAULT_TEXT_OPTIONS);
+
+describe('parseDelimited', () => {
+  it('splits rows and fields', () => {
+    expect(parseDelimited('Direccion;Municipio\r\nGran Vía 1;Madrid\nCalle Larios 2;Málaga', ';')).toEqual([
+      ['Direccion', 'Municipio'],
+      ['Gran Vía 1', 'Madrid'],
+      ['Calle Larios 2', 'Málaga']
+    ]);
+  });
+
+  it('keeps delimiters inside quoted fields', () => {
+    expect(parseDelimited('"Calle Mayor; 5";Madrid', ';')).toEqual([['Calle Mayor; 5', 'Madrid']]);
+    expect(parseDelimited('"Calle Mayor, 5",Madrid', ',')).toEqual([['Calle Mayor, 5', 'Madrid']]);
+  });
+
+  it('keeps line breaks inside quoted fields', () => {
+    expect(parseDelimited('"Calle Mayor 5\r\n2º B";Madrid\nGran Vía 1;Madrid', ';')).toEqual([
+      ['Calle Mayor 5\r\n2º B', 'Madrid'],
+      ['Gran Vía 1', 'Madrid']
+    ]);
+  });
+
+  it('unescapes doubled quotes', () => {
+    expect(parseDelimited('"Bar ""El Puerto""";Cádiz', ';')).toEqual([['Bar "El Puerto"', 'Cádiz']]);
+  });
+
+  it('keeps empty fields and drops blank lines', () => {
+    expect(parseDelimited('a;;c\n\n;;\nd;e;\n', ';')).toEqual([['a', '', 'c'], ['d', 'e', '']]);
+  });
+});
+
+describe('decodeText', () => {
+  it('strips a byte order mark', async () => {
+    const { text } = await decode('\ufeffDireccion;Municipio\nGran Vía 1;Madrid');
+    expect(text.startsWith('Direccion')).toBe(true);
+  });
+
+  it('detects semicolons even when the addresses have commas', async () => {
+    const { detected } = await decode('Direccion;Municipio\nCalle Mayor, 5;Madrid\nPlaza de España, 2;Sevilla\n');
+    expect(detected).toEqual({ encoding: 'utf-8', delimiter: ';' });
+  });
+
+  it('detects commas, ignoring semicolons inside quoted fields', async () => {
+    const { detected } = await decode('Direccion,Municipio\n"Calle Mayor; 5",Madrid\n"Local 3; bajo",Sevilla\n');
+    expect(detected.delimiter).toBe(',');
+  });
+
+  it('detects tabs and pipes', async () => {
+    expect((await decode('Direccion\tMunicipio\nGran Vía 1\tMadrid')).detected.delimiter).toBe('\t');
+    expect((await decode('Direccion|Municipio\nGran Vía 1|Madrid')).detected.delimiter).toBe('|');
+  });
+
+  it('falls back to the default of the format when nothing matches', async () => {
+    expect((await decode('Direccion\nGran Vía 1')).detected.delimiter).toBe(';');
+    expect((await decode('Direccion\nGran Vía 1', 'direcciones.tsv', 'tsv')).detected.delimiter).toBe('\t');
+  });
+
+  it('reads text that is not valid UTF-8 as Windows-1252', async () => {
+    const latin1 = Uint8Array.from([...'Municipio\nM'].map(c => c.charCodeAt(0)).concat([0xe1], [...'laga'].map(c => c.charCodeAt(0))));
+    const { text, detected } = await decode(latin1);
+    expect(detected.encoding).toBe('windows-1252');
+    expect(text).toBe('Municipio\nMálaga');
+  });
+});
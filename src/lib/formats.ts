@@ -0,0 +1,219 @@
+import * as XLSX from 'xlsx';
+import type { Cell, ProcessedRow } from './workbook';
+import type { MessageKey, Translator } from './i18n';
+
+export type InputFormat = 'excel' | 'ods' | 'csv' | 'tsv';
+export type OutputFormat = 'xlsx' | 'csv' | 'json';
+
+export type TextEncoding = 'auto' | 'utf-8' | 'windows-1252' | 'iso-8859-1';
+export type Delimiter = 'auto' | ';' | ',' | '\t' | '|';
+
+export interface TextOptions {
+  encoding: TextEncoding;
+  delimiter: Delimiter;
+}
+
+export interface DetectedText {
+  encoding: Exclude<TextEncoding, 'auto'>;
+  delimiter: Exclude<Delimiter, 'auto'>;
+}
+
+export const DEFAULT_TEXT_OPTIONS: TextOptions = { encoding: 'auto', delimiter: 'auto' };
+
+export const INPUT_EXTENSIONS: Record<string, InputFormat> = {
+  '.xlsx': 'excel',
+  '.xls': 'excel',
+  '.xlsm': 'excel',
+  '.ods': 'ods',
+  '.csv': 'csv',
+  '.txt': 'csv',
+  '.tsv': 'tsv'
+};
+
+export const OUTPUT_FORMATS: Record<OutputFormat, { label: string; extension: string; mime: string }> = {
+  xlsx: {
+    label: 'Excel (.xlsx)',
+    extension: '.xlsx',
+    mime: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  },
+  csv: { label: 'CSV (;)', extension: '.csv', mime: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON (GeoJSON)', extension: '.json', mime: 'application/geo+json' }
+};
+
+// Encoding names are not translated; `auto` is labelled by the UI
+export const ENCODING_LABELS: Record<Exclude<TextEncoding, 'auto'>, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1252': 'Windows-1252',
+  'iso-8859-1': 'Latin-1 (ISO-8859-1)'
+};
+
+export const DELIMITER_LABELS: Record<Delimiter, MessageKey> = {
+  auto: 'upload.detect',
+  ';': 'upload.delimiter.semicolon',
+  ',': 'upload.delimiter.comma',
+  '\t': 'upload.delimiter.tab',
+  '|': 'upload.delimiter.pipe'
+};
+
+export const getInputFormat = (name: string): InputFormat | null => {
+  const lower = name.toLowerCase();
+  const ext = Object.keys(INPUT_EXTENSIONS).find(e => lower.endsWith(e));
+  return ext ? INPUT_EXTENSIONS[ext] : null;
+};
+
+export const isTextFormat = (format: InputFormat | null) => format === 'csv' || format === 'tsv';
+
+// Text exports from legacy systems are usually Latin-1; anything that is not valid UTF-8 is assumed to be Windows-1252
+const detectEncoding = (bytes: Uint8Array): DetectedText['encoding'] => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+};
+
+const CANDIDATE_DELIMITERS: DetectedText['delimiter'][] = [';', '\t', ',', '|'];
+
+const countOutsideQuotes = (line: string, delimiter: string) => {
+  let count = 0;
+  let quoted = false;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    else if (char === delimiter && !quoted) count++;
+  }
+  return count;
+};
+
+// The delimiter is the candidate that appears the same (non-zero) number of times in the most lines
+const detectDelimiter = (text: string, fallback: DetectedText['delimiter']): DetectedText['delimiter'] => {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '').slice(0, 20);
+  let best = fallback;
+  let bestScore = 0;
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const counts = lines.map(line => countOutsideQuotes(line, delimiter));
+    const first = counts[0] ?? 0;
+    if (first === 0) continue;
+    const score = counts.filter(c => c === first).length * Math.min(first, 50);
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+export const parseDelimited = (text: string, delimiter: string): Cell[][] => {
+  const rows: Cell[][] = [];
+  let row: Cell[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell !== ''));
+};
+
+export const decodeText = async (file: File, format: InputFormat, options: TextOptions) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const encoding = options.encoding === 'auto' ? detectEncoding(bytes) : options.encoding;
+  const text = new TextDecoder(encoding).decode(bytes).replace(/^\uFEFF/, '');
+  const delimiter = options.delimiter === 'auto'
+    ? detectDelimiter(text, format === 'tsv' ? '\t' : ';')
+    : options.delimiter;
+  const detected: DetectedText = { encoding, delimiter };
+  return { text, detected };
+};
+
+// Excel sheet names are at most 31 characters, without []:*?/\ and not wrapped in apostrophes
+const toSheetName = (fileName: string) =>
+  fileName.replace(/\.[^.]+$/, '').replace(/[[\]:*?/\\]/g, '').slice(0, 31).trim().replace(/^'+|'+$/g, '') || 'Hoja1';
+
+// Loads any supported input as a SheetJS workbook; text files become a single sheet named after the file
+export const loadWorkbook = async (file: File, options: TextOptions = DEFAULT_TEXT_OPTIONS, readOptions: XLSX.ParsingOptions = {}) => {
+  const format = getInputFormat(file.name);
+  if (isTextFormat(format)) {
+    const { text, detected } = await decodeText(file, format!, options);
+    const allRows = parseDelimited(text, detected.delimiter);
+    const rows = readOptions.sheetRows ? allRows.slice(0, readOptions.sheetRows) : allRows;
+    const workbook = XLSX.utils.book_new();
+    const sheet = XLSX.utils.aoa_to_sheet(rows);
+    if (rows.length < allRows.length) {
+      sheet['!fullref'] = XLSX.utils.encode_range({ s: { r: 0, c: 0 }, e: { r: allRows.length - 1, c: 0 } });
+    }
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(file.name));
+    return { workbook, detected };
+  }
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', ...readOptions });
+  return { workbook, detected: null };
+};
+
+const escapeCsv = (value: Cell, delimiter: string) => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon and a BOM so Spanish-locale Excel opens the file with the right columns and accents
+export const toCsv = (rows: Cell[][], delimiter = ';'): Blob => {
+  const csv = rows.map(row => row.map(cell => escapeCsv(cell, delimiter)).join(delimiter)).join('\r\n');
+  return new Blob(['\uFEFF' + csv], { type: OUTPUT_FORMATS.csv.mime });
+};
+
+export const workbookToCsv = async (source: Blob, delimiter = ';'): Promise<Blob> => {
+  const workbook = XLSX.read(await source.arrayBuffer(), { type: 'array' });
+  const rows = XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[workbook.SheetNames[0]], { header: 1, defval: '' });
+  return toCsv(rows, delimiter);
+};
+
+// GeoJSON-like collection built from the per-row progress events; the API returns no coordinates
+export const rowsToGeoJson = (rows: ProcessedRow[], filename: string, translate: Translator['translate']): Blob => {
+  const collection = {
+    type: 'FeatureCollection',
+    name: filename,
+    features: rows.map(row => ({
+      type: 'Feature',
+      geometry: null,
+      properties: {
+        row: row.row,
+        direccion: row.direccion ?? null,
+        municipio: row.municipio ?? null,
+        cp: row.cp ?? null,
+        status: row.status,
+        error: row.error ?? null,
+        warning: row.warning ? translate(row.warning) : null
+      }
+    }))
+  };
+  return new Blob([JSON.stringify(collection, null, 2)], { type: OUTPUT_FORMATS.json.mime });
+};
+
+export const replaceExtension = (filename: string, format: OutputFormat) =>
+  filename.replace(/\.[^.]+$/, '') + OUTPUT_FORMATS[format].extension;
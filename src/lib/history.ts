@@ -0,0 +1,130 @@
+import { toCsv } from './formats';
+import { openDatabase, promisify, transactionDone, JOB_STORE, JOB_DATA_STORE } from './db';
+import type { LogEntry, ProcessingResult } from './types';
+import type { Translator } from './i18n';
+import type { ColumnMapping, ProcessedRow } from './workbook';
+
+// Finished runs are kept in IndexedDB. Summaries and the heavy per-row data live in separate
+// stores so the history list can be shown without loading every log and workbook.
+
+export type JobStatus = 'completed' | 'interrupted' | 'failed';
+
+export interface JobSummary {
+  id: string;
+  fileName: string;
+  apiUrl: string;
+  startedAt: number;
+  finishedAt: number;
+  status: JobStatus;
+  result: ProcessingResult | null;
+  outputName: string;
+  /** Approximate bytes used by the stored rows, log and workbook */
+  size: number;
+}
+
+export interface JobData {
+  id: string;
+  rows: ProcessedRow[];
+  log: LogEntry[];
+  output: Blob | null;
+  mapping: ColumnMapping | null;
+}
+
+export type StoredJob = JobSummary & Omit<JobData, 'id'>;
+
+export interface HistoryLimits {
+  maxJobs: number;
+  maxMegabytes: number;
+}
+
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = { maxJobs: 50, maxMegabytes: 200 };
+
+const LIMITS_KEY = 'geocoder.historyLimits';
+
+export const estimateJobSize = (job: Pick<StoredJob, 'rows' | 'log' | 'output'>) =>
+  (job.output?.size ?? 0) + new Blob([JSON.stringify(job.rows), JSON.stringify(job.log)]).size;
+
+export const saveJob = async (job: StoredJob) => {
+  const { rows, log, output, mapping, ...summary } = job;
+  const db = await openDatabase();
+  const tx = db.transaction([JOB_STORE, JOB_DATA_STORE], 'readwrite');
+  tx.objectStore(JOB_STORE).put({ ...summary, size: estimateJobSize(job) });
+  tx.objectStore(JOB_DATA_STORE).put({ id: job.id, rows, log, output, mapping });
+  await transactionDone(tx);
+};
+
+// Newest first
+export const listJobs = async (): Promise<JobSummary[]> => {
+  const db = await openDatabase();
+  const index = db.transaction(JOB_STORE).objectStore(JOB_STORE).index('startedAt');
+  const jobs = await promisify(index.getAll() as IDBRequest<JobSummary[]>);
+  return jobs.reverse();
+};
+
+export const getJob = async (id: string): Promise<StoredJob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction([JOB_STORE, JOB_DATA_STORE]);
+  const [summary, data] = await Promise.all([
+    promisify(tx.objectStore(JOB_STORE).get(id) as IDBRequest<JobSummary | undefined>),
+    promisify(tx.objectStore(JOB_DATA_STORE).get(id) as IDBRequest<JobData | undefined>)
+  ]);
+  if (!summary || !data) return null;
+  return { ...summary, rows: data.rows, log: data.log, output: data.output, mapping: data.mapping };
+};
+
+export const deleteJob = async (id: string) => {
+  const db = await openDatabase();
+  const tx = db.transaction([JOB_STORE, JOB_DATA_STORE], 'readwrite');
+  tx.objectStore(JOB_STORE).delete(id);
+  tx.objectStore(JOB_DATA_STORE).delete(id);
+  await transactionDone(tx);
+};
+
+// Drops the oldest jobs until both the count and the size limits are met
+export const enforceLimits = async (limits: HistoryLimits) => {
+  const jobs = await listJobs();
+  const maxBytes = limits.maxMegabytes * 1024 * 1024;
+  let total = jobs.reduce((sum, job) => sum + job.size, 0);
+  let count = jobs.length;
+
+  for (const job of [...jobs].reverse()) {
+    if (count <= limits.maxJobs && total <= maxBytes) break;
+    await deleteJob(job.id);
+    count--;
+    total -= job.size;
+  }
+};
+
+export const loadLimits = (): HistoryLimits => {
+  try {
+    return { ...DEFAULT_HISTORY_LIMITS, ...JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_HISTORY_LIMITS;
+  }
+};
+
+export const saveLimits = (limits: HistoryLimits) => {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+};
+
+export const logToCsv = (log: LogEntry[], t: Translator['t']): Blob =>
+  toCsv([
+    [
+      t('history.logColumn.time'),
+      t('history.logColumn.type'),
+      t('table.row'),
+      t('common.address'),
+      t('common.municipality'),
+      t('table.cp'),
+      t('history.logColumn.message')
+    ],
+    ...log.map(entry => [
+      new Date(entry.timestamp).toISOString(),
+      entry.type,
+      entry.row ?? '',
+      entry.direccion ?? '',
+      entry.municipio ?? '',
+      entry.cp ?? '',
+      entry.message ?? ''
+    ])
+  ]);
@@ -0,0 +1,119 @@
+import { es, type MessageKey, type Messages } from './locales/es';
+import { en } from './locales/en';
+import { ca } from './locales/ca';
+import { eu } from './locales/eu';
+import { gl } from './locales/gl';
+import { errorMessage } from './errors';
+
+// Message catalogs and locale-aware formatting. Messages use `{name}` placeholders; a message
+// with a `|` holds the singular and plural forms, chosen by the `count` parameter.
+
+export type { MessageKey, Messages };
+
+export type Locale = 'es' | 'en' | 'ca' | 'eu' | 'gl';
+
+export const LOCALES: Record<Locale, string> = {
+  es: 'Español',
+  en: 'English',
+  ca: 'Català',
+  eu: 'Euskara',
+  gl: 'Galego'
+};
+
+export const DEFAULT_LOCALE: Locale = 'es';
+
+// BCP 47 tags for Intl, all with Spain as the region
+const LOCALE_TAGS: Record<Locale, string> = {
+  es: 'es-ES',
+  en: 'en-GB',
+  ca: 'ca-ES',
+  eu: 'eu-ES',
+  gl: 'gl-ES'
+};
+
+const CATALOGS: Record<Locale, Messages> = { es, en, ca, eu, gl };
+
+/** A message to be translated where it is shown, e.g. a warning produced outside the UI */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+/** Nested messages are translated too, e.g. the reason inside a reconnection notice */
+export type MessageParams = Record<string, string | number | Message>;
+
+const LOCALE_KEY = 'geocoder.locale';
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && value in LOCALES;
+
+// Saved choice first, then the browser languages, then Spanish
+export const loadLocale = (): Locale => {
+  const stored = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(stored)) return stored;
+  const preferred = navigator.languages.map(tag => tag.slice(0, 2).toLowerCase()).find(isLocale);
+  return preferred ?? DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(LOCALE_KEY, locale);
+};
+
+export const createTranslator = (locale: Locale) => {
+  const tag = LOCALE_TAGS[locale];
+  const numbers = new Intl.NumberFormat(tag);
+  const plurals = new Intl.PluralRules(tag);
+  const unit = (name: string, digits = 0) =>
+    new Intl.NumberFormat(tag, { style: 'unit', unit: name, unitDisplay: 'short', maximumFractionDigits: digits });
+  const bytes = unit('byte');
+  const kilobytes = unit('kilobyte', 1);
+  const megabytes = unit('megabyte', 1);
+  const minutes = unit('minute');
+  const seconds = unit('second');
+
+  const number = (value: number) => numbers.format(value);
+
+  const t = (key: MessageKey, params: MessageParams = {}): string => {
+    let text = CATALOGS[locale][key] ?? es[key];
+    if (text.includes('|')) {
+      const [one, other] = text.split('|');
+      text = typeof params.count === 'number' && plurals.select(params.count) === 'one' ? one : other;
+    }
+    return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      if (typeof value === 'object') return t(value.key, value.params);
+      return typeof value === 'number' ? number(value) : value;
+    });
+  };
+
+  // Plain strings are text that was never in the catalog and are shown as they are
+  const translate = (message: Message | string) =>
+    typeof message === 'string' ? message : t(message.key, message.params);
+
+  return {
+    locale,
+    t,
+    translate,
+    /** Text of a caught error in this language */
+    describeError: (err: unknown) => (err === undefined || err === null ? t('common.unknownError') : translate(errorMessage(err))),
+    number,
+    percent: (ratio: number) => new Intl.NumberFormat(tag, { style: 'percent' }).format(ratio),
+    fileSize: (size: number) => {
+      if (size < 1024) return bytes.format(size);
+      if (size < 1024 * 1024) return kilobytes.format(size / 1024);
+      return megabytes.format(size / (1024 * 1024));
+    },
+    duration: (totalSeconds: number) => {
+      const mins = Math.floor(totalSeconds / 60);
+      const secs = totalSeconds % 60;
+      return mins > 0 ? `${minutes.format(mins)} ${seconds.format(secs)}` : seconds.format(secs);
+    },
+    time: (date: Date | number) =>
+      new Date(date).toLocaleTimeString(tag, { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    dateTime: (date: Date | number) => new Date(date).toLocaleString(tag),
+    compare: new Intl.Collator(tag, { numeric: true }).compare
+  };
+};
+
+export type Translator = ReturnType<typeof createTranslator>;
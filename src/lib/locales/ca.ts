@@ -0,0 +1,325 @@
+import type { Messages } from './es';
+
+export const ca: Messages = {
+  'app.title': 'Geocoder CP',
+  'app.documentTitle': 'Geocoder CP - Codis Postals Espanya',
+  'app.subtitle': 'Obtenir els codis postals de les adreces d\'un Excel',
+  'app.badge': 'API GeoAPI.es',
+  'app.poweredBy': 'Geocoder CP - Amb la tecnologia de',
+  'app.language': 'Idioma',
+
+  'common.cancel': 'Cancel·la',
+  'common.column': '(columna {n})',
+  'common.unknownError': 'Error desconegut',
+  'common.file': 'Fitxer',
+  'common.status': 'Estat',
+  'common.duration': 'Durada',
+  'common.municipality': 'Municipi',
+  'common.address': 'Adreça',
+  'common.province': 'Província',
+
+  'api.title': 'Configuració de l\'API',
+  'api.edit': 'Edita',
+  'api.new': 'Nou',
+  'api.verify': 'Verifica',
+  'api.diagnostics': 'Diagnòstic',
+  'api.status.online': 'Connectat',
+  'api.status.checking': 'Verificant...',
+  'api.status.unauthorized': 'Credencials no vàlides',
+  'api.status.offline': 'Desconnectat',
+  'api.unauthorized': 'L\'API ha rebutjat les credencials del perfil "{name}". Revisa la clau o el testimoni a Edita.',
+  'api.degraded': 'L\'API sembla degradada: {warnings}. El processament pot ser lent o fallar.',
+  'api.offlineDemo': 'L\'API no respon. Pots provar l\'aplicació amb el backend de demostració, que funciona sense xarxa.',
+  'api.useDemo': 'Fes servir el mode demo',
+
+  'mode.batch': 'Processa un fitxer',
+  'mode.single': 'Adreça individual',
+  'mode.history': 'Historial',
+  'mode.compare': 'Comparar',
+
+  'upload.title': 'Fitxer Excel',
+  'upload.drop': 'Arrossega els fitxers aquí o',
+  'upload.dropClick': 'fes clic per seleccionar-los',
+  'upload.formats': 'Formats admesos: {formats}',
+  'upload.multiple': 'Diversos fitxers alhora es processen en cua',
+  'upload.reading': 'Llegint els fulls del fitxer...',
+  'upload.encoding': 'Codificació',
+  'upload.delimiter': 'Separador',
+  'upload.detect': 'Detecta',
+  'upload.delimiter.semicolon': 'Punt i coma (;)',
+  'upload.delimiter.comma': 'Coma (,)',
+  'upload.delimiter.tab': 'Tabulador',
+  'upload.delimiter.pipe': 'Barra vertical (|)',
+  'upload.noAddressColumn': 'No s\'ha trobat cap columna d\'adreces a {file}',
+  'upload.sample': 'Carrega el llibre d\'exemple',
+  'upload.unreadable': 'No s\'ha pogut llegir el fitxer {file}',
+  'upload.sourceUnavailable': 'El fitxer original no està disponible',
+
+  'preview.direccion': 'Columna adreça',
+  'preview.municipio': 'Columna municipi',
+  'preview.provincia': 'Columna província (opcional)',
+  'preview.noProvince': 'Sense província',
+  'preview.showing': 'Es mostren {shown} de {total} files del full "{sheet}"',
+
+  'process.start': 'Processa el fitxer',
+  'process.running': 'Processant...',
+  'process.resume': 'Reprèn des de la fila {row}',
+  'process.runningRows': 'Processant... ({count} files)',
+  'process.preparing': 'Preparant la baixada... {progress}',
+  'process.interrupted': 'Interromput ({count} files processades)',
+  'process.completed': 'Completat',
+  'process.elapsed': 'Temps: {time}',
+  'process.error': 'Error',
+  'process.closed': 'La connexió s\'ha tancat abans de completar el processament',
+  'process.prepareFailed': 'No s\'ha pogut preparar la baixada: {error}',
+
+  'throughput.rate': '{rate} files/s',
+  'throughput.recent': 'Darrers {seconds} s: {rate} files/s',
+  'throughput.eta': 'Queden {time}',
+  'throughput.estimating': 'Calculant el temps restant...',
+
+  'notify.toggle': 'Avisa en acabar',
+  'notify.completed': '{file} processat',
+  'notify.failed': '{file} no s\'ha completat',
+  'notify.denied': 'El navegador no permet mostrar notificacions',
+
+  'log.title': 'Processament en temps real',
+  'log.stats': '{found} trobats · {suspect} dubtosos · {notFound} no trobats',
+  'log.badge.info': 'INFO',
+  'log.badge.found': 'CP {cp}',
+  'log.badge.suspect': 'DUBTÓS CP {cp}',
+  'log.badge.notFound': 'NO TROBAT',
+  'log.badge.error': 'ERROR',
+  'log.badge.complete': 'COMPLETAT',
+  'log.starting': 'S\'inicia el processament de {file}...',
+  'log.resuming': 'Es reprèn {file} després de la fila {row}...',
+  'log.queued': 'Processament en cua de {file} (full {sheet})',
+  'log.degraded': 'Avís: l\'API sembla degradada ({warnings})',
+  'log.fileLoaded': 'Fitxer carregat: {total} files detectades',
+  'log.completed': 'Completat en {elapsed}',
+  'log.cancelled': 'Processament cancel·lat per l\'usuari',
+  'log.error': 'Error: {error}',
+  'log.protocolError': 'Error de protocol: {error}',
+  'log.reconnect': 'Connexió interrompuda ({reason}). Reintent {attempt}/{max} en {seconds} s',
+  'log.reconnectFrom': 'Connexió interrompuda ({reason}). Reintent {attempt}/{max} en {seconds} s, continuant després de l\'esdeveniment {id}',
+  'log.retrying': 'Es reintenta {count} fila corregida...|Es reintenten {count} files corregides...',
+  'log.corrections': 'Correccions: {resolved} de {count} files resoltes',
+  'log.deduped': '{rows} files amb {pairs} adreces diferents: {cached} a la memòria cau, {pending} per geocodificar',
+
+  'results.title': 'Resultats',
+  'results.processed': 'Processades',
+  'results.found': 'Trobats',
+  'results.suspect': 'Dubtosos',
+  'results.notFound': 'No trobats',
+  'results.errors': 'Errors',
+  'results.download': 'Baixa {format}',
+  'results.exportReport': 'Exporta l\'informe',
+  'results.cached': '{count} fila servida des de la memòria cau local|{count} files servides des de la memòria cau local',
+
+  'report.scope.not_found': 'Només no trobades',
+  'report.scope.suspect': 'Només dubtoses',
+  'report.scope.errors': 'Només errors',
+  'report.scope.all': 'Totes les files',
+
+  'status.found': 'Trobat',
+  'status.suspect': 'Dubtós',
+  'status.not_found': 'No trobat',
+  'status.error': 'Error',
+  'plausibility.digits': 'El CP "{cp}" no té cinc dígits',
+  'plausibility.prefix': 'El prefix {prefix} no correspon a cap província',
+  'plausibility.province': 'El CP és de {province} però {municipio} és a {provinces}',
+
+  'table.search': 'Cerca per fila, adreça, municipi o CP',
+  'table.allStatuses': 'Tots els estats',
+  'table.retry': 'Reintenta {count} fila corregida|Reintenta {count} files corregides',
+  'table.row': 'Fila',
+  'table.cp': 'CP',
+  'table.corrected': 'Corregit',
+  'table.pending': 'Pendent',
+  'table.empty': 'Cap fila coincideix amb la cerca',
+  'table.count': '{visible} de {total} files',
+  'table.previous': 'Anterior',
+  'table.next': 'Següent',
+  'table.detailTitle': 'Fila {row} · dades originals',
+  'table.correctedAddress': 'Adreça corregida',
+  'table.saveCorrection': 'Desa la correcció',
+  'table.discard': 'Descarta',
+  'table.loading': 'Carregant...',
+  'table.sourceError': 'No s\'han pogut llegir les dades originals del fitxer',
+
+  'lookup.title': 'Consulta individual',
+  'lookup.provinceOptional': 'Província (opcional)',
+  'lookup.searching': 'Cercant...',
+  'lookup.search': 'Cerca el CP',
+  'lookup.noResult': 'Sense resultat',
+  'lookup.alternatives': 'Alternatives',
+  'lookup.recent': 'Cerques recents',
+  'lookup.copy': 'Copia',
+  'lookup.copied': 'Copiat',
+  'lookup.clear': 'Neteja',
+
+  'breakdown.title': 'Desglossament geogràfic',
+  'breakdown.byProvince': 'CP trobats per província',
+  'breakdown.noneFound': 'No s\'ha trobat cap CP',
+  'breakdown.unknownPrefix': '{count} CP amb un prefix de província no reconegut|{count} CP amb un prefix de província no reconegut',
+  'breakdown.unresolved': 'Municipis amb més files sense resoldre',
+  'breakdown.allResolved': 'Totes les files tenen CP',
+  'breakdown.rate': 'Taxa d\'encert per municipi',
+  'breakdown.rows': 'Files',
+  'breakdown.rateColumn': 'Taxa',
+  'breakdown.showing': 'Es mostren els {limit} municipis amb més files de {total}',
+  'breakdown.noMunicipality': '(sense municipi)',
+
+  'history.title': 'Historial de treballs',
+  'history.maxJobs': 'Màxim de treballs',
+  'history.maxSpace': 'Espai màxim (MB)',
+  'history.usage': '{count} treballs · {size} utilitzats',
+  'history.unavailable': 'L\'historial no està disponible en aquest navegador',
+  'history.missing': 'El treball ja no és a l\'historial',
+  'history.empty': 'Encara no hi ha treballs desats',
+  'history.started': 'Inici',
+  'history.result': 'Resultat',
+  'history.size': 'Mida',
+  'history.foundOf': '{found} / {total} trobats',
+  'history.open': 'Obre',
+  'history.download': 'Baixa',
+  'history.log': 'Registre',
+  'history.delete': 'Elimina',
+  'history.noOutput': 'Aquest treball no té fitxer de resultats',
+  'history.status.completed': 'Completat',
+  'history.status.interrupted': 'Interromput',
+  'history.status.failed': 'Fallit',
+  'history.logColumn.time': 'Hora',
+  'history.logColumn.type': 'Tipus',
+  'history.logColumn.message': 'Missatge',
+
+  'cache.enabled': 'Reutilitza les adreces ja geocodificades (memòria cau local)',
+  'cache.maxAge': 'Caducitat',
+  'cache.days': '{count} dia|{count} dies',
+  'cache.entries': '{count} adreça desada|{count} adreces desades',
+  'cache.clear': 'Buida la memòria cau',
+
+  'compare.title': 'Comparar execucions',
+  'compare.hint': 'Tria dues execucions del mateix fitxer per veure quines files han canviat',
+  'compare.before': 'Primera execució',
+  'compare.after': 'Segona execució',
+  'compare.choose': 'Tria una execució...',
+  'compare.current': 'Execució actual ({name})',
+  'compare.upload': 'Puja un resultat o informe',
+  'compare.rows': '{count} fila|{count} files',
+  'compare.partial': 'Informe filtrat: només es comparen les files que inclou',
+  'compare.partialStats': 'Una de les execucions és un informe filtrat: els seus totals només compten les files que inclou, així que no es mostren les diferències',
+  'compare.change': 'Canvi',
+  'compare.beforeShort': 'Abans',
+  'compare.afterShort': 'Després',
+  'compare.delta': 'Diferència',
+  'compare.all': 'Tots els canvis',
+  'compare.kind.cp_changed': 'CP diferent',
+  'compare.kind.now_found': 'Ara trobades',
+  'compare.kind.now_missing': 'Ja no trobades',
+  'compare.kind.only_before': 'Només a la primera',
+  'compare.kind.only_after': 'Només a la segona',
+  'compare.noChanges': 'Les dues execucions donen el mateix resultat a totes les files',
+  'compare.export': 'Exporta la comparació',
+  'compare.error.status': 'Estat desconegut a la fila {row}: {status}',
+  'compare.error.json': 'L\'informe JSON no és vàlid',
+  'compare.error.notReport': 'El fitxer JSON no és un informe de files',
+  'compare.error.noCp': 'El fitxer no té columna de CP',
+
+  'queue.title': 'Cua de fitxers',
+  'queue.status.pending': 'En cua',
+  'queue.status.processing': 'Processant',
+  'queue.status.done': 'Completat',
+  'queue.status.error': 'Error',
+  'queue.status.cancelled': 'Cancel·lat',
+  'queue.parallel': 'Fitxers en paral·lel',
+  'queue.sequential': '1 (seqüencial)',
+  'queue.summary': '{count} fitxers · {done} completats',
+  'queue.failed': '{count} amb error',
+  'queue.progress': 'Progrés',
+  'queue.totalRows': 'Total de files',
+  'queue.process': 'Processa la cua',
+  'queue.processPending': 'Processa els pendents',
+  'queue.zipping': 'Preparant el ZIP...',
+  'queue.zip': 'Baixa el ZIP',
+  'queue.clear': 'Buida la cua',
+
+  'profile.name': 'Nom',
+  'profile.baseUrl': 'URL base',
+  'profile.invalidUrl': 'L\'URL ha de començar per http:// o https://',
+  'profile.invalidHeaderName': 'Nom de capçalera no vàlid: fes servir només lletres sense accents, números i guions, sense espais',
+  'profile.invalidHeaderValue': 'El valor només pot tenir caràcters ASCII imprimibles, sense accents ni salts de línia',
+  'profile.backend': 'Backend',
+  'profile.backend.http': 'API remota',
+  'profile.backend.demo': 'Demo (simulat al navegador)',
+  'profile.demo.speed': 'Velocitat',
+  'profile.demo.rowsPerSecond': '{count} fila/s|{count} files/s',
+  'profile.demo.errorRate': 'Files amb error',
+  'profile.demo.notFoundRate': 'Files no trobades',
+  'profile.demo.hint': 'El backend de demostració respon des del navegador amb una petita taula de CP; cap dada surt de l\'equip',
+  'profile.auth': 'Autenticació',
+  'profile.auth.none': 'Sense autenticació',
+  'profile.auth.apiKey': 'Clau d\'API',
+  'profile.auth.bearer': 'Testimoni Bearer',
+  'profile.token': 'Testimoni',
+  'profile.key': 'Clau',
+  'profile.show': 'Mostra',
+  'profile.hide': 'Amaga',
+  'profile.keyHeader': 'Capçalera de la clau',
+  'profile.headers': 'Capçaleres addicionals',
+  'profile.headerValue': 'Valor',
+  'profile.removeHeader': 'Treu',
+  'profile.addHeader': 'Afegeix una capçalera',
+  'profile.localOnly': 'Els perfils i les seves credencials només es desen en aquest navegador',
+  'profile.delete': 'Elimina el perfil',
+  'profile.save': 'Desa',
+
+  'diagnostics.poll.off': 'Sense sondeig',
+  'diagnostics.poll.30s': 'Cada 30 s',
+  'diagnostics.poll.1m': 'Cada minut',
+  'diagnostics.poll.5m': 'Cada 5 min',
+  'diagnostics.checking': 'Comprovant...',
+  'diagnostics.checkNow': 'Comprova ara',
+  'diagnostics.lastCheck': 'Darrera comprovació: {time}',
+  'diagnostics.latency': 'Latència',
+  'diagnostics.average': 'Mitjana: {ms} ms',
+  'diagnostics.version': 'Versió',
+  'diagnostics.history': 'Historial de latència',
+  'diagnostics.endpoint': 'Endpoint',
+  'diagnostics.function': 'Funció',
+  'diagnostics.optional': '{label} (opcional)',
+  'diagnostics.serverInfo': 'Informació del servidor',
+  'diagnostics.probe.stream': 'Processament per lots',
+  'diagnostics.probe.lookup': 'Cerca individual',
+  'diagnostics.state.available': 'Disponible',
+  'diagnostics.state.missing': 'No existeix',
+  'diagnostics.state.failing': 'Amb errors',
+  'diagnostics.state.unreachable': 'Sense resposta',
+  'diagnostics.warn.httpError': 'L\'API respon amb l\'error {status}',
+  'diagnostics.warn.noResponse': 'L\'API no respon',
+  'diagnostics.warn.latency': 'Latència alta ({ms} ms)',
+  'diagnostics.warn.missing': 'L\'endpoint {path} no existeix en aquesta API',
+  'diagnostics.warn.unavailable': 'L\'endpoint {path} no està disponible',
+  'diagnostics.warn.unavailableStatus': 'L\'endpoint {path} no està disponible ({status})',
+
+  'error.http401': 'L\'API ha rebutjat les credencials (401). Revisa la clau o el token del perfil',
+  'error.http403': 'Accés denegat (403). El perfil no té permís per fer servir aquesta API',
+  'error.invalidHeader': 'La capçalera "{name}" del perfil no és vàlida. Revisa\'n el nom i el valor a Edita',
+  'error.httpStatus': 'Error {status}: {statusText}',
+  'error.network': 'error de xarxa',
+  'error.noBody': 'No s\'ha pogut llegir la resposta',
+  'error.retriesExhausted': 'No s\'ha pogut completar la connexió després de {count} reintent ({reason})|No s\'ha pogut completar la connexió després de {count} reintents ({reason})',
+  'error.streamTimeout': 'No s\'han rebut dades en {seconds} s',
+  'error.decodeResult': 'No s\'ha pogut descodificar el resultat: {error}',
+  'error.worker': 'Error en llegir el flux d\'esdeveniments',
+  'error.noAddressColumn': 'No s\'ha trobat cap columna d\'adreces',
+  'error.noResult': 'L\'API no ha retornat cap resultat',
+  'protocol.notNumber': 'el camp "{field}" ha de ser un nombre',
+  'protocol.notText': 'el camp "{field}" ha de ser text',
+  'protocol.stats': 'el camp "stats" falta o no és vàlid',
+  'protocol.notObject': 'l\'esdeveniment no és un objecte JSON',
+  'protocol.unknownStatus': 'estat de fila desconegut: {status}',
+  'protocol.unknownType': 'tipus d\'esdeveniment desconegut: {type}',
+  'protocol.invalidJson': 'JSON no vàlid',
+  'protocol.responseNotObject': 'la resposta no és un objecte JSON'
+};
@@ -0,0 +1,325 @@
+import type { Messages } from './es';
+
+export const en: Messages = {
+  'app.title': 'Geocoder CP',
+  'app.documentTitle': 'Geocoder CP - Spanish Postal Codes',
+  'app.subtitle': 'Get postal codes for the addresses in a spreadsheet',
+  'app.badge': 'GeoAPI.es API',
+  'app.poweredBy': 'Geocoder CP - Powered by',
+  'app.language': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.column': '(column {n})',
+  'common.unknownError': 'Unknown error',
+  'common.file': 'File',
+  'common.status': 'Status',
+  'common.duration': 'Duration',
+  'common.municipality': 'Municipality',
+  'common.address': 'Address',
+  'common.province': 'Province',
+
+  'api.title': 'API settings',
+  'api.edit': 'Edit',
+  'api.new': 'New',
+  'api.verify': 'Check',
+  'api.diagnostics': 'Diagnostics',
+  'api.status.online': 'Connected',
+  'api.status.checking': 'Checking...',
+  'api.status.unauthorized': 'Invalid credentials',
+  'api.status.offline': 'Disconnected',
+  'api.unauthorized': 'The API rejected the credentials of the "{name}" profile. Check the key or token under Edit.',
+  'api.degraded': 'The API looks degraded: {warnings}. Processing may be slow or fail.',
+  'api.offlineDemo': 'The API is not responding. You can try the app with the demo backend, which works without a network.',
+  'api.useDemo': 'Use demo mode',
+
+  'mode.batch': 'Process file',
+  'mode.single': 'Single address',
+  'mode.history': 'History',
+  'mode.compare': 'Compare',
+
+  'upload.title': 'Excel file',
+  'upload.drop': 'Drop your files here or',
+  'upload.dropClick': 'click to browse',
+  'upload.formats': 'Supported formats: {formats}',
+  'upload.multiple': 'Several files at once are processed as a queue',
+  'upload.reading': 'Reading the sheets of the file...',
+  'upload.encoding': 'Encoding',
+  'upload.delimiter': 'Delimiter',
+  'upload.detect': 'Detect',
+  'upload.delimiter.semicolon': 'Semicolon (;)',
+  'upload.delimiter.comma': 'Comma (,)',
+  'upload.delimiter.tab': 'Tab',
+  'upload.delimiter.pipe': 'Vertical bar (|)',
+  'upload.noAddressColumn': 'No address column was found in {file}',
+  'upload.sample': 'Load sample workbook',
+  'upload.unreadable': 'Could not read the file {file}',
+  'upload.sourceUnavailable': 'The original file is not available',
+
+  'preview.direccion': 'Address column',
+  'preview.municipio': 'Municipality column',
+  'preview.provincia': 'Province column (optional)',
+  'preview.noProvince': 'No province',
+  'preview.showing': 'Showing {shown} of {total} rows of sheet "{sheet}"',
+
+  'process.start': 'Process file',
+  'process.running': 'Processing...',
+  'process.resume': 'Resume from row {row}',
+  'process.runningRows': 'Processing... ({count} rows)',
+  'process.preparing': 'Preparing download... {progress}',
+  'process.interrupted': 'Interrupted ({count} rows processed)',
+  'process.completed': 'Completed',
+  'process.elapsed': 'Time: {time}',
+  'process.error': 'Error',
+  'process.closed': 'The connection closed before processing finished',
+  'process.prepareFailed': 'Could not prepare the download: {error}',
+
+  'throughput.rate': '{rate} rows/s',
+  'throughput.recent': 'Last {seconds} s: {rate} rows/s',
+  'throughput.eta': '{time} left',
+  'throughput.estimating': 'Estimating time left...',
+
+  'notify.toggle': 'Notify me when done',
+  'notify.completed': '{file} processed',
+  'notify.failed': '{file} did not complete',
+  'notify.denied': 'The browser does not allow notifications',
+
+  'log.title': 'Live processing',
+  'log.stats': '{found} found · {suspect} suspect · {notFound} not found',
+  'log.badge.info': 'INFO',
+  'log.badge.found': 'PC {cp}',
+  'log.badge.suspect': 'SUSPECT PC {cp}',
+  'log.badge.notFound': 'NOT FOUND',
+  'log.badge.error': 'ERROR',
+  'log.badge.complete': 'DONE',
+  'log.starting': 'Starting to process {file}...',
+  'log.resuming': 'Resuming {file} after row {row}...',
+  'log.queued': 'Queued processing of {file} (sheet {sheet})',
+  'log.degraded': 'Warning: the API looks degraded ({warnings})',
+  'log.fileLoaded': 'File loaded: {total} rows detected',
+  'log.completed': 'Completed in {elapsed}',
+  'log.cancelled': 'Processing cancelled by the user',
+  'log.error': 'Error: {error}',
+  'log.protocolError': 'Protocol error: {error}',
+  'log.reconnect': 'Connection lost ({reason}). Retry {attempt}/{max} in {seconds} s',
+  'log.reconnectFrom': 'Connection lost ({reason}). Retry {attempt}/{max} in {seconds} s, continuing after event {id}',
+  'log.retrying': 'Retrying {count} corrected row...|Retrying {count} corrected rows...',
+  'log.corrections': 'Corrections: {resolved} of {count} rows resolved',
+  'log.deduped': '{rows} rows with {pairs} distinct addresses: {cached} cached, {pending} to geocode',
+
+  'results.title': 'Results',
+  'results.processed': 'Processed',
+  'results.found': 'Found',
+  'results.suspect': 'Suspect',
+  'results.notFound': 'Not found',
+  'results.errors': 'Errors',
+  'results.download': 'Download {format}',
+  'results.exportReport': 'Export report',
+  'results.cached': '{count} row served from the local cache|{count} rows served from the local cache',
+
+  'report.scope.not_found': 'Not found only',
+  'report.scope.suspect': 'Suspect only',
+  'report.scope.errors': 'Errors only',
+  'report.scope.all': 'All rows',
+
+  'status.found': 'Found',
+  'status.suspect': 'Suspect',
+  'status.not_found': 'Not found',
+  'status.error': 'Error',
+  'plausibility.digits': 'The CP "{cp}" does not have five digits',
+  'plausibility.prefix': 'The prefix {prefix} does not belong to any province',
+  'plausibility.province': 'The CP is in {province} but {municipio} is in {provinces}',
+
+  'table.search': 'Search by row, address, municipality or postal code',
+  'table.allStatuses': 'All statuses',
+  'table.retry': 'Retry {count} corrected row|Retry {count} corrected rows',
+  'table.row': 'Row',
+  'table.cp': 'PC',
+  'table.corrected': 'Corrected',
+  'table.pending': 'Pending',
+  'table.empty': 'No rows match the search',
+  'table.count': '{visible} of {total} rows',
+  'table.previous': 'Previous',
+  'table.next': 'Next',
+  'table.detailTitle': 'Row {row} · original data',
+  'table.correctedAddress': 'Corrected address',
+  'table.saveCorrection': 'Save correction',
+  'table.discard': 'Discard',
+  'table.loading': 'Loading...',
+  'table.sourceError': 'Could not read the original data of the file',
+
+  'lookup.title': 'Single lookup',
+  'lookup.provinceOptional': 'Province (optional)',
+  'lookup.searching': 'Searching...',
+  'lookup.search': 'Find postal code',
+  'lookup.noResult': 'No result',
+  'lookup.alternatives': 'Alternatives',
+  'lookup.recent': 'Recent searches',
+  'lookup.copy': 'Copy',
+  'lookup.copied': 'Copied',
+  'lookup.clear': 'Clear',
+
+  'breakdown.title': 'Geographic breakdown',
+  'breakdown.byProvince': 'Postal codes found by province',
+  'breakdown.noneFound': 'No postal code was found',
+  'breakdown.unknownPrefix': '{count} postal code with an unknown province prefix|{count} postal codes with an unknown province prefix',
+  'breakdown.unresolved': 'Municipalities with the most unresolved rows',
+  'breakdown.allResolved': 'Every row has a postal code',
+  'breakdown.rate': 'Hit rate by municipality',
+  'breakdown.rows': 'Rows',
+  'breakdown.rateColumn': 'Rate',
+  'breakdown.showing': 'Showing the {limit} municipalities with the most rows out of {total}',
+  'breakdown.noMunicipality': '(no municipality)',
+
+  'history.title': 'Job history',
+  'history.maxJobs': 'Maximum jobs',
+  'history.maxSpace': 'Maximum space (MB)',
+  'history.usage': '{count} jobs · {size} used',
+  'history.unavailable': 'History is not available in this browser',
+  'history.missing': 'The job is no longer in the history',
+  'history.empty': 'No jobs saved yet',
+  'history.started': 'Started',
+  'history.result': 'Result',
+  'history.size': 'Size',
+  'history.foundOf': '{found} / {total} found',
+  'history.open': 'Open',
+  'history.download': 'Download',
+  'history.log': 'Log',
+  'history.delete': 'Delete',
+  'history.noOutput': 'This job has no result file',
+  'history.status.completed': 'Completed',
+  'history.status.interrupted': 'Interrupted',
+  'history.status.failed': 'Failed',
+  'history.logColumn.time': 'Time',
+  'history.logColumn.type': 'Type',
+  'history.logColumn.message': 'Message',
+
+  'cache.enabled': 'Reuse addresses already geocoded (local cache)',
+  'cache.maxAge': 'Expires after',
+  'cache.days': '{count} day|{count} days',
+  'cache.entries': '{count} saved address|{count} saved addresses',
+  'cache.clear': 'Clear cache',
+
+  'compare.title': 'Compare runs',
+  'compare.hint': 'Pick two runs of the same file to see which rows changed',
+  'compare.before': 'First run',
+  'compare.after': 'Second run',
+  'compare.choose': 'Choose a run...',
+  'compare.current': 'Current run ({name})',
+  'compare.upload': 'Upload result or report',
+  'compare.rows': '{count} row|{count} rows',
+  'compare.partial': 'Filtered report: only the rows it includes are compared',
+  'compare.partialStats': 'One of the runs is a filtered report: its totals only count the rows it includes, so the differences are not shown',
+  'compare.change': 'Change',
+  'compare.beforeShort': 'Before',
+  'compare.afterShort': 'After',
+  'compare.delta': 'Difference',
+  'compare.all': 'All changes',
+  'compare.kind.cp_changed': 'Different CP',
+  'compare.kind.now_found': 'Now found',
+  'compare.kind.now_missing': 'No longer found',
+  'compare.kind.only_before': 'Only in the first',
+  'compare.kind.only_after': 'Only in the second',
+  'compare.noChanges': 'Both runs give the same result for every row',
+  'compare.export': 'Export comparison',
+  'compare.error.status': 'Unknown status in row {row}: {status}',
+  'compare.error.json': 'The JSON report is not valid',
+  'compare.error.notReport': 'The JSON file is not a row report',
+  'compare.error.noCp': 'The file has no CP column',
+
+  'queue.title': 'File queue',
+  'queue.status.pending': 'Queued',
+  'queue.status.processing': 'Processing',
+  'queue.status.done': 'Completed',
+  'queue.status.error': 'Error',
+  'queue.status.cancelled': 'Cancelled',
+  'queue.parallel': 'Files in parallel',
+  'queue.sequential': '1 (sequential)',
+  'queue.summary': '{count} files · {done} completed',
+  'queue.failed': '{count} failed',
+  'queue.progress': 'Progress',
+  'queue.totalRows': 'Total rows',
+  'queue.process': 'Process queue',
+  'queue.processPending': 'Process pending',
+  'queue.zipping': 'Preparing ZIP...',
+  'queue.zip': 'Download ZIP',
+  'queue.clear': 'Clear queue',
+
+  'profile.name': 'Name',
+  'profile.baseUrl': 'Base URL',
+  'profile.invalidUrl': 'The URL must start with http:// or https://',
+  'profile.invalidHeaderName': 'Invalid header name: use only letters without accents, digits and hyphens, no spaces',
+  'profile.invalidHeaderValue': 'The value can only contain printable ASCII characters, without accents or line breaks',
+  'profile.backend': 'Backend',
+  'profile.backend.http': 'Remote API',
+  'profile.backend.demo': 'Demo (simulated in the browser)',
+  'profile.demo.speed': 'Speed',
+  'profile.demo.rowsPerSecond': '{count} row/s|{count} rows/s',
+  'profile.demo.errorRate': 'Rows with errors',
+  'profile.demo.notFoundRate': 'Rows not found',
+  'profile.demo.hint': 'The demo backend answers from the browser with a small CP table; no data leaves this computer',
+  'profile.auth': 'Authentication',
+  'profile.auth.none': 'No authentication',
+  'profile.auth.apiKey': 'API key',
+  'profile.auth.bearer': 'Bearer token',
+  'profile.token': 'Token',
+  'profile.key': 'Key',
+  'profile.show': 'Show',
+  'profile.hide': 'Hide',
+  'profile.keyHeader': 'Key header',
+  'profile.headers': 'Extra headers',
+  'profile.headerValue': 'Value',
+  'profile.removeHeader': 'Remove',
+  'profile.addHeader': 'Add header',
+  'profile.localOnly': 'Profiles and their credentials are only stored in this browser',
+  'profile.delete': 'Delete profile',
+  'profile.save': 'Save',
+
+  'diagnostics.poll.off': 'No polling',
+  'diagnostics.poll.30s': 'Every 30 s',
+  'diagnostics.poll.1m': 'Every minute',
+  'diagnostics.poll.5m': 'Every 5 min',
+  'diagnostics.checking': 'Checking...',
+  'diagnostics.checkNow': 'Check now',
+  'diagnostics.lastCheck': 'Last check: {time}',
+  'diagnostics.latency': 'Latency',
+  'diagnostics.average': 'Average: {ms} ms',
+  'diagnostics.version': 'Version',
+  'diagnostics.history': 'Latency history',
+  'diagnostics.endpoint': 'Endpoint',
+  'diagnostics.function': 'Purpose',
+  'diagnostics.optional': '{label} (optional)',
+  'diagnostics.serverInfo': 'Server information',
+  'diagnostics.probe.stream': 'Batch processing',
+  'diagnostics.probe.lookup': 'Single lookup',
+  'diagnostics.state.available': 'Available',
+  'diagnostics.state.missing': 'Missing',
+  'diagnostics.state.failing': 'Failing',
+  'diagnostics.state.unreachable': 'No response',
+  'diagnostics.warn.httpError': 'The API answers with error {status}',
+  'diagnostics.warn.noResponse': 'The API does not respond',
+  'diagnostics.warn.latency': 'High latency ({ms} ms)',
+  'diagnostics.warn.missing': 'The endpoint {path} does not exist on this API',
+  'diagnostics.warn.unavailable': 'The endpoint {path} is not available',
+  'diagnostics.warn.unavailableStatus': 'The endpoint {path} is not available ({status})',
+
+  'error.http401': 'The API rejected the credentials (401). Check the key or token of the profile',
+  'error.http403': 'Access denied (403). The profile is not allowed to use this API',
+  'error.invalidHeader': 'The profile header "{name}" is not valid. Check its name and value in Edit',
+  'error.httpStatus': 'Error {status}: {statusText}',
+  'error.network': 'network error',
+  'error.noBody': 'The response could not be read',
+  'error.retriesExhausted': 'Could not complete the connection after {count} retry ({reason})|Could not complete the connection after {count} retries ({reason})',
+  'error.streamTimeout': 'No data received for {seconds} s',
+  'error.decodeResult': 'Could not decode the result: {error}',
+  'error.worker': 'Error reading the event stream',
+  'error.noAddressColumn': 'No address column was found',
+  'error.noResult': 'The API returned no result',
+  'protocol.notNumber': 'the "{field}" field must be a number',
+  'protocol.notText': 'the "{field}" field must be text',
+  'protocol.stats': 'the "stats" field is missing or invalid',
+  'protocol.notObject': 'the event is not a JSON object',
+  'protocol.unknownStatus': 'unknown row status: {status}',
+  'protocol.unknownType': 'unknown event type: {type}',
+  'protocol.invalidJson': 'invalid JSON',
+  'protocol.responseNotObject': 'the response is not a JSON object'
+};
@@ -0,0 +1,328 @@
+// Spanish, the reference catalog: every other locale must define the same keys
+
+export const es = {
+  'app.title': 'Geocoder CP',
+  'app.documentTitle': 'Geocoder CP - Codigos Postales España',
+  'app.subtitle': 'Obtener Codigos Postales de direcciones en Excel',
+  'app.badge': 'API GeoAPI.es',
+  'app.poweredBy': 'Geocoder CP - Powered by',
+  'app.language': 'Idioma',
+
+  'common.cancel': 'Cancelar',
+  'common.column': '(columna {n})',
+  'common.unknownError': 'Error desconocido',
+  'common.file': 'Archivo',
+  'common.status': 'Estado',
+  'common.duration': 'Duracion',
+  'common.municipality': 'Municipio',
+  'common.address': 'Direccion',
+  'common.province': 'Provincia',
+
+  'api.title': 'Configuracion de API',
+  'api.edit': 'Editar',
+  'api.new': 'Nuevo',
+  'api.verify': 'Verificar',
+  'api.diagnostics': 'Diagnostico',
+  'api.status.online': 'Conectado',
+  'api.status.checking': 'Verificando...',
+  'api.status.unauthorized': 'Credenciales no validas',
+  'api.status.offline': 'Desconectado',
+  'api.unauthorized': 'La API ha rechazado las credenciales del perfil "{name}". Revisa la clave o el token en Editar.',
+  'api.degraded': 'La API parece degradada: {warnings}. El procesamiento puede ser lento o fallar.',
+  'api.offlineDemo': 'La API no responde. Puedes probar la aplicacion con el backend de demostracion, que funciona sin red.',
+  'api.useDemo': 'Usar modo demo',
+
+  'mode.batch': 'Procesar archivo',
+  'mode.single': 'Direccion individual',
+  'mode.history': 'Historial',
+  'mode.compare': 'Comparar',
+
+  'upload.title': 'Archivo Excel',
+  'upload.drop': 'Arrastra tus archivos aqui o',
+  'upload.dropClick': 'haz clic para seleccionar',
+  'upload.formats': 'Formatos soportados: {formats}',
+  'upload.multiple': 'Varios archivos a la vez se procesan en cola',
+  'upload.reading': 'Leyendo hojas del archivo...',
+  'upload.encoding': 'Codificacion',
+  'upload.delimiter': 'Separador',
+  'upload.detect': 'Detectar',
+  'upload.delimiter.semicolon': 'Punto y coma (;)',
+  'upload.delimiter.comma': 'Coma (,)',
+  'upload.delimiter.tab': 'Tabulador',
+  'upload.delimiter.pipe': 'Barra vertical (|)',
+  'upload.noAddressColumn': 'No se ha encontrado ninguna columna de direcciones en {file}',
+  'upload.sample': 'Cargar libro de ejemplo',
+  'upload.unreadable': 'No se pudo leer el archivo {file}',
+  'upload.sourceUnavailable': 'El archivo original no esta disponible',
+
+  'preview.direccion': 'Columna direccion',
+  'preview.municipio': 'Columna municipio',
+  'preview.provincia': 'Columna provincia (opcional)',
+  'preview.noProvince': 'Sin provincia',
+  'preview.showing': 'Mostrando {shown} de {total} filas de la hoja "{sheet}"',
+
+  'process.start': 'Procesar Archivo',
+  'process.running': 'Procesando...',
+  'process.resume': 'Reanudar desde fila {row}',
+  'process.runningRows': 'Procesando... ({count} filas)',
+  'process.preparing': 'Preparando descarga... {progress}',
+  'process.interrupted': 'Interrumpido ({count} filas procesadas)',
+  'process.completed': 'Completado',
+  'process.elapsed': 'Tiempo: {time}',
+  'process.error': 'Error',
+  'process.closed': 'La conexion se cerro antes de completar el procesamiento',
+  'process.prepareFailed': 'No se pudo preparar la descarga: {error}',
+
+  'throughput.rate': '{rate} filas/s',
+  'throughput.recent': 'Ultimos {seconds} s: {rate} filas/s',
+  'throughput.eta': 'Quedan {time}',
+  'throughput.estimating': 'Calculando tiempo restante...',
+
+  'notify.toggle': 'Avisar al terminar',
+  'notify.completed': '{file} procesado',
+  'notify.failed': '{file} no se ha completado',
+  'notify.denied': 'El navegador no permite mostrar notificaciones',
+
+  'log.title': 'Procesamiento en Tiempo Real',
+  'log.stats': '{found} encontrados · {suspect} dudosos · {notFound} no encontrados',
+  'log.badge.info': 'INFO',
+  'log.badge.found': 'CP {cp}',
+  'log.badge.suspect': 'DUDOSO CP {cp}',
+  'log.badge.notFound': 'NO ENCONTRADO',
+  'log.badge.error': 'ERROR',
+  'log.badge.complete': 'COMPLETADO',
+  'log.starting': 'Iniciando procesamiento de {file}...',
+  'log.resuming': 'Reanudando {file} tras la fila {row}...',
+  'log.queued': 'Procesamiento en cola de {file} (hoja {sheet})',
+  'log.degraded': 'Aviso: la API parece degradada ({warnings})',
+  'log.fileLoaded': 'Archivo cargado: {total} filas detectadas',
+  'log.completed': 'Completado en {elapsed}',
+  'log.cancelled': 'Procesamiento cancelado por el usuario',
+  'log.error': 'Error: {error}',
+  'log.protocolError': 'Error de protocolo: {error}',
+  'log.reconnect': 'Conexion interrumpida ({reason}). Reintento {attempt}/{max} en {seconds} s',
+  'log.reconnectFrom': 'Conexion interrumpida ({reason}). Reintento {attempt}/{max} en {seconds} s, continuando tras el evento {id}',
+  'log.retrying': 'Reintentando {count} fila corregida...|Reintentando {count} filas corregidas...',
+  'log.corrections': 'Correcciones: {resolved} de {count} filas resueltas',
+  'log.deduped': '{rows} filas con {pairs} direcciones distintas: {cached} en cache, {pending} por geocodificar',
+
+  'results.title': 'Resultados',
+  'results.processed': 'Procesadas',
+  'results.found': 'Encontrados',
+  'results.suspect': 'Dudosos',
+  'results.notFound': 'No encontrados',
+  'results.errors': 'Errores',
+  'results.download': 'Descargar {format}',
+  'results.exportReport': 'Exportar informe',
+  'results.cached': '{count} fila servida desde la cache local|{count} filas servidas desde la cache local',
+
+  'report.scope.not_found': 'Solo no encontradas',
+  'report.scope.suspect': 'Solo dudosas',
+  'report.scope.errors': 'Solo errores',
+  'report.scope.all': 'Todas las filas',
+
+  'status.found': 'Encontrado',
+  'status.suspect': 'Dudoso',
+  'status.not_found': 'No encontrado',
+  'status.error': 'Error',
+  'plausibility.digits': 'El CP "{cp}" no tiene cinco digitos',
+  'plausibility.prefix': 'El prefijo {prefix} no corresponde a ninguna provincia',
+  'plausibility.province': 'El CP es de {province} pero {municipio} esta en {provinces}',
+
+  'table.search': 'Buscar por fila, direccion, municipio o CP',
+  'table.allStatuses': 'Todos los estados',
+  'table.retry': 'Reintentar {count} fila corregida|Reintentar {count} filas corregidas',
+  'table.row': 'Fila',
+  'table.cp': 'CP',
+  'table.corrected': 'Corregido',
+  'table.pending': 'Pendiente',
+  'table.empty': 'Ninguna fila coincide con la busqueda',
+  'table.count': '{visible} de {total} filas',
+  'table.previous': 'Anterior',
+  'table.next': 'Siguiente',
+  'table.detailTitle': 'Fila {row} · datos originales',
+  'table.correctedAddress': 'Direccion corregida',
+  'table.saveCorrection': 'Guardar correccion',
+  'table.discard': 'Descartar',
+  'table.loading': 'Cargando...',
+  'table.sourceError': 'No se pudieron leer los datos originales del archivo',
+
+  'lookup.title': 'Consulta individual',
+  'lookup.provinceOptional': 'Provincia (opcional)',
+  'lookup.searching': 'Buscando...',
+  'lookup.search': 'Buscar CP',
+  'lookup.noResult': 'Sin resultado',
+  'lookup.alternatives': 'Alternativas',
+  'lookup.recent': 'Busquedas recientes',
+  'lookup.copy': 'Copiar',
+  'lookup.copied': 'Copiado',
+  'lookup.clear': 'Limpiar',
+
+  'breakdown.title': 'Desglose geografico',
+  'breakdown.byProvince': 'CPs encontrados por provincia',
+  'breakdown.noneFound': 'No se encontro ningun CP',
+  'breakdown.unknownPrefix': '{count} CP con prefijo de provincia no reconocido|{count} CPs con prefijo de provincia no reconocido',
+  'breakdown.unresolved': 'Municipios con mas filas sin resolver',
+  'breakdown.allResolved': 'Todas las filas tienen CP',
+  'breakdown.rate': 'Tasa de acierto por municipio',
+  'breakdown.rows': 'Filas',
+  'breakdown.rateColumn': 'Tasa',
+  'breakdown.showing': 'Mostrando los {limit} municipios con mas filas de {total}',
+  'breakdown.noMunicipality': '(sin municipio)',
+
+  'history.title': 'Historial de trabajos',
+  'history.maxJobs': 'Maximo de trabajos',
+  'history.maxSpace': 'Espacio maximo (MB)',
+  'history.usage': '{count} trabajos · {size} usados',
+  'history.unavailable': 'El historial no esta disponible en este navegador',
+  'history.missing': 'El trabajo ya no existe en el historial',
+  'history.empty': 'Todavia no hay trabajos guardados',
+  'history.started': 'Inicio',
+  'history.result': 'Resultado',
+  'history.size': 'Tamano',
+  'history.foundOf': '{found} / {total} encontrados',
+  'history.open': 'Abrir',
+  'history.download': 'Descargar',
+  'history.log': 'Log',
+  'history.delete': 'Eliminar',
+  'history.noOutput': 'Este trabajo no tiene archivo de resultados',
+  'history.status.completed': 'Completado',
+  'history.status.interrupted': 'Interrumpido',
+  'history.status.failed': 'Fallido',
+  'history.logColumn.time': 'Hora',
+  'history.logColumn.type': 'Tipo',
+  'history.logColumn.message': 'Mensaje',
+
+  'cache.enabled': 'Reutilizar direcciones ya geocodificadas (cache local)',
+  'cache.maxAge': 'Caducidad',
+  'cache.days': '{count} dia|{count} dias',
+  'cache.entries': '{count} direccion guardada|{count} direcciones guardadas',
+  'cache.clear': 'Vaciar cache',
+
+  'compare.title': 'Comparar ejecuciones',
+  'compare.hint': 'Elige dos ejecuciones del mismo archivo para ver que filas han cambiado',
+  'compare.before': 'Primera ejecucion',
+  'compare.after': 'Segunda ejecucion',
+  'compare.choose': 'Elegir ejecucion...',
+  'compare.current': 'Ejecucion actual ({name})',
+  'compare.upload': 'Subir resultado o informe',
+  'compare.rows': '{count} fila|{count} filas',
+  'compare.partial': 'Informe filtrado: solo se comparan las filas que incluye',
+  'compare.partialStats': 'Una de las ejecuciones es un informe filtrado: sus totales solo cuentan las filas que incluye, asi que no se muestran las diferencias',
+  'compare.change': 'Cambio',
+  'compare.beforeShort': 'Antes',
+  'compare.afterShort': 'Despues',
+  'compare.delta': 'Diferencia',
+  'compare.all': 'Todos los cambios',
+  'compare.kind.cp_changed': 'CP distinto',
+  'compare.kind.now_found': 'Ahora encontradas',
+  'compare.kind.now_missing': 'Ya no encontradas',
+  'compare.kind.only_before': 'Solo en la primera',
+  'compare.kind.only_after': 'Solo en la segunda',
+  'compare.noChanges': 'Las dos ejecuciones dan el mismo resultado en todas las filas',
+  'compare.export': 'Exportar comparacion',
+  'compare.error.status': 'Estado desconocido en la fila {row}: {status}',
+  'compare.error.json': 'El informe JSON no es valido',
+  'compare.error.notReport': 'El archivo JSON no es un informe de filas',
+  'compare.error.noCp': 'El archivo no tiene columna de CP',
+
+  'queue.title': 'Cola de archivos',
+  'queue.status.pending': 'En cola',
+  'queue.status.processing': 'Procesando',
+  'queue.status.done': 'Completado',
+  'queue.status.error': 'Error',
+  'queue.status.cancelled': 'Cancelado',
+  'queue.parallel': 'Archivos en paralelo',
+  'queue.sequential': '1 (secuencial)',
+  'queue.summary': '{count} archivos · {done} completados',
+  'queue.failed': '{count} con error',
+  'queue.progress': 'Progreso',
+  'queue.totalRows': 'Total filas',
+  'queue.process': 'Procesar cola',
+  'queue.processPending': 'Procesar pendientes',
+  'queue.zipping': 'Preparando ZIP...',
+  'queue.zip': 'Descargar ZIP',
+  'queue.clear': 'Vaciar cola',
+
+  'profile.name': 'Nombre',
+  'profile.baseUrl': 'URL base',
+  'profile.invalidUrl': 'La URL debe empezar por http:// o https://',
+  'profile.invalidHeaderName': 'Nombre de cabecera no valido: usa solo letras sin acentos, numeros y guiones, sin espacios',
+  'profile.invalidHeaderValue': 'El valor solo puede tener caracteres ASCII imprimibles, sin acentos ni saltos de linea',
+  'profile.backend': 'Backend',
+  'profile.backend.http': 'API remota',
+  'profile.backend.demo': 'Demo (simulado en el navegador)',
+  'profile.demo.speed': 'Velocidad',
+  'profile.demo.rowsPerSecond': '{count} fila/s|{count} filas/s',
+  'profile.demo.errorRate': 'Filas con error',
+  'profile.demo.notFoundRate': 'Filas no encontradas',
+  'profile.demo.hint': 'El backend de demostracion responde desde el navegador con una pequena tabla de CP; ningun dato sale del equipo',
+  'profile.auth': 'Autenticacion',
+  'profile.auth.none': 'Sin autenticacion',
+  'profile.auth.apiKey': 'Clave de API',
+  'profile.auth.bearer': 'Token Bearer',
+  'profile.token': 'Token',
+  'profile.key': 'Clave',
+  'profile.show': 'Mostrar',
+  'profile.hide': 'Ocultar',
+  'profile.keyHeader': 'Cabecera de la clave',
+  'profile.headers': 'Cabeceras adicionales',
+  'profile.headerValue': 'Valor',
+  'profile.removeHeader': 'Quitar',
+  'profile.addHeader': 'Anadir cabecera',
+  'profile.localOnly': 'Los perfiles y sus credenciales se guardan solo en este navegador',
+  'profile.delete': 'Eliminar perfil',
+  'profile.save': 'Guardar',
+
+  'diagnostics.poll.off': 'Sin sondeo',
+  'diagnostics.poll.30s': 'Cada 30 s',
+  'diagnostics.poll.1m': 'Cada minuto',
+  'diagnostics.poll.5m': 'Cada 5 min',
+  'diagnostics.checking': 'Comprobando...',
+  'diagnostics.checkNow': 'Comprobar ahora',
+  'diagnostics.lastCheck': 'Ultima comprobacion: {time}',
+  'diagnostics.latency': 'Latencia',
+  'diagnostics.average': 'Media: {ms} ms',
+  'diagnostics.version': 'Version',
+  'diagnostics.history': 'Historial de latencia',
+  'diagnostics.endpoint': 'Endpoint',
+  'diagnostics.function': 'Funcion',
+  'diagnostics.optional': '{label} (opcional)',
+  'diagnostics.serverInfo': 'Informacion del servidor',
+  'diagnostics.probe.stream': 'Procesamiento por lotes',
+  'diagnostics.probe.lookup': 'Busqueda individual',
+  'diagnostics.state.available': 'Disponible',
+  'diagnostics.state.missing': 'No existe',
+  'diagnostics.state.failing': 'Con errores',
+  'diagnostics.state.unreachable': 'Sin respuesta',
+  'diagnostics.warn.httpError': 'La API responde con error {status}',
+  'diagnostics.warn.noResponse': 'La API no responde',
+  'diagnostics.warn.latency': 'Latencia alta ({ms} ms)',
+  'diagnostics.warn.missing': 'El endpoint {path} no existe en esta API',
+  'diagnostics.warn.unavailable': 'El endpoint {path} no esta disponible',
+  'diagnostics.warn.unavailableStatus': 'El endpoint {path} no esta disponible ({status})',
+
+  'error.http401': 'La API ha rechazado las credenciales (401). Revisa la clave o el token del perfil',
+  'error.http403': 'Acceso denegado (403). El perfil no tiene permiso para usar esta API',
+  'error.invalidHeader': 'La cabecera "{name}" del perfil no es valida. Revisa su nombre y su valor en Editar',
+  'error.httpStatus': 'Error {status}: {statusText}',
+  'error.network': 'error de red',
+  'error.noBody': 'No se pudo leer la respuesta',
+  'error.retriesExhausted': 'No se pudo completar la conexion tras {count} reintento ({reason})|No se pudo completar la conexion tras {count} reintentos ({reason})',
+  'error.streamTimeout': 'No se recibieron datos en {seconds} s',
+  'error.decodeResult': 'No se pudo decodificar el resultado: {error}',
+  'error.worker': 'Error al leer el flujo de eventos',
+  'error.noAddressColumn': 'No se ha encontrado ninguna columna de direcciones',
+  'error.noResult': 'La API no devolvio ningun resultado',
+  'protocol.notNumber': 'el campo "{field}" debe ser un numero',
+  'protocol.notText': 'el campo "{field}" debe ser texto',
+  'protocol.stats': 'el campo "stats" falta o no es valido',
+  'protocol.notObject': 'el evento no es un objeto JSON',
+  'protocol.unknownStatus': 'estado de fila desconocido: {status}',
+  'protocol.unknownType': 'tipo de evento desconocido: {type}',
+  'protocol.invalidJson': 'JSON invalido',
+  'protocol.responseNotObject': 'la respuesta no es un objeto JSON'
+};
+
+export type MessageKey = keyof typeof es;
+export type Messages = Record<MessageKey, string>;
@@ -0,0 +1,325 @@
+import type { Messages } from './es';
+
+export const eu: Messages = {
+  'app.title': 'Geocoder CP',
+  'app.documentTitle': 'Geocoder CP - Espainiako posta-kodeak',
+  'app.subtitle': 'Excel bateko helbideen posta-kodeak lortu',
+  'app.badge': 'GeoAPI.es APIa',
+  'app.poweredBy': 'Geocoder CP - Teknologia:',
+  'app.language': 'Hizkuntza',
+
+  'common.cancel': 'Utzi',
+  'common.column': '({n}. zutabea)',
+  'common.unknownError': 'Errore ezezaguna',
+  'common.file': 'Fitxategia',
+  'common.status': 'Egoera',
+  'common.duration': 'Iraupena',
+  'common.municipality': 'Udalerria',
+  'common.address': 'Helbidea',
+  'common.province': 'Probintzia',
+
+  'api.title': 'APIaren konfigurazioa',
+  'api.edit': 'Editatu',
+  'api.new': 'Berria',
+  'api.verify': 'Egiaztatu',
+  'api.diagnostics': 'Diagnostikoa',
+  'api.status.online': 'Konektatuta',
+  'api.status.checking': 'Egiaztatzen...',
+  'api.status.unauthorized': 'Kredentzial baliogabeak',
+  'api.status.offline': 'Deskonektatuta',
+  'api.unauthorized': 'APIak "{name}" profilaren kredentzialak baztertu ditu. Berrikusi gakoa edo tokena Editatu atalean.',
+  'api.degraded': 'APIak degradatuta dirudi: {warnings}. Prozesamendua motela izan daiteke edo huts egin dezake.',
+  'api.offlineDemo': 'APIak ez du erantzuten. Aplikazioa demo backendarekin proba dezakezu, sarerik gabe dabilena.',
+  'api.useDemo': 'Erabili demo modua',
+
+  'mode.batch': 'Prozesatu fitxategia',
+  'mode.single': 'Helbide bakarra',
+  'mode.history': 'Historia',
+  'mode.compare': 'Alderatu',
+
+  'upload.title': 'Excel fitxategia',
+  'upload.drop': 'Arrastatu fitxategiak hona edo',
+  'upload.dropClick': 'egin klik hautatzeko',
+  'upload.formats': 'Onartutako formatuak: {formats}',
+  'upload.multiple': 'Aldi berean hainbat fitxategi ilaran prozesatzen dira',
+  'upload.reading': 'Fitxategiaren orriak irakurtzen...',
+  'upload.encoding': 'Kodeketa',
+  'upload.delimiter': 'Bereizlea',
+  'upload.detect': 'Detektatu',
+  'upload.delimiter.semicolon': 'Puntu eta koma (;)',
+  'upload.delimiter.comma': 'Koma (,)',
+  'upload.delimiter.tab': 'Tabuladorea',
+  'upload.delimiter.pipe': 'Barra bertikala (|)',
+  'upload.noAddressColumn': 'Ez da helbide-zutaberik aurkitu {file} fitxategian',
+  'upload.sample': 'Kargatu adibide-liburua',
+  'upload.unreadable': 'Ezin izan da {file} fitxategia irakurri',
+  'upload.sourceUnavailable': 'Jatorrizko fitxategia ez dago erabilgarri',
+
+  'preview.direccion': 'Helbide-zutabea',
+  'preview.municipio': 'Udalerri-zutabea',
+  'preview.provincia': 'Probintzia-zutabea (aukerakoa)',
+  'preview.noProvince': 'Probintziarik gabe',
+  'preview.showing': '"{sheet}" orriko {total} errenkadetatik {shown} erakusten',
+
+  'process.start': 'Prozesatu fitxategia',
+  'process.running': 'Prozesatzen...',
+  'process.resume': 'Jarraitu {row}. errenkadatik',
+  'process.runningRows': 'Prozesatzen... ({count} errenkada)',
+  'process.preparing': 'Deskarga prestatzen... {progress}',
+  'process.interrupted': 'Etenda ({count} errenkada prozesatuta)',
+  'process.completed': 'Osatuta',
+  'process.elapsed': 'Denbora: {time}',
+  'process.error': 'Errorea',
+  'process.closed': 'Konexioa itxi egin da prozesamendua amaitu aurretik',
+  'process.prepareFailed': 'Ezin izan da deskarga prestatu: {error}',
+
+  'throughput.rate': '{rate} errenkada/s',
+  'throughput.recent': 'Azken {seconds} s: {rate} errenkada/s',
+  'throughput.eta': '{time} falta dira',
+  'throughput.estimating': 'Geratzen den denbora kalkulatzen...',
+
+  'notify.toggle': 'Abisatu amaitzean',
+  'notify.completed': '{file} prozesatuta',
+  'notify.failed': '{file} ez da osatu',
+  'notify.denied': 'Nabigatzaileak ez du jakinarazpenik erakusten uzten',
+
+  'log.title': 'Denbora errealeko prozesamendua',
+  'log.stats': '{found} aurkituta · {suspect} zalantzazko · {notFound} aurkitu gabe',
+  'log.badge.info': 'INFO',
+  'log.badge.found': 'PK {cp}',
+  'log.badge.suspect': 'ZALANTZAZKOA PK {cp}',
+  'log.badge.notFound': 'AURKITU GABE',
+  'log.badge.error': 'ERROREA',
+  'log.badge.complete': 'OSATUTA',
+  'log.starting': '{file} prozesatzen hasten...',
+  'log.resuming': '{file} berriz hasten {row}. errenkadaren ondoren...',
+  'log.queued': '{file} ilaran prozesatzen ({sheet} orria)',
+  'log.degraded': 'Abisua: APIak degradatuta dirudi ({warnings})',
+  'log.fileLoaded': 'Fitxategia kargatuta: {total} errenkada detektatu dira',
+  'log.completed': '{elapsed} igarota osatuta',
+  'log.cancelled': 'Erabiltzaileak prozesamendua bertan behera utzi du',
+  'log.error': 'Errorea: {error}',
+  'log.protocolError': 'Protokolo-errorea: {error}',
+  'log.reconnect': 'Konexioa eten da ({reason}). {attempt}/{max}. saiakera {seconds} s barru',
+  'log.reconnectFrom': 'Konexioa eten da ({reason}). {attempt}/{max}. saiakera {seconds} s barru, {id} gertaeraren ondoren jarraituz',
+  'log.retrying': 'Zuzendutako errenkada {count} berriz saiatzen...|Zuzendutako {count} errenkada berriz saiatzen...',
+  'log.corrections': 'Zuzenketak: {count} errenkadetatik {resolved} ebatzita',
+  'log.deduped': '{rows} errenkada, {pairs} helbide desberdin: {cached} cachean, {pending} geokodetzeko',
+
+  'results.title': 'Emaitzak',
+  'results.processed': 'Prozesatuak',
+  'results.found': 'Aurkituak',
+  'results.suspect': 'Zalantzazkoak',
+  'results.notFound': 'Aurkitu gabeak',
+  'results.errors': 'Erroreak',
+  'results.download': 'Deskargatu {format}',
+  'results.exportReport': 'Esportatu txostena',
+  'results.cached': '{count} errenkada cache lokaletik hartu da|{count} errenkada cache lokaletik hartu dira',
+
+  'report.scope.not_found': 'Aurkitu gabeak soilik',
+  'report.scope.suspect': 'Zalantzazkoak soilik',
+  'report.scope.errors': 'Erroreak soilik',
+  'report.scope.all': 'Errenkada guztiak',
+
+  'status.found': 'Aurkitua',
+  'status.suspect': 'Zalantzazkoa',
+  'status.not_found': 'Aurkitu gabe',
+  'status.error': 'Errorea',
+  'plausibility.digits': '"{cp}" PKak ez ditu bost digitu',
+  'plausibility.prefix': '{prefix} aurrezenbakia ez dagokio inongo probintziari',
+  'plausibility.province': 'PKa {province} probintziakoa da, baina {municipio} {provinces} probintzian dago',
+
+  'table.search': 'Bilatu errenkada, helbide, udalerri edo PKaren arabera',
+  'table.allStatuses': 'Egoera guztiak',
+  'table.retry': 'Saiatu berriz zuzendutako errenkada {count}|Saiatu berriz zuzendutako {count} errenkada',
+  'table.row': 'Errenkada',
+  'table.cp': 'PK',
+  'table.corrected': 'Zuzendua',
+  'table.pending': 'Zain',
+  'table.empty': 'Ez dago bilaketarekin bat datorren errenkadarik',
+  'table.count': '{total} errenkadetatik {visible}',
+  'table.previous': 'Aurrekoa',
+  'table.next': 'Hurrengoa',
+  'table.detailTitle': '{row}. errenkada · jatorrizko datuak',
+  'table.correctedAddress': 'Helbide zuzendua',
+  'table.saveCorrection': 'Gorde zuzenketa',
+  'table.discard': 'Baztertu',
+  'table.loading': 'Kargatzen...',
+  'table.sourceError': 'Ezin izan dira fitxategiaren jatorrizko datuak irakurri',
+
+  'lookup.title': 'Kontsulta bakarra',
+  'lookup.provinceOptional': 'Probintzia (aukerakoa)',
+  'lookup.searching': 'Bilatzen...',
+  'lookup.search': 'Bilatu PKa',
+  'lookup.noResult': 'Emaitzarik ez',
+  'lookup.alternatives': 'Aukerak',
+  'lookup.recent': 'Azken bilaketak',
+  'lookup.copy': 'Kopiatu',
+  'lookup.copied': 'Kopiatuta',
+  'lookup.clear': 'Garbitu',
+
+  'breakdown.title': 'Banaketa geografikoa',
+  'breakdown.byProvince': 'Probintziaka aurkitutako PKak',
+  'breakdown.noneFound': 'Ez da PKrik aurkitu',
+  'breakdown.unknownPrefix': 'PK {count} probintzia-aurrizki ezezagunarekin|{count} PK probintzia-aurrizki ezezagunarekin',
+  'breakdown.unresolved': 'Ebatzi gabeko errenkada gehien dituzten udalerriak',
+  'breakdown.allResolved': 'Errenkada guztiek dute PKa',
+  'breakdown.rate': 'Asmatze-tasa udalerrika',
+  'breakdown.rows': 'Errenkadak',
+  'breakdown.rateColumn': 'Tasa',
+  'breakdown.showing': 'Errenkada gehien dituzten {limit} udalerriak erakusten, {total} udalerritatik',
+  'breakdown.noMunicipality': '(udalerririk gabe)',
+
+  'history.title': 'Lanen historia',
+  'history.maxJobs': 'Gehienezko lan kopurua',
+  'history.maxSpace': 'Gehienezko tokia (MB)',
+  'history.usage': '{count} lan · {size} erabilita',
+  'history.unavailable': 'Historia ez dago erabilgarri nabigatzaile honetan',
+  'history.missing': 'Lana jada ez dago historian',
+  'history.empty': 'Oraindik ez dago gordetako lanik',
+  'history.started': 'Hasiera',
+  'history.result': 'Emaitza',
+  'history.size': 'Tamaina',
+  'history.foundOf': '{found} / {total} aurkituta',
+  'history.open': 'Ireki',
+  'history.download': 'Deskargatu',
+  'history.log': 'Erregistroa',
+  'history.delete': 'Ezabatu',
+  'history.noOutput': 'Lan honek ez du emaitza-fitxategirik',
+  'history.status.completed': 'Osatuta',
+  'history.status.interrupted': 'Etenda',
+  'history.status.failed': 'Huts egina',
+  'history.logColumn.time': 'Ordua',
+  'history.logColumn.type': 'Mota',
+  'history.logColumn.message': 'Mezua',
+
+  'cache.enabled': 'Berrerabili geokodetutako helbideak (cache lokala)',
+  'cache.maxAge': 'Iraungitzea',
+  'cache.days': '{count} egun|{count} egun',
+  'cache.entries': '{count} helbide gordeta|{count} helbide gordeta',
+  'cache.clear': 'Hustu cachea',
+
+  'compare.title': 'Exekuzioak alderatu',
+  'compare.hint': 'Aukeratu fitxategi bereko bi exekuzio zein errenkada aldatu diren ikusteko',
+  'compare.before': 'Lehen exekuzioa',
+  'compare.after': 'Bigarren exekuzioa',
+  'compare.choose': 'Aukeratu exekuzioa...',
+  'compare.current': 'Uneko exekuzioa ({name})',
+  'compare.upload': 'Igo emaitza edo txostena',
+  'compare.rows': '{count} errenkada|{count} errenkada',
+  'compare.partial': 'Txosten iragazia: jasotzen dituen errenkadak bakarrik alderatzen dira',
+  'compare.partialStats': 'Exekuzioetako bat txosten iragazia da: bere guztizkoek jasotzen dituen errenkadak bakarrik zenbatzen dituzte, beraz ez dira aldeak erakusten',
+  'compare.change': 'Aldaketa',
+  'compare.beforeShort': 'Lehen',
+  'compare.afterShort': 'Gero',
+  'compare.delta': 'Aldea',
+  'compare.all': 'Aldaketa guztiak',
+  'compare.kind.cp_changed': 'PK desberdina',
+  'compare.kind.now_found': 'Orain aurkituak',
+  'compare.kind.now_missing': 'Jada ez aurkituak',
+  'compare.kind.only_before': 'Lehenengoan bakarrik',
+  'compare.kind.only_after': 'Bigarrenean bakarrik',
+  'compare.noChanges': 'Bi exekuzioek emaitza bera dute errenkada guztietan',
+  'compare.export': 'Esportatu alderaketa',
+  'compare.error.status': 'Egoera ezezaguna {row}. errenkadan: {status}',
+  'compare.error.json': 'JSON txostena ez da baliozkoa',
+  'compare.error.notReport': 'JSON fitxategia ez da errenkaden txosten bat',
+  'compare.error.noCp': 'Fitxategiak ez du PK zutaberik',
+
+  'queue.title': 'Fitxategi-ilara',
+  'queue.status.pending': 'Ilaran',
+  'queue.status.processing': 'Prozesatzen',
+  'queue.status.done': 'Osatuta',
+  'queue.status.error': 'Errorea',
+  'queue.status.cancelled': 'Bertan behera',
+  'queue.parallel': 'Fitxategiak paraleloan',
+  'queue.sequential': '1 (sekuentziala)',
+  'queue.summary': '{count} fitxategi · {done} osatuta',
+  'queue.failed': '{count} errorearekin',
+  'queue.progress': 'Aurrerapena',
+  'queue.totalRows': 'Errenkadak guztira',
+  'queue.process': 'Prozesatu ilara',
+  'queue.processPending': 'Prozesatu zain daudenak',
+  'queue.zipping': 'ZIPa prestatzen...',
+  'queue.zip': 'Deskargatu ZIPa',
+  'queue.clear': 'Hustu ilara',
+
+  'profile.name': 'Izena',
+  'profile.baseUrl': 'Oinarrizko URLa',
+  'profile.invalidUrl': 'URLak http:// edo https:// aurrizkiarekin hasi behar du',
+  'profile.invalidHeaderName': 'Goiburu-izen baliogabea: erabili azentu gabeko letrak, zenbakiak eta marratxoak soilik, espaziorik gabe',
+  'profile.invalidHeaderValue': 'Balioak ASCII karaktere inprimagarriak soilik izan ditzake, azentu eta lerro-jauzirik gabe',
+  'profile.backend': 'Backenda',
+  'profile.backend.http': 'Urruneko APIa',
+  'profile.backend.demo': 'Demo (nabigatzailean simulatua)',
+  'profile.demo.speed': 'Abiadura',
+  'profile.demo.rowsPerSecond': '{count} errenkada/s|{count} errenkada/s',
+  'profile.demo.errorRate': 'Errorea duten errenkadak',
+  'profile.demo.notFoundRate': 'Aurkitu gabeko errenkadak',
+  'profile.demo.hint': 'Demo backendak nabigatzailetik erantzuten du PK taula txiki batekin; daturik ez da ordenagailutik ateratzen',
+  'profile.auth': 'Autentifikazioa',
+  'profile.auth.none': 'Autentifikaziorik gabe',
+  'profile.auth.apiKey': 'API gakoa',
+  'profile.auth.bearer': 'Bearer tokena',
+  'profile.token': 'Tokena',
+  'profile.key': 'Gakoa',
+  'profile.show': 'Erakutsi',
+  'profile.hide': 'Ezkutatu',
+  'profile.keyHeader': 'Gakoaren goiburua',
+  'profile.headers': 'Goiburu gehigarriak',
+  'profile.headerValue': 'Balioa',
+  'profile.removeHeader': 'Kendu',
+  'profile.addHeader': 'Gehitu goiburua',
+  'profile.localOnly': 'Profilak eta haien kredentzialak nabigatzaile honetan soilik gordetzen dira',
+  'profile.delete': 'Ezabatu profila',
+  'profile.save': 'Gorde',
+
+  'diagnostics.poll.off': 'Galdeketarik gabe',
+  'diagnostics.poll.30s': '30 s-tik behin',
+  'diagnostics.poll.1m': 'Minutuan behin',
+  'diagnostics.poll.5m': '5 min-tik behin',
+  'diagnostics.checking': 'Egiaztatzen...',
+  'diagnostics.checkNow': 'Egiaztatu orain',
+  'diagnostics.lastCheck': 'Azken egiaztapena: {time}',
+  'diagnostics.latency': 'Latentzia',
+  'diagnostics.average': 'Batez bestekoa: {ms} ms',
+  'diagnostics.version': 'Bertsioa',
+  'diagnostics.history': 'Latentziaren historia',
+  'diagnostics.endpoint': 'Endpointa',
+  'diagnostics.function': 'Funtzioa',
+  'diagnostics.optional': '{label} (aukerakoa)',
+  'diagnostics.serverInfo': 'Zerbitzariaren informazioa',
+  'diagnostics.probe.stream': 'Sortakako prozesamendua',
+  'diagnostics.probe.lookup': 'Bilaketa bakarra',
+  'diagnostics.state.available': 'Erabilgarri',
+  'diagnostics.state.missing': 'Ez dago',
+  'diagnostics.state.failing': 'Erroreekin',
+  'diagnostics.state.unreachable': 'Erantzunik ez',
+  'diagnostics.warn.httpError': 'APIak {status} errorearekin erantzuten du',
+  'diagnostics.warn.noResponse': 'APIak ez du erantzuten',
+  'diagnostics.warn.latency': 'Latentzia handia ({ms} ms)',
+  'diagnostics.warn.missing': '{path} endpointa ez dago API honetan',
+  'diagnostics.warn.unavailable': '{path} endpointa ez dago erabilgarri',
+  'diagnostics.warn.unavailableStatus': '{path} endpointa ez dago erabilgarri ({status})',
+
+  'error.http401': 'APIak profilaren kredentzialak baztertu ditu (401). Berrikusi gakoa edo tokena',
+  'error.http403': 'Sarbidea ukatuta (403). Profilak ez du API hau erabiltzeko baimenik',
+  'error.invalidHeader': 'Profilaren "{name}" goiburua ez da baliozkoa. Berrikusi izena eta balioa Editatu atalean',
+  'error.httpStatus': '{status} errorea: {statusText}',
+  'error.network': 'sare-errorea',
+  'error.noBody': 'Ezin izan da erantzuna irakurri',
+  'error.retriesExhausted': 'Ezin izan da konexioa osatu {count} saiakeraren ondoren ({reason})|Ezin izan da konexioa osatu {count} saiakeren ondoren ({reason})',
+  'error.streamTimeout': 'Ez da daturik jaso {seconds} s-an',
+  'error.decodeResult': 'Ezin izan da emaitza deskodetu: {error}',
+  'error.worker': 'Errorea gertaeren fluxua irakurtzean',
+  'error.noAddressColumn': 'Ez da helbide-zutaberik aurkitu',
+  'error.noResult': 'APIak ez du emaitzarik itzuli',
+  'protocol.notNumber': '"{field}" eremuak zenbaki bat izan behar du',
+  'protocol.notText': '"{field}" eremuak testua izan behar du',
+  'protocol.stats': '"stats" eremua falta da edo ez da baliozkoa',
+  'protocol.notObject': 'gertaera ez da JSON objektu bat',
+  'protocol.unknownStatus': 'errenkada-egoera ezezaguna: {status}',
+  'protocol.unknownType': 'gertaera-mota ezezaguna: {type}',
+  'protocol.invalidJson': 'JSON baliogabea',
+  'protocol.responseNotObject': 'erantzuna ez da JSON objektu bat'
+};
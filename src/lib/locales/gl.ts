@@ -0,0 +1,325 @@
+import type { Messages } from './es';
+
+export const gl: Messages = {
+  'app.title': 'Geocoder CP',
+  'app.documentTitle': 'Geocoder CP - Códigos Postais España',
+  'app.subtitle': 'Obter os códigos postais dos enderezos dun Excel',
+  'app.badge': 'API GeoAPI.es',
+  'app.poweredBy': 'Geocoder CP - Coa tecnoloxía de',
+  'app.language': 'Idioma',
+
+  'common.cancel': 'Cancelar',
+  'common.column': '(columna {n})',
+  'common.unknownError': 'Erro descoñecido',
+  'common.file': 'Ficheiro',
+  'common.status': 'Estado',
+  'common.duration': 'Duración',
+  'common.municipality': 'Concello',
+  'common.address': 'Enderezo',
+  'common.province': 'Provincia',
+
+  'api.title': 'Configuración da API',
+  'api.edit': 'Editar',
+  'api.new': 'Novo',
+  'api.verify': 'Verificar',
+  'api.diagnostics': 'Diagnóstico',
+  'api.status.online': 'Conectado',
+  'api.status.checking': 'Verificando...',
+  'api.status.unauthorized': 'Credenciais non válidas',
+  'api.status.offline': 'Desconectado',
+  'api.unauthorized': 'A API rexeitou as credenciais do perfil "{name}". Revisa a chave ou o token en Editar.',
+  'api.degraded': 'A API parece degradada: {warnings}. O procesamento pode ser lento ou fallar.',
+  'api.offlineDemo': 'A API non responde. Podes probar a aplicación co backend de demostración, que funciona sen rede.',
+  'api.useDemo': 'Usar modo demo',
+
+  'mode.batch': 'Procesar ficheiro',
+  'mode.single': 'Enderezo individual',
+  'mode.history': 'Historial',
+  'mode.compare': 'Comparar',
+
+  'upload.title': 'Ficheiro Excel',
+  'upload.drop': 'Arrastra os teus ficheiros aquí ou',
+  'upload.dropClick': 'fai clic para seleccionalos',
+  'upload.formats': 'Formatos admitidos: {formats}',
+  'upload.multiple': 'Varios ficheiros á vez procésanse en cola',
+  'upload.reading': 'Lendo as follas do ficheiro...',
+  'upload.encoding': 'Codificación',
+  'upload.delimiter': 'Separador',
+  'upload.detect': 'Detectar',
+  'upload.delimiter.semicolon': 'Punto e coma (;)',
+  'upload.delimiter.comma': 'Coma (,)',
+  'upload.delimiter.tab': 'Tabulador',
+  'upload.delimiter.pipe': 'Barra vertical (|)',
+  'upload.noAddressColumn': 'Non se atopou ningunha columna de enderezos en {file}',
+  'upload.sample': 'Cargar libro de exemplo',
+  'upload.unreadable': 'Non se puido ler o ficheiro {file}',
+  'upload.sourceUnavailable': 'O ficheiro orixinal non está dispoñible',
+
+  'preview.direccion': 'Columna enderezo',
+  'preview.municipio': 'Columna concello',
+  'preview.provincia': 'Columna provincia (opcional)',
+  'preview.noProvince': 'Sen provincia',
+  'preview.showing': 'Amosando {shown} de {total} filas da folla "{sheet}"',
+
+  'process.start': 'Procesar ficheiro',
+  'process.running': 'Procesando...',
+  'process.resume': 'Retomar desde a fila {row}',
+  'process.runningRows': 'Procesando... ({count} filas)',
+  'process.preparing': 'Preparando a descarga... {progress}',
+  'process.interrupted': 'Interrompido ({count} filas procesadas)',
+  'process.completed': 'Completado',
+  'process.elapsed': 'Tempo: {time}',
+  'process.error': 'Erro',
+  'process.closed': 'A conexión pechouse antes de completar o procesamento',
+  'process.prepareFailed': 'Non se puido preparar a descarga: {error}',
+
+  'throughput.rate': '{rate} filas/s',
+  'throughput.recent': 'Últimos {seconds} s: {rate} filas/s',
+  'throughput.eta': 'Quedan {time}',
+  'throughput.estimating': 'Calculando o tempo restante...',
+
+  'notify.toggle': 'Avisar ao rematar',
+  'notify.completed': '{file} procesado',
+  'notify.failed': '{file} non se completou',
+  'notify.denied': 'O navegador non permite amosar notificacións',
+
+  'log.title': 'Procesamento en tempo real',
+  'log.stats': '{found} atopados · {suspect} dubidosos · {notFound} non atopados',
+  'log.badge.info': 'INFO',
+  'log.badge.found': 'CP {cp}',
+  'log.badge.suspect': 'DUBIDOSO CP {cp}',
+  'log.badge.notFound': 'NON ATOPADO',
+  'log.badge.error': 'ERRO',
+  'log.badge.complete': 'COMPLETADO',
+  'log.starting': 'Iniciando o procesamento de {file}...',
+  'log.resuming': 'Retomando {file} despois da fila {row}...',
+  'log.queued': 'Procesamento en cola de {file} (folla {sheet})',
+  'log.degraded': 'Aviso: a API parece degradada ({warnings})',
+  'log.fileLoaded': 'Ficheiro cargado: {total} filas detectadas',
+  'log.completed': 'Completado en {elapsed}',
+  'log.cancelled': 'Procesamento cancelado polo usuario',
+  'log.error': 'Erro: {error}',
+  'log.protocolError': 'Erro de protocolo: {error}',
+  'log.reconnect': 'Conexión interrompida ({reason}). Reintento {attempt}/{max} en {seconds} s',
+  'log.reconnectFrom': 'Conexión interrompida ({reason}). Reintento {attempt}/{max} en {seconds} s, continuando despois do evento {id}',
+  'log.retrying': 'Reintentando {count} fila corrixida...|Reintentando {count} filas corrixidas...',
+  'log.corrections': 'Correccións: {resolved} de {count} filas resoltas',
+  'log.deduped': '{rows} filas con {pairs} enderezos distintos: {cached} na caché, {pending} por xeocodificar',
+
+  'results.title': 'Resultados',
+  'results.processed': 'Procesadas',
+  'results.found': 'Atopados',
+  'results.suspect': 'Dubidosos',
+  'results.notFound': 'Non atopados',
+  'results.errors': 'Erros',
+  'results.download': 'Descargar {format}',
+  'results.exportReport': 'Exportar informe',
+  'results.cached': '{count} fila servida desde a caché local|{count} filas servidas desde a caché local',
+
+  'report.scope.not_found': 'Só non atopadas',
+  'report.scope.suspect': 'Só dubidosas',
+  'report.scope.errors': 'Só erros',
+  'report.scope.all': 'Todas as filas',
+
+  'status.found': 'Atopado',
+  'status.suspect': 'Dubidoso',
+  'status.not_found': 'Non atopado',
+  'status.error': 'Erro',
+  'plausibility.digits': 'O CP "{cp}" non ten cinco díxitos',
+  'plausibility.prefix': 'O prefixo {prefix} non corresponde a ningunha provincia',
+  'plausibility.province': 'O CP é de {province} pero {municipio} está en {provinces}',
+
+  'table.search': 'Buscar por fila, enderezo, concello ou CP',
+  'table.allStatuses': 'Todos os estados',
+  'table.retry': 'Reintentar {count} fila corrixida|Reintentar {count} filas corrixidas',
+  'table.row': 'Fila',
+  'table.cp': 'CP',
+  'table.corrected': 'Corrixido',
+  'table.pending': 'Pendente',
+  'table.empty': 'Ningunha fila coincide coa busca',
+  'table.count': '{visible} de {total} filas',
+  'table.previous': 'Anterior',
+  'table.next': 'Seguinte',
+  'table.detailTitle': 'Fila {row} · datos orixinais',
+  'table.correctedAddress': 'Enderezo corrixido',
+  'table.saveCorrection': 'Gardar corrección',
+  'table.discard': 'Descartar',
+  'table.loading': 'Cargando...',
+  'table.sourceError': 'Non se puideron ler os datos orixinais do ficheiro',
+
+  'lookup.title': 'Consulta individual',
+  'lookup.provinceOptional': 'Provincia (opcional)',
+  'lookup.searching': 'Buscando...',
+  'lookup.search': 'Buscar CP',
+  'lookup.noResult': 'Sen resultado',
+  'lookup.alternatives': 'Alternativas',
+  'lookup.recent': 'Buscas recentes',
+  'lookup.copy': 'Copiar',
+  'lookup.copied': 'Copiado',
+  'lookup.clear': 'Limpar',
+
+  'breakdown.title': 'Desagregación xeográfica',
+  'breakdown.byProvince': 'CP atopados por provincia',
+  'breakdown.noneFound': 'Non se atopou ningún CP',
+  'breakdown.unknownPrefix': '{count} CP cun prefixo de provincia non recoñecido|{count} CP cun prefixo de provincia non recoñecido',
+  'breakdown.unresolved': 'Concellos con máis filas sen resolver',
+  'breakdown.allResolved': 'Todas as filas teñen CP',
+  'breakdown.rate': 'Taxa de acerto por concello',
+  'breakdown.rows': 'Filas',
+  'breakdown.rateColumn': 'Taxa',
+  'breakdown.showing': 'Amosando os {limit} concellos con máis filas de {total}',
+  'breakdown.noMunicipality': '(sen concello)',
+
+  'history.title': 'Historial de traballos',
+  'history.maxJobs': 'Máximo de traballos',
+  'history.maxSpace': 'Espazo máximo (MB)',
+  'history.usage': '{count} traballos · {size} usados',
+  'history.unavailable': 'O historial non está dispoñible neste navegador',
+  'history.missing': 'O traballo xa non está no historial',
+  'history.empty': 'Aínda non hai traballos gardados',
+  'history.started': 'Inicio',
+  'history.result': 'Resultado',
+  'history.size': 'Tamaño',
+  'history.foundOf': '{found} / {total} atopados',
+  'history.open': 'Abrir',
+  'history.download': 'Descargar',
+  'history.log': 'Rexistro',
+  'history.delete': 'Eliminar',
+  'history.noOutput': 'Este traballo non ten ficheiro de resultados',
+  'history.status.completed': 'Completado',
+  'history.status.interrupted': 'Interrompido',
+  'history.status.failed': 'Fallido',
+  'history.logColumn.time': 'Hora',
+  'history.logColumn.type': 'Tipo',
+  'history.logColumn.message': 'Mensaxe',
+
+  'cache.enabled': 'Reutilizar enderezos xa xeocodificados (caché local)',
+  'cache.maxAge': 'Caducidade',
+  'cache.days': '{count} día|{count} días',
+  'cache.entries': '{count} enderezo gardado|{count} enderezos gardados',
+  'cache.clear': 'Baleirar caché',
+
+  'compare.title': 'Comparar execucións',
+  'compare.hint': 'Escolle dúas execucións do mesmo ficheiro para ver que filas cambiaron',
+  'compare.before': 'Primeira execución',
+  'compare.after': 'Segunda execución',
+  'compare.choose': 'Escoller execución...',
+  'compare.current': 'Execución actual ({name})',
+  'compare.upload': 'Subir resultado ou informe',
+  'compare.rows': '{count} fila|{count} filas',
+  'compare.partial': 'Informe filtrado: só se comparan as filas que inclúe',
+  'compare.partialStats': 'Unha das execucións é un informe filtrado: os seus totais só contan as filas que inclúe, así que non se amosan as diferenzas',
+  'compare.change': 'Cambio',
+  'compare.beforeShort': 'Antes',
+  'compare.afterShort': 'Despois',
+  'compare.delta': 'Diferenza',
+  'compare.all': 'Todos os cambios',
+  'compare.kind.cp_changed': 'CP distinto',
+  'compare.kind.now_found': 'Agora atopadas',
+  'compare.kind.now_missing': 'Xa non atopadas',
+  'compare.kind.only_before': 'Só na primeira',
+  'compare.kind.only_after': 'Só na segunda',
+  'compare.noChanges': 'As dúas execucións dan o mesmo resultado en todas as filas',
+  'compare.export': 'Exportar comparación',
+  'compare.error.status': 'Estado descoñecido na fila {row}: {status}',
+  'compare.error.json': 'O informe JSON non é válido',
+  'compare.error.notReport': 'O ficheiro JSON non é un informe de filas',
+  'compare.error.noCp': 'O ficheiro non ten columna de CP',
+
+  'queue.title': 'Cola de ficheiros',
+  'queue.status.pending': 'En cola',
+  'queue.status.processing': 'Procesando',
+  'queue.status.done': 'Completado',
+  'queue.status.error': 'Erro',
+  'queue.status.cancelled': 'Cancelado',
+  'queue.parallel': 'Ficheiros en paralelo',
+  'queue.sequential': '1 (secuencial)',
+  'queue.summary': '{count} ficheiros · {done} completados',
+  'queue.failed': '{count} con erro',
+  'queue.progress': 'Progreso',
+  'queue.totalRows': 'Total de filas',
+  'queue.process': 'Procesar cola',
+  'queue.processPending': 'Procesar pendentes',
+  'queue.zipping': 'Preparando o ZIP...',
+  'queue.zip': 'Descargar ZIP',
+  'queue.clear': 'Baleirar cola',
+
+  'profile.name': 'Nome',
+  'profile.baseUrl': 'URL base',
+  'profile.invalidUrl': 'O URL debe comezar por http:// ou https://',
+  'profile.invalidHeaderName': 'Nome de cabeceira non válido: usa só letras sen acentos, números e guións, sen espazos',
+  'profile.invalidHeaderValue': 'O valor só pode ter caracteres ASCII imprimibles, sen acentos nin saltos de liña',
+  'profile.backend': 'Backend',
+  'profile.backend.http': 'API remota',
+  'profile.backend.demo': 'Demo (simulado no navegador)',
+  'profile.demo.speed': 'Velocidade',
+  'profile.demo.rowsPerSecond': '{count} fila/s|{count} filas/s',
+  'profile.demo.errorRate': 'Filas con erro',
+  'profile.demo.notFoundRate': 'Filas non atopadas',
+  'profile.demo.hint': 'O backend de demostración responde dende o navegador cunha pequena táboa de CP; ningún dato sae do equipo',
+  'profile.auth': 'Autenticación',
+  'profile.auth.none': 'Sen autenticación',
+  'profile.auth.apiKey': 'Chave de API',
+  'profile.auth.bearer': 'Token Bearer',
+  'profile.token': 'Token',
+  'profile.key': 'Chave',
+  'profile.show': 'Amosar',
+  'profile.hide': 'Ocultar',
+  'profile.keyHeader': 'Cabeceira da chave',
+  'profile.headers': 'Cabeceiras adicionais',
+  'profile.headerValue': 'Valor',
+  'profile.removeHeader': 'Quitar',
+  'profile.addHeader': 'Engadir cabeceira',
+  'profile.localOnly': 'Os perfís e as súas credenciais só se gardan neste navegador',
+  'profile.delete': 'Eliminar perfil',
+  'profile.save': 'Gardar',
+
+  'diagnostics.poll.off': 'Sen sondaxe',
+  'diagnostics.poll.30s': 'Cada 30 s',
+  'diagnostics.poll.1m': 'Cada minuto',
+  'diagnostics.poll.5m': 'Cada 5 min',
+  'diagnostics.checking': 'Comprobando...',
+  'diagnostics.checkNow': 'Comprobar agora',
+  'diagnostics.lastCheck': 'Última comprobación: {time}',
+  'diagnostics.latency': 'Latencia',
+  'diagnostics.average': 'Media: {ms} ms',
+  'diagnostics.version': 'Versión',
+  'diagnostics.history': 'Historial de latencia',
+  'diagnostics.endpoint': 'Endpoint',
+  'diagnostics.function': 'Función',
+  'diagnostics.optional': '{label} (opcional)',
+  'diagnostics.serverInfo': 'Información do servidor',
+  'diagnostics.probe.stream': 'Procesamento por lotes',
+  'diagnostics.probe.lookup': 'Busca individual',
+  'diagnostics.state.available': 'Dispoñible',
+  'diagnostics.state.missing': 'Non existe',
+  'diagnostics.state.failing': 'Con erros',
+  'diagnostics.state.unreachable': 'Sen resposta',
+  'diagnostics.warn.httpError': 'A API responde co erro {status}',
+  'diagnostics.warn.noResponse': 'A API non responde',
+  'diagnostics.warn.latency': 'Latencia alta ({ms} ms)',
+  'diagnostics.warn.missing': 'O endpoint {path} non existe nesta API',
+  'diagnostics.warn.unavailable': 'O endpoint {path} non está dispoñible',
+  'diagnostics.warn.unavailableStatus': 'O endpoint {path} non está dispoñible ({status})',
+
+  'error.http401': 'A API rexeitou as credenciais (401). Revisa a clave ou o token do perfil',
+  'error.http403': 'Acceso denegado (403). O perfil non ten permiso para usar esta API',
+  'error.invalidHeader': 'A cabeceira "{name}" do perfil non é válida. Revisa o seu nome e valor en Editar',
+  'error.httpStatus': 'Erro {status}: {statusText}',
+  'error.network': 'erro de rede',
+  'error.noBody': 'Non se puido ler a resposta',
+  'error.retriesExhausted': 'Non se puido completar a conexión tras {count} reintento ({reason})|Non se puido completar a conexión tras {count} reintentos ({reason})',
+  'error.streamTimeout': 'Non se recibiron datos en {seconds} s',
+  'error.decodeResult': 'Non se puido descodificar o resultado: {error}',
+  'error.worker': 'Erro ao ler o fluxo de eventos',
+  'error.noAddressColumn': 'Non se atopou ningunha columna de enderezos',
+  'error.noResult': 'A API non devolveu ningún resultado',
+  'protocol.notNumber': 'o campo "{field}" debe ser un número',
+  'protocol.notText': 'o campo "{field}" debe ser texto',
+  'protocol.stats': 'o campo "stats" falta ou non é válido',
+  'protocol.notObject': 'o evento non é un obxecto JSON',
+  'protocol.unknownStatus': 'estado de fila descoñecido: {status}',
+  'protocol.unknownType': 'tipo de evento descoñecido: {type}',
+  'protocol.invalidJson': 'JSON non válido',
+  'protocol.responseNotObject': 'a resposta non é un obxecto JSON'
+};
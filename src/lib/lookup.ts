@@ -0,0 +1,97 @@
+import { ProtocolError } from './events';
+import { streamJob, apiFetch, HttpError, type ApiConnection } from './api';
+import { buildRetryWorkbook } from './workbook';
+import { LocalizedError } from './errors';
+
+// Single-address lookups. Backends without the lookup endpoint are queried with a one-row workbook
+// through the batch stream instead, which gives the CP but no candidates.
+
+export const LOOKUP_ENDPOINT = '/geocodificar';
+
+export interface LookupQuery {
+  direccion: string;
+  municipio: string;
+  provincia?: string;
+}
+
+export interface LookupCandidate {
+  cp: string;
+  direccion?: string;
+  municipio?: string;
+  provincia?: string;
+}
+
+export interface LookupResult {
+  cp: string | null;
+  municipio?: string;
+  provincia?: string;
+  candidatos: LookupCandidate[];
+  source: 'lookup' | 'stream';
+}
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+const parseCandidate = (value: unknown): LookupCandidate | null => {
+  if (!isObject(value)) return null;
+  const cp = text(value.cp);
+  if (!cp) return null;
+  return { cp, direccion: text(value.direccion), municipio: text(value.municipio), provincia: text(value.provincia) };
+};
+
+export const parseLookupResponse = (value: unknown): LookupResult => {
+  if (!isObject(value)) throw new ProtocolError({ key: 'protocol.responseNotObject' });
+  const candidates = Array.isArray(value.candidatos) ? value.candidatos : [];
+  return {
+    cp: text(value.cp) ?? null,
+    municipio: text(value.municipio),
+    provincia: text(value.provincia),
+    candidatos: candidates.map(parseCandidate).filter((c): c is LookupCandidate => c !== null),
+    source: 'lookup'
+  };
+};
+
+const lookupThroughStream = async (api: ApiConnection, query: LookupQuery, signal?: AbortSignal): Promise<LookupResult> => {
+  const mapping = { sheet: '', direccion: 'direccion', municipio: 'municipio', ...(query.provincia && { provincia: 'provincia' }) };
+  const workbook = buildRetryWorkbook(mapping, [query]);
+  const events = streamJob(api, workbook.file, workbook.mapping, {
+    signal,
+    onProtocolError: err => { throw err; }
+  });
+
+  for await (const event of events) {
+    if (event.type === 'error') throw new Error(event.message);
+    if (event.type === 'row_error') throw new Error(event.error);
+    if (event.type === 'progress') {
+      return {
+        cp: event.status === 'found' && event.cp ? event.cp : null,
+        municipio: event.municipio || undefined,
+        candidatos: [],
+        source: 'stream'
+      };
+    }
+  }
+  throw new LocalizedError({ key: 'error.noResult' });
+};
+
+export const lookupAddress = async (api: ApiConnection, query: LookupQuery, signal?: AbortSignal): Promise<LookupResult> => {
+  const response = await apiFetch(api, `${api.baseUrl}${LOOKUP_ENDPOINT}`, {
+    method: 'POST',
+    headers: { ...api.headers, 'Content-Type': 'application/json' },
+    body: JSON.stringify(query),
+    signal
+  });
+
+  if (response.status === 404 || response.status === 405) {
+    return lookupThroughStream(api, query, signal);
+  }
+  if (!response.ok) {
+    throw new HttpError(response.status, response.statusText);
+  }
+  return parseLookupResponse(await response.json());
+};
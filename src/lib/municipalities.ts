@@ -0,0 +1,48 @@
+import { foldText } from './text';
+import PROVINCES_BY_NAME from './municipalities.json';
+
+// Province codes by normalized municipality name, used to cross-check the province prefix of
+// returned CPs; names missing from the table skip that check. municipalities.json is written by
+// `npm run municipalities -- <archivo>` from INE's list of municipalities and codes by province,
+// so rerun it with each new INE release and whenever normalizeMunicipality changes. Names shared
+// by several municipalities list every province they are found in.
+
+const ARTICLES = ['el', 'la', 'los', 'las', 'l\'', 'a', 'o', 'os', 'as', 'es', 'sa', 'els', 'les'];
+
+// "Palmas de Gran Canaria, Las" (INE order) and "Las Palmas de Gran Canaria" compare equal;
+// anything in parentheses, such as an appended province, is dropped
+export const normalizeMunicipality = (name: string) => {
+  let value = foldText(name).replace(/\(.*?\)/g, '').replace(/[’`]/g, '\'').replace(/\s+/g, ' ').trim();
+  const inverted = value.match(/^(.*),\s*(\S+)$/);
+  if (inverted && ARTICLES.includes(inverted[2])) {
+    value = inverted[2].endsWith('\'') ? `${inverted[2]}${inverted[1]}` : `${inverted[2]} ${inverted[1]}`;
+  }
+  return value;
+};
+
+// Municipality name and province code pairs to the table in municipalities.json. Bilingual
+// official names ("Alicante/Alacant") are split on "/" and both forms are listed.
+export const buildMunicipalityTable = (entries: Iterable<[code: string, name: string]>) => {
+  const table = new Map<string, Set<string>>();
+  for (const [code, name] of entries) {
+    for (const variant of [name, ...name.split('/')]) {
+      const key = normalizeMunicipality(variant);
+      if (!key) continue;
+      if (!table.has(key)) table.set(key, new Set());
+      table.get(key)!.add(code);
+    }
+  }
+  return Object.fromEntries([...table.keys()].sort().map(key => [key, [...table.get(key)!].sort()]));
+};
+
+const table: Record<string, string[] | undefined> = PROVINCES_BY_NAME;
+
+// Province codes a municipality name can belong to, or null when it is not in the table
+export const municipalityProvinces = (name: string | undefined): string[] | null => {
+  if (!name?.trim()) return null;
+  for (const variant of [name, ...name.split('/')]) {
+    const codes = table[normalizeMunicipality(variant)];
+    if (codes) return codes;
+  }
+  return null;
+};
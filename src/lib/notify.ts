@@ -0,0 +1,23 @@
+// Optional desktop notification when a job ends, so it can be left running in a background tab
+
+const NOTIFY_KEY = 'geocoder.notifyOnFinish';
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+export const loadNotifyOnFinish = () => notificationsSupported() && localStorage.getItem(NOTIFY_KEY) === 'true';
+
+export const saveNotifyOnFinish = (enabled: boolean) => {
+  localStorage.setItem(NOTIFY_KEY, String(enabled));
+};
+
+// Resolves to whether notifications may be shown; asks the user the first time
+export const requestNotifications = async () => {
+  if (!notificationsSupported() || Notification.permission === 'denied') return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const notify = (title: string, body: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  new Notification(title, { body, icon: '/favicon.svg' });
+};
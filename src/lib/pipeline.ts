@@ -0,0 +1,54 @@
+import { runAggregatedJob, type JobMessage, type JobRequest } from './aggregate';
+import { LocalizedError } from './errors';
+
+export type JobUpdate = Extract<JobMessage, { type: 'batch' } | { type: 'event' } | { type: 'reconnect' }>;
+
+// Runs a job in stream.worker.ts and yields its batched updates until the stream ends.
+// Without Worker support (e.g. Node) the same aggregation runs on the calling thread.
+export async function* streamJobBatched(request: JobRequest, signal?: AbortSignal): AsyncGenerator<JobUpdate> {
+  const queue: JobMessage[] = [];
+  let wake: (() => void) | null = null;
+  const post = (message: JobMessage) => {
+    queue.push(message);
+    wake?.();
+    wake = null;
+  };
+
+  let stop: () => void;
+  if (typeof Worker === 'undefined') {
+    const controller = new AbortController();
+    runAggregatedJob(request, post, controller.signal);
+    stop = () => controller.abort();
+  } else {
+    const worker = new Worker(new URL('./stream.worker.ts', import.meta.url), { type: 'module' });
+    worker.addEventListener('message', (e: MessageEvent<JobMessage>) => post(e.data));
+    worker.addEventListener('error', e => post({ type: 'failed', error: e.message || { key: 'error.worker' } }));
+    worker.postMessage(request);
+    stop = () => worker.terminate();
+  }
+
+  const onAbort = () => {
+    stop();
+    wake?.();
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    while (true) {
+      signal?.throwIfAborted();
+      const message = queue.shift();
+      if (!message) {
+        await new Promise<void>(resolve => { wake = resolve; });
+        continue;
+      }
+      if (message.type === 'end') return;
+      if (message.type === 'failed') {
+        throw typeof message.error === 'string' ? new Error(message.error) : new LocalizedError(message.error);
+      }
+      yield message;
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    stop();
+  }
+}
@@ -0,0 +1,30 @@
+import { PROVINCES, normalizePostalCode } from './provinces';
+import { municipalityProvinces } from './municipalities';
+import type { Message } from './i18n';
+
+// Client-side sanity checks for the CPs the API returns. A failed check does not drop the CP,
+// it marks the row as "dudoso" so it can be reviewed.
+
+const CP_PATTERN = /^\d{5}$/;
+
+// Returns why the CP looks wrong, or null when it passes every check
+export const checkPostalCode = (cp: string | undefined, municipio?: string): Message | null => {
+  const value = normalizePostalCode(cp);
+  if (!CP_PATTERN.test(value)) return { key: 'plausibility.digits', params: { cp: value } };
+
+  const prefix = value.slice(0, 2);
+  if (!(prefix in PROVINCES)) return { key: 'plausibility.prefix', params: { prefix } };
+
+  const expected = municipalityProvinces(municipio);
+  if (expected && !expected.includes(prefix)) {
+    const provinces = expected.map(code => PROVINCES[code]).join(' / ');
+    return { key: 'plausibility.province', params: { province: PROVINCES[prefix], municipio: municipio ?? '', provinces } };
+  }
+  return null;
+};
+
+// Status of a row reported as found, after the plausibility checks
+export const classifyFound = (cp: string | undefined, municipio?: string) => {
+  const warning = checkPostalCode(cp, municipio);
+  return warning ? { status: 'suspect' as const, warning } : { status: 'found' as const };
+};
@@ -0,0 +1,117 @@
+import { DEFAULT_DEMO_OPTIONS, DEMO_BASE_URL, type DemoOptions } from './demoOptions';
+import type { ApiConnection } from './api';
+import type { MessageKey } from './i18n';
+
+// Saved API deployments. Profiles (credentials included) only ever live in this browser's localStorage.
+
+export type AuthType = 'none' | 'apiKey' | 'bearer';
+
+/** `demo` profiles use the simulated in-browser backend instead of a deployment */
+export type BackendType = 'http' | 'demo';
+
+export interface HeaderEntry {
+  name: string;
+  value: string;
+}
+
+export interface ApiProfile {
+  id: string;
+  name: string;
+  baseUrl: string;
+  authType: AuthType;
+  /** API key or bearer token, depending on authType */
+  secret: string;
+  /** Header that carries the API key */
+  apiKeyHeader: string;
+  headers: HeaderEntry[];
+  backend: BackendType;
+  /** Speed and failure rates of the simulated backend */
+  demo: DemoOptions;
+}
+
+export const AUTH_LABELS: Record<AuthType, MessageKey> = {
+  none: 'profile.auth.none',
+  apiKey: 'profile.auth.apiKey',
+  bearer: 'profile.auth.bearer'
+};
+
+export const BACKEND_LABELS: Record<BackendType, MessageKey> = {
+  http: 'profile.backend.http',
+  demo: 'profile.backend.demo'
+};
+
+export const DEFAULT_PROFILE: ApiProfile = {
+  id: 'default',
+  name: 'Produccion',
+  baseUrl: 'https://apicp.si-erp.cloud',
+  authType: 'none',
+  secret: '',
+  apiKeyHeader: 'X-API-Key',
+  headers: [],
+  backend: 'http',
+  demo: DEFAULT_DEMO_OPTIONS
+};
+
+export const DEMO_PROFILE: ApiProfile = {
+  ...DEFAULT_PROFILE,
+  id: 'demo',
+  name: 'Demo',
+  baseUrl: DEMO_BASE_URL,
+  backend: 'demo'
+};
+
+const PROFILES_KEY = 'geocoder.apiProfiles';
+const ACTIVE_KEY = 'geocoder.activeProfile';
+
+export const createProfile = (): ApiProfile => ({
+  ...DEFAULT_PROFILE,
+  id: crypto.randomUUID(),
+  name: 'Nuevo perfil',
+  baseUrl: ''
+});
+
+// Profiles saved by older versions lack the newer fields
+export const completeProfile = (profile: Partial<ApiProfile>): ApiProfile => ({
+  ...DEFAULT_PROFILE,
+  ...profile,
+  demo: { ...DEFAULT_DEMO_OPTIONS, ...profile.demo }
+});
+
+export const loadProfiles = (): ApiProfile[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(PROFILES_KEY) || '[]');
+    if (Array.isArray(stored) && stored.length > 0) {
+      return stored.map(completeProfile);
+    }
+  } catch {
+    // Fall through to the default profile
+  }
+  return [DEFAULT_PROFILE];
+};
+
+export const saveProfiles = (profiles: ApiProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+};
+
+export const loadActiveProfileId = () => localStorage.getItem(ACTIVE_KEY);
+
+export const saveActiveProfileId = (id: string) => {
+  localStorage.setItem(ACTIVE_KEY, id);
+};
+
+export const profileHeaders = (profile: ApiProfile): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  for (const { name, value } of profile.headers) {
+    if (name.trim()) headers[name.trim()] = value;
+  }
+  if (profile.secret) {
+    if (profile.authType === 'bearer') headers['Authorization'] = `Bearer ${profile.secret}`;
+    if (profile.authType === 'apiKey') headers[profile.apiKeyHeader.trim() || DEFAULT_PROFILE.apiKeyHeader] = profile.secret;
+  }
+  return headers;
+};
+
+export const toConnection = (profile: ApiProfile): ApiConnection =>
+  profile.backend === 'demo'
+    ? { baseUrl: DEMO_BASE_URL, headers: {}, demo: profile.demo }
+    : { baseUrl: profile.baseUrl.trim().replace(/\/+$/, ''), headers: profileHeaders(profile) };
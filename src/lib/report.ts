@@ -0,0 +1,145 @@
+import { toCsv } from './formats';
+import type { Cell, ColumnMapping, ProcessedRow } from './workbook';
+import type { LogEntry, ProcessingResult } from './types';
+import type { Translator } from './i18n';
+
+// Worklist of the rows that need attention, with enough context about the run to trace it back
+
+export type ReportScope = 'not_found' | 'suspect' | 'errors' | 'all';
+export type ReportFormat = 'csv' | 'json';
+
+export const REPORT_SCOPES: Record<ReportScope, string> = {
+  not_found: 'Solo no encontradas',
+  suspect: 'Solo dudosas',
+  errors: 'Solo errores',
+  all: 'Todas las filas'
+};
+
+export const REPORT_FORMATS: Record<ReportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON'
+};
+
+export interface ReportMeta {
+  fileName: string;
+  fileSize?: number;
+  apiUrl: string;
+  startedAt: number;
+  finishedAt: number;
+  result: ProcessingResult | null;
+  mapping: ColumnMapping | null;
+}
+
+export interface ReportRow {
+  fila: number;
+  estado: ProcessedRow['status'];
+  direccion: string;
+  municipio: string;
+  cp: string;
+  error: string;
+  aviso: string;
+  corregido: boolean;
+  hora: string | null;
+}
+
+export const STATUS_NAMES: Record<ProcessedRow['status'], string> = {
+  found: 'encontrado',
+  suspect: 'dudoso',
+  not_found: 'no encontrado',
+  error: 'error'
+};
+
+const inScope = (row: ProcessedRow, scope: ReportScope) =>
+  scope === 'all' || row.status === (scope === 'errors' ? 'error' : scope);
+
+// `source` holds the original sheet rows in processing order; row_error events carry no address,
+// so it is used to fill it in when the input file is still at hand. Warnings are written in the
+// language of `translate`.
+export const buildReportRows = (
+  rows: ProcessedRow[],
+  log: LogEntry[],
+  scope: ReportScope,
+  translate: Translator['translate'],
+  source?: { header: Cell[]; rows: Cell[][] },
+  mapping?: ColumnMapping | null
+): ReportRow[] => {
+  const lastSeen = new Map<number, Date>();
+  for (const entry of log) {
+    if (entry.row !== undefined) lastSeen.set(entry.row, new Date(entry.timestamp));
+  }
+
+  const column = (name?: string) => (source && name ? source.header.findIndex(h => String(h) === name) : -1);
+  const direccionIndex = column(mapping?.direccion);
+  const municipioIndex = column(mapping?.municipio);
+  const original = (index: number, columnIndex: number) =>
+    columnIndex >= 0 ? String(source?.rows[index]?.[columnIndex] ?? '') : '';
+
+  return rows.flatMap((row, index) => inScope(row, scope)
+    ? [{
+        fila: row.row,
+        estado: row.status,
+        direccion: row.direccion || original(index, direccionIndex),
+        municipio: row.municipio || original(index, municipioIndex),
+        cp: row.cp ?? '',
+        error: row.error ?? '',
+        aviso: row.warning ? translate(row.warning) : '',
+        corregido: row.manual ?? false,
+        hora: lastSeen.get(row.row)?.toISOString() ?? null
+      }]
+    : []);
+};
+
+const metadata = (meta: ReportMeta, scope: ReportScope) => ({
+  archivo: meta.fileName,
+  tamano: meta.fileSize ?? null,
+  hoja: meta.mapping?.sheet ?? null,
+  api: meta.apiUrl,
+  inicio: new Date(meta.startedAt).toISOString(),
+  fin: new Date(meta.finishedAt).toISOString(),
+  duracionSegundos: Math.round((meta.finishedAt - meta.startedAt) / 1000),
+  filtro: scope,
+  estadisticas: meta.result
+});
+
+export const buildReport = (meta: ReportMeta, rows: ReportRow[], scope: ReportScope, format: ReportFormat): Blob => {
+  const info = metadata(meta, scope);
+
+  if (format === 'json') {
+    const report = { generado: new Date().toISOString(), ...info, filas: rows };
+    return new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+  }
+
+  // Metadata block, a blank line and then the worklist itself
+  const stats = meta.result;
+  return toCsv([
+    ['Archivo', info.archivo],
+    ['Tamano (bytes)', info.tamano ?? ''],
+    ['Hoja', info.hoja ?? ''],
+    ['API', info.api],
+    ['Inicio', info.inicio],
+    ['Fin', info.fin],
+    ['Duracion (s)', info.duracionSegundos],
+    ['Filtro', REPORT_SCOPES[scope]],
+    ['Total', stats?.total ?? ''],
+    ['Encontrados', stats?.encontrados ?? ''],
+    ['Dudosos', stats?.dudosos ?? ''],
+    ['No encontrados', stats?.noEncontrados ?? ''],
+    ['Errores', stats?.errores ?? ''],
+    [],
+    ['Fila', 'Estado', 'Direccion', 'Municipio', 'CP', 'Error', 'Aviso', 'Corregido', 'Hora'],
+    ...rows.map(row => [
+      row.fila,
+      STATUS_NAMES[row.estado],
+      row.direccion,
+      row.municipio,
+      row.cp,
+      row.error,
+      row.aviso,
+      row.corregido ? 'si' : '',
+      row.hora ?? ''
+    ])
+  ]);
+};
+
+export const reportFilename = (fileName: string, scope: ReportScope, format: ReportFormat) =>
+  `${fileName.replace(/\.[^.]+$/, '')}_informe_${scope}.${format}`;
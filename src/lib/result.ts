@@ -0,0 +1,123 @@
+import { apiFetch, HttpError, type ApiConnection } from './api';
+import { decodeBase64Chunks } from './base64';
+import { LocalizedError } from './errors';
+import type { CompleteEvent } from './events';
+import type { DecodeMessage, DecodeRequest } from './decode.worker';
+import { XLSX_MIME } from './workbook';
+
+// The result workbook either comes inline in the `complete` event (base64) or, on current
+// deployments, as a job id / download URL that is fetched as a streamed binary download.
+
+// Download route for results referenced only by job id
+export const RESULT_ENDPOINT = '/resultado';
+
+export interface ResultProgress {
+  phase: 'download' | 'decode';
+  loaded: number;
+  /** Null when the server does not send a Content-Length */
+  total: number | null;
+}
+
+export interface ResultFileOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: ResultProgress) => void;
+}
+
+const resultUrl = (api: ApiConnection, event: CompleteEvent) => {
+  if (event.download_url) return new URL(event.download_url, `${api.baseUrl}/`).href;
+  return `${api.baseUrl}${RESULT_ENDPOINT}/${encodeURIComponent(event.job_id ?? '')}`;
+};
+
+// Credentials only go to the API itself, not to e.g. a presigned storage URL
+const sameOrigin = (url: string, baseUrl: string) => {
+  try {
+    return new URL(url).origin === new URL(baseUrl).origin;
+  } catch {
+    return false;
+  }
+};
+
+export const downloadResultFile = async (
+  api: ApiConnection,
+  url: string,
+  options: ResultFileOptions = {}
+): Promise<Blob> => {
+  const response = await apiFetch(api, url, {
+    headers: sameOrigin(url, api.baseUrl) ? api.headers : {},
+    signal: options.signal
+  });
+  if (!response.ok) throw new HttpError(response.status, response.statusText);
+  const type = response.headers.get('Content-Type') || XLSX_MIME;
+  if (!response.body) return new Blob([await response.arrayBuffer()], { type });
+
+  const length = Number(response.headers.get('Content-Length'));
+  const total = Number.isFinite(length) && length > 0 ? length : null;
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  let loaded = 0;
+
+  const reader = response.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+    loaded += value.length;
+    options.onProgress?.({ phase: 'download', loaded, total });
+  }
+  return new Blob(parts, { type });
+};
+
+const decodeInWorker = (base64: string, options: ResultFileOptions) =>
+  new Promise<Blob>((resolve, reject) => {
+    const worker = new Worker(new URL('./decode.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      finish();
+      reject(options.signal?.reason);
+    };
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.addEventListener('message', (e: MessageEvent<DecodeMessage>) => {
+      const message = e.data;
+      if (message.type === 'progress') {
+        options.onProgress?.({ phase: 'decode', loaded: message.loaded, total: message.total });
+        return;
+      }
+      finish();
+      if (message.type === 'done') resolve(message.blob);
+      else reject(new LocalizedError({ key: 'error.decodeResult', params: { error: message.message } }));
+    });
+    worker.addEventListener('error', e => {
+      finish();
+      reject(new LocalizedError({ key: 'error.decodeResult', params: { error: e.message } }));
+    });
+    worker.postMessage({ base64, type: XLSX_MIME } satisfies DecodeRequest);
+  });
+
+// Same decoding on the calling thread, yielding between chunks so the page keeps repainting
+const decodeInline = async (base64: string, options: ResultFileOptions) => {
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  for (const chunk of decodeBase64Chunks(base64)) {
+    options.signal?.throwIfAborted();
+    parts.push(chunk.bytes);
+    options.onProgress?.({ phase: 'decode', loaded: chunk.loaded, total: chunk.total });
+    await new Promise(resolve => setTimeout(resolve, 0));
+  }
+  return new Blob(parts, { type: XLSX_MIME });
+};
+
+export const decodeResultFile = (base64: string, options: ResultFileOptions = {}): Promise<Blob> =>
+  typeof Worker === 'undefined' ? decodeInline(base64, options) : decodeInWorker(base64, options);
+
+// Result workbook of a finished job, or null when the server did not produce one
+export const resolveResultFile = async (
+  api: ApiConnection,
+  event: CompleteEvent,
+  options: ResultFileOptions = {}
+): Promise<Blob | null> => {
+  if (event.download_url || event.job_id) return downloadResultFile(api, resultUrl(api, event), options);
+  if (event.file) return decodeResultFile(event.file, options);
+  return null;
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { createSSEParser, readSSEStream, StreamTimeoutError, type SSEMessage } from './sse';
+
+const encoder = new TextEncoder();
+
+// Feeds the chunks one by one and collects every event, including the ones flushed at the end
+const parse = (...chunks: (string | Uint8Array)[]): SSEMessage[] => {
+  const parser = createSSEParser();
+  const messages = chunks.flatMap(chunk => parser.feed(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+  return [...messages, ...parser.end()];
+};
+
+const message = (data: string, fields: Partial<SSEMessage> = {}): SSEMessage =>
+  ({ event: 'message', data, lastEventId: '', retry: undefined, ...fields });
+
+describe('createSSEParser', () => {
+  it('parses complete events', () => {
+    expect(parse('data: uno\n\ndata: dos\n\n')).toEqual([message('uno'), message('dos')]);
+  });
+
+  it('joins a line split across chunks', () => {
+    expect(parse('da', 'ta: {"type":', '"start"}', '\n', '\n')).toEqual([message('{"type":"start"}')]);
+  });
+
+  it('only returns an event once its blank line arrives', () => {
+    const parser = createSSEParser();
+    expect(parser.feed(encoder.encode('data: uno\n'))).toEqual([]);
+    expect(parser.feed(encoder.encode('\n'))).toEqual([message('uno')]);
+  });
+
+  it('decodes a UTF-8 character split across chunks', () => {
+    const bytes = encoder.encode('data: Málaga\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    expect(parse(bytes.slice(0, split), bytes.slice(split))).toEqual([message('Málaga')]);
+  });
+
+  it('treats CRLF split across chunks as one line break', () => {
+    expect(parse('data: uno\r', '\n\r', '\ndata: dos\r\n\r\n')).toEqual([message('uno'), message('dos')]);
+  });
+
+  it('accepts CR and LF line endings', () => {
+    expect(parse('data: uno\r\rdata: dos\n\n')).toEqual([message('uno'), message('dos')]);
+  });
+
+  it('ignores comments, including heartbeats between events', () => {
+    expect(parse(': heartbeat\n\ndata: uno\n: dentro del evento\n\n')).toEqual([message('uno')]);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    expect(parse('data: uno\ndata:dos\ndata\n\n')).toEqual([message('uno\ndos\n')]);
+  });
+
+  it('keeps the event type, id and retry fields', () => {
+    expect(parse('event: fila\nid: 7\nretry: 3000\ndata: x\n\ndata: y\n\n')).toEqual([
+      message('x', { event: 'fila', lastEventId: '7', retry: 3000 }),
+      message('y', { lastEventId: '7' })
+    ]);
+  });
+
+  it('ignores invalid retry values and ids with NUL', () => {
+    expect(parse('id: 1\n\nid: a\0b\nretry: 1s\ndata: x\n\n')).toEqual([message('x', { lastEventId: '1' })]);
+  });
+
+  it('does not dispatch events without data', () => {
+    expect(parse('event: vacio\n\n')).toEqual([]);
+  });
+
+  it('strips a leading byte order mark', () => {
+    expect(parse('\ufeffdata: uno\n\n')).toEqual([message('uno')]);
+  });
+
+  it('discards a trailing event without its blank line at the end', () => {
+    expect(parse('data: uno\n\ndata: dos')).toEqual([message('uno')]);
+  });
+});
+
+describe('readSSEStream', () => {
+  const streamOf = (...chunks: string[]) =>
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      }
+    });
+
+  it('yields the events of a body', async () => {
+    const events: SSEMessage[] = [];
+    for await (const event of readSSEStream(streamOf('data: u', 'no\n\ndata: dos\n\n'))) events.push(event);
+    expect(events).toEqual([message('uno'), message('dos')]);
+  });
+
+  it('throws StreamTimeoutError when the body goes quiet', async () => {
+    const silent = new ReadableStream<Uint8Array>();
+    const read = async () => {
+      for await (const _ of readSSEStream(silent, { idleTimeout: 20 })) { /* no events */ }
+    };
+    await expect(read()).rejects.toBeInstanceOf(StreamTimeoutError);
+  });
+});
@@ -0,0 +1,164 @@
+import { LocalizedError } from './errors';
+
+// Incremental parser for text/event-stream responses
+// (https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation)
+
+export interface SSEMessage {
+  event: string;
+  data: string;
+  lastEventId: string;
+  retry?: number;
+}
+
+export interface SSEParser {
+  /** Decodes a chunk of the response body and returns the events completed by it */
+  feed: (chunk: Uint8Array) => SSEMessage[];
+  /** Flushes the decoder at end of stream. A trailing event without its blank line is discarded,
+   *  as the spec requires: it may be half of a row cut off by a dropped connection. */
+  end: () => SSEMessage[];
+}
+
+export const createSSEParser = (): SSEParser => {
+  const decoder = new TextDecoder('utf-8');
+  // Pieces of the current, unfinished line; only new text is scanned, so a huge `data:` line
+  // (e.g. an inline result file) arriving in many chunks stays linear
+  let pending: string[] = [];
+  let skipLeadingLF = false;
+  let isFirstChunk = true;
+
+  let eventType = '';
+  let data: string[] = [];
+  let lastEventId = '';
+  let retry: number | undefined;
+  let hasFields = false;
+
+  const dispatch = (messages: SSEMessage[]) => {
+    if (data.length > 0) {
+      messages.push({ event: eventType || 'message', data: data.join('\n'), lastEventId, retry });
+    }
+    eventType = '';
+    data = [];
+    retry = undefined;
+    hasFields = false;
+  };
+
+  const processLine = (line: string, messages: SSEMessage[]) => {
+    if (line === '') {
+      dispatch(messages);
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    hasFields = true;
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) retry = parseInt(value, 10);
+        break;
+    }
+  };
+
+  const processText = (text: string, messages: SSEMessage[]) => {
+    if (isFirstChunk && text.length > 0) {
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+      isFirstChunk = false;
+    }
+
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\n' && skipLeadingLF && i === start) {
+        // Second half of a CRLF split across chunks
+        skipLeadingLF = false;
+        start = i + 1;
+        continue;
+      }
+      skipLeadingLF = false;
+      if (char === '\r' || char === '\n') {
+        pending.push(text.slice(start, i));
+        processLine(pending.join(''), messages);
+        pending = [];
+        if (char === '\r') {
+          if (text[i + 1] === '\n') i++;
+          else if (i + 1 === text.length) skipLeadingLF = true;
+        }
+        start = i + 1;
+      }
+    }
+    if (start < text.length) pending.push(text.slice(start));
+  };
+
+  return {
+    feed: (chunk) => {
+      const messages: SSEMessage[] = [];
+      processText(decoder.decode(chunk, { stream: true }), messages);
+      return messages;
+    },
+    end: () => {
+      const messages: SSEMessage[] = [];
+      processText(decoder.decode(), messages);
+      pending = [];
+      return messages;
+    }
+  };
+};
+
+export class StreamTimeoutError extends LocalizedError {
+  constructor(timeout: number) {
+    super({ key: 'error.streamTimeout', params: { seconds: Math.round(timeout / 1000) } });
+    this.name = 'StreamTimeoutError';
+  }
+}
+
+export interface ReadSSEOptions {
+  /** Cancels the body and throws StreamTimeoutError when no bytes (events or comment heartbeats) arrive for this long */
+  idleTimeout?: number;
+}
+
+// Reads one chunk, giving up after `timeout` ms
+const readWithTimeout = <T>(reader: ReadableStreamDefaultReader<T>, timeout?: number) => {
+  if (!timeout) return reader.read();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new StreamTimeoutError(timeout)), timeout);
+  });
+  return Promise.race([reader.read(), expired]).finally(() => clearTimeout(timer));
+};
+
+// Yields the events of a response body as they arrive, flushing the parser when the stream ends
+export async function* readSSEStream(body: ReadableStream<Uint8Array>, options: ReadSSEOptions = {}): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const parser = createSSEParser();
+  try {
+    while (true) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await readWithTimeout(reader, options.idleTimeout);
+      } catch (err) {
+        if (err instanceof StreamTimeoutError) reader.cancel().catch(() => {});
+        throw err;
+      }
+      const { done, value } = chunk;
+      if (value) yield* parser.feed(value);
+      if (done) {
+        yield* parser.end();
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
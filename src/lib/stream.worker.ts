@@ -0,0 +1,8 @@
+import { runAggregatedJob, type JobRequest } from './aggregate';
+
+// Reads, parses and aggregates one processing stream away from the UI thread.
+// Cancelling is done by terminating the worker.
+
+self.addEventListener('message', (e: MessageEvent<JobRequest>) => {
+  runAggregatedJob(e.data, message => self.postMessage(message));
+});
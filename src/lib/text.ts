@@ -0,0 +1,3 @@
+// Lower-cases and strips diacritics so "Málaga" and "MALAGA" compare equal
+export const foldText = (value: string) =>
+  value.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
@@ -0,0 +1,48 @@
+// Rows per second of a running job, from the `stats.procesadas` count sampled once per second
+
+export interface ThroughputSample {
+  at: number;
+  /** Rows the API has processed so far in this upload */
+  processed: number;
+  /** Rows in this upload */
+  total: number;
+}
+
+export interface Throughput {
+  /** Since the first sample */
+  overall: number;
+  /** Over the last ROLLING_WINDOW ms */
+  recent: number;
+  /** Seconds left at the recent rate, null until there is a rate to go by */
+  eta: number | null;
+}
+
+export const ROLLING_WINDOW = 30000;
+
+export const SPARKLINE_POINTS = 60;
+
+const rate = (from: ThroughputSample, to: ThroughputSample) =>
+  to.at > from.at ? ((to.processed - from.processed) * 1000) / (to.at - from.at) : 0;
+
+export const measureThroughput = (samples: ThroughputSample[]): Throughput | null => {
+  if (samples.length < 2) return null;
+  const last = samples[samples.length - 1];
+  const windowStart = samples.find(sample => last.at - sample.at <= ROLLING_WINDOW) ?? samples[0];
+  const overall = rate(samples[0], last);
+  const recent = windowStart === last ? overall : rate(windowStart, last);
+
+  // A stalled window falls back to the overall rate rather than an endless ETA
+  const speed = recent > 0 ? recent : overall;
+  const eta = speed > 0 && last.total > 0 ? Math.max(0, Math.round((last.total - last.processed) / speed)) : null;
+  return { overall, recent, eta };
+};
+
+// Rate over equal slices of the run, so an hour-long job still fits in SPARKLINE_POINTS values
+export const throughputSeries = (samples: ThroughputSample[], points = SPARKLINE_POINTS): number[] => {
+  if (samples.length < 2) return [];
+  const slices = Math.min(points, samples.length - 1);
+  const step = (samples.length - 1) / slices;
+  return Array.from({ length: slices }, (_, i) =>
+    rate(samples[Math.round(i * step)], samples[Math.round((i + 1) * step)])
+  );
+};
@@ -0,0 +1,25 @@
+// Shapes shared between the app, its panels and the job history
+
+export interface ProcessingResult {
+  total: number;
+  encontrados: number;
+  /** Found CPs that failed the plausibility checks; not included in `encontrados` */
+  dudosos: number;
+  noEncontrados: number;
+  errores: number;
+  /** Rows answered from the lookup cache; absent in runs without it */
+  desdeCache?: number;
+}
+
+export interface LogEntry {
+  id: number;
+  type: 'info' | 'found' | 'suspect' | 'not_found' | 'error' | 'complete';
+  row?: number;
+  direccion?: string;
+  municipio?: string;
+  cp?: string;
+  message?: string;
+  timestamp: Date;
+}
+
+export type ApiStatus = 'checking' | 'online' | 'offline' | 'unauthorized';
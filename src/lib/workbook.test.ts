@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as XLSX from 'xlsx';
+import {
+  expandResultWorkbook,
+  patchResultWorkbook,
+  buildRetryWorkbook,
+  MANUAL_FIX_HEADER,
+  XLSX_MIME,
+  type Cell,
+  type ColumnMapping,
+  type ProcessedRow,
+  type SheetRows
+} from './workbook';
+
+const MAPPING: ColumnMapping = { sheet: 'Direcciones', direccion: 'Direccion', municipio: 'Municipio' };
+
+// Result workbook as the server writes it: the input columns, the CP, a column of its own and a
+// second sheet, with column widths set
+const serverWorkbook = (rows: Cell[][]) => {
+  const workbook = XLSX.utils.book_new();
+  const sheet = XLSX.utils.aoa_to_sheet([['Direccion', 'Municipio', 'CP', 'Precision'], ...rows]);
+  sheet['!cols'] = [{ wch: 30 }, { wch: 20 }, { wch: 8 }, { wch: 10 }];
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Direcciones');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([['Generado por el geocodificador']]), 'Notas');
+  return new Blob([XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer], { type: XLSX_MIME });
+};
+
+const open = async (blob: Blob) => XLSX.read(await blob.arrayBuffer(), { type: 'array', cellStyles: true });
+
+const rowsOf = (workbook: XLSX.WorkBook, name: string) =>
+  XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[name], { header: 1, defval: '' });
+
+describe('expandResultWorkbook', () => {
+  const source: SheetRows = {
+    header: ['Direccion', 'Municipio'],
+    rows: [
+      ['Gran Vía 1', 'Madrid'],
+      ['Calle Larios 2', 'Málaga'],
+      ['gran via, 1', 'MADRID'],
+      ['Calle Mayor 3', 'Madrid']
+    ]
+  };
+  const processed: ProcessedRow[] = [
+    { row: 2, status: 'found', cp: '28013' },
+    { row: 3, status: 'found', cp: '29005' },
+    { row: 4, status: 'found', cp: '28013' },
+    { row: 5, status: 'found', cp: '28013', cached: true }
+  ];
+
+  it('expands the uploaded pairs back to every source row', async () => {
+    const result = serverWorkbook([['Gran Vía 1', 'Madrid', '28013', 'alta'], ['Calle Larios 2', 'Málaga', '29005', 'media']]);
+    const workbook = await open(await expandResultWorkbook('Direcciones', source, processed, [0, 1, 0, -1], result));
+
+    expect(rowsOf(workbook, 'Direcciones')).toEqual([
+      ['Direccion', 'Municipio', 'CP', 'Precision'],
+      ['Gran Vía 1', 'Madrid', '28013', 'alta'],
+      ['Calle Larios 2', 'Málaga', '29005', 'media'],
+      ['gran via, 1', 'MADRID', '28013', 'alta'],
+      ['Calle Mayor 3', 'Madrid', '28013', '']
+    ]);
+  });
+
+  it('keeps the other sheets and the column widths of the server workbook', async () => {
+    const result = serverWorkbook([['Gran Vía 1', 'Madrid', '28013', 'alta'], ['Calle Larios 2', 'Málaga', '29005', 'media']]);
+    const workbook = await open(await expandResultWorkbook('Direcciones', source, processed, [0, 1, 0, -1], result));
+
+    expect(workbook.SheetNames).toEqual(['Direcciones', 'Notas']);
+    expect(rowsOf(workbook, 'Notas')).toEqual([['Generado por el geocodificador']]);
+    expect(workbook.Sheets.Direcciones['!cols']?.map(col => col.wch)).toEqual([30, 20, 8, 10]);
+  });
+
+  it('builds a sheet from the source rows when the server sent no workbook', async () => {
+    const workbook = await open(await expandResultWorkbook('Direcciones', source, processed.slice(0, 2), [-1, -1], null));
+
+    expect(rowsOf(workbook, 'Direcciones')).toEqual([
+      ['Direccion', 'Municipio', 'CP'],
+      ['Gran Vía 1', 'Madrid', '28013'],
+      ['Calle Larios 2', 'Málaga', '29005']
+    ]);
+  });
+});
+
+describe('patchResultWorkbook', () => {
+  it('writes corrections into their rows in place and flags them', async () => {
+    const result = serverWorkbook([
+      ['Gran Vía 1', 'Madrid', '28013', 'alta'],
+      ['Calle Larios', 'Malaga', '', ''],
+      ['Calle Mayor 3', 'Madrid', '28013', 'alta']
+    ]);
+    const patched = await patchResultWorkbook(result, MAPPING, [
+      { index: 1, direccion: 'Calle Larios 2', municipio: 'Málaga', cp: '29005' }
+    ]);
+    const workbook = await open(patched);
+
+    expect(rowsOf(workbook, 'Direcciones')).toEqual([
+      ['Direccion', 'Municipio', 'CP', 'Precision', MANUAL_FIX_HEADER],
+      ['Gran Vía 1', 'Madrid', '28013', 'alta', ''],
+      ['Calle Larios 2', 'Málaga', '29005', '', 'Si'],
+      ['Calle Mayor 3', 'Madrid', '28013', 'alta', '']
+    ]);
+    expect(workbook.SheetNames).toEqual(['Direcciones', 'Notas']);
+    expect(workbook.Sheets.Direcciones['!cols']?.slice(0, 4).map(col => col.wch)).toEqual([30, 20, 8, 10]);
+  });
+
+  it('reuses the flag column on a second round of corrections', async () => {
+    const result = serverWorkbook([['Calle Larios', 'Malaga', '', ''], ['Gran Via', 'Madird', '', '']]);
+    const first = await patchResultWorkbook(result, MAPPING, [{ index: 0, direccion: 'Calle Larios 2', municipio: 'Málaga', cp: '29005' }]);
+    const second = await patchResultWorkbook(first, MAPPING, [{ index: 1, direccion: 'Gran Vía 1', municipio: 'Madrid', cp: '28013' }]);
+
+    expect(rowsOf(await open(second), 'Direcciones')).toEqual([
+      ['Direccion', 'Municipio', 'CP', 'Precision', MANUAL_FIX_HEADER],
+      ['Calle Larios 2', 'Málaga', '29005', '', 'Si'],
+      ['Gran Vía 1', 'Madrid', '28013', '', 'Si']
+    ]);
+  });
+});
+
+describe('buildRetryWorkbook', () => {
+  it('sends the provincia column when the mapping has one', async () => {
+    const { file, mapping } = buildRetryWorkbook({ ...MAPPING, provincia: 'Provincia' }, [
+      { direccion: 'Calle Real 1', municipio: 'Arroyomolinos', provincia: 'Cáceres' }
+    ]);
+
+    expect(mapping).toEqual({ sheet: 'Correcciones', direccion: 'Direccion', municipio: 'Municipio', provincia: 'Provincia' });
+    expect(rowsOf(await open(file), 'Correcciones')).toEqual([
+      ['Direccion', 'Municipio', 'Provincia'],
+      ['Calle Real 1', 'Arroyomolinos', 'Cáceres']
+    ]);
+  });
+});
@@ -0,0 +1,329 @@
+import * as XLSX from 'xlsx';
+import { foldText } from './text';
+import { loadWorkbook, DEFAULT_TEXT_OPTIONS, type DetectedText, type TextOptions } from './formats';
+import type { Message } from './i18n';
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const PREVIEW_ROWS = 5;
+
+export interface ProcessedRow {
+  row: number;
+  /** `suspect` rows have a CP that failed the plausibility checks (shown as "dudoso") */
+  status: 'found' | 'suspect' | 'not_found' | 'error';
+  direccion?: string;
+  municipio?: string;
+  cp?: string;
+  error?: string;
+  /** Why a suspect CP was flagged; plain text when read back from a report */
+  warning?: Message | string;
+  manual?: boolean;
+  /** Copied from the lookup cache instead of geocoded in this run */
+  cached?: boolean;
+}
+
+export type Cell = string | number | boolean | null;
+
+export interface SheetPreview {
+  name: string;
+  header: string[];
+  rows: Cell[][];
+  rowCount: number;
+}
+
+export interface SheetRows {
+  header: Cell[];
+  rows: Cell[][];
+}
+
+export interface ColumnMapping {
+  sheet: string;
+  direccion: string;
+  municipio: string;
+  provincia?: string;
+}
+
+export interface WorkbookPreviewData {
+  sheets: SheetPreview[];
+  detected: DetectedText | null;
+}
+
+const readSheet = async (source: Blob, sheet?: string, options: TextOptions = DEFAULT_TEXT_OPTIONS) => {
+  const workbook = source instanceof File
+    ? (await loadWorkbook(source, options)).workbook
+    : XLSX.read(await source.arrayBuffer(), { type: 'array' });
+  const sheetName = sheet && workbook.SheetNames.includes(sheet) ? sheet : workbook.SheetNames[0];
+  const rows = XLSX.utils.sheet_to_json<Cell[]>(workbook.Sheets[sheetName], { header: 1, defval: '' });
+  return { sheetName, rows };
+};
+
+const writeSheet = (sheetName: string, rows: Cell[][]) => {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+};
+
+// Single-sheet .xlsx built from in-memory rows
+export const buildWorkbook = (sheetName: string, rows: Cell[][]): Blob =>
+  new Blob([writeSheet(sheetName, rows)], { type: XLSX_MIME });
+
+// Only the first rows of every sheet are parsed; the full size comes from the sheet range
+export const readWorkbookPreview = async (
+  file: File,
+  options: TextOptions = DEFAULT_TEXT_OPTIONS
+): Promise<WorkbookPreviewData> => {
+  const { workbook, detected } = await loadWorkbook(file, options, { sheetRows: PREVIEW_ROWS + 1 });
+  const sheets = workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    const [header = [], ...rows] = XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, defval: '' });
+    const ref = sheet['!fullref'] || sheet['!ref'];
+    const rowCount = ref ? Math.max(XLSX.utils.decode_range(ref).e.r, 0) : 0;
+    return { name, header: header.map(cell => String(cell ?? '').trim()), rows, rowCount };
+  });
+  return { sheets, detected };
+};
+
+const normalize = (value: string) => foldText(value).replace(/[^a-z0-9]/g, '');
+
+const ADDRESS_HEADERS = ['direccion', 'domicilio', 'calle', 'via', 'address', 'direccionpostal', 'dircompleta'];
+const MUNICIPALITY_HEADERS = ['municipio', 'localidad', 'poblacion', 'ciudad', 'city', 'nombremunicipio'];
+const PROVINCE_HEADERS = ['provincia', 'province', 'prov'];
+
+const STREET_PATTERN =
+  /(^|\s)(c\/|(calle|cl|avda|av|avenida|pza|plaza|paseo|p[ºo]|ctra|carretera|camino|ronda|traves[ií]a|urb|urbanizaci[oó]n|pol[ií]gono)(?=[\s.,]|$))/i;
+
+const findHeader = (header: string[], candidates: string[]) => {
+  const normalized = header.map(normalize);
+  const exact = normalized.findIndex(name => candidates.includes(name));
+  if (exact >= 0) return exact;
+  return normalized.findIndex(name => name !== '' && candidates.some(c => name.startsWith(c)));
+};
+
+// A column is a plausible address column when most of its sampled cells look like street names
+const findAddressByContent = (sheet: SheetPreview) => {
+  const samples = sheet.rows.filter(row => row.some(cell => cell !== ''));
+  if (samples.length === 0) return -1;
+  return sheet.header.findIndex((_, col) => {
+    const hits = samples.filter(row => STREET_PATTERN.test(String(row[col] ?? ''))).length;
+    return hits / samples.length >= 0.5;
+  });
+};
+
+export const guessMapping = (sheet: SheetPreview): ColumnMapping | null => {
+  let direccion = findHeader(sheet.header, ADDRESS_HEADERS);
+  if (direccion < 0) direccion = findAddressByContent(sheet);
+  if (direccion < 0) return null;
+
+  const municipio = findHeader(sheet.header, MUNICIPALITY_HEADERS);
+  const provincia = findHeader(sheet.header, PROVINCE_HEADERS);
+  const fallback = sheet.header.find((name, i) => i !== direccion && name !== '') ?? '';
+
+  return {
+    sheet: sheet.name,
+    direccion: sheet.header[direccion],
+    municipio: municipio >= 0 ? sheet.header[municipio] : fallback,
+    provincia: provincia >= 0 ? sheet.header[provincia] : undefined
+  };
+};
+
+// Picks the first sheet with a plausible address column
+export const guessWorkbookMapping = (sheets: SheetPreview[]): ColumnMapping | null => {
+  for (const sheet of sheets) {
+    const mapping = guessMapping(sheet);
+    if (mapping) return mapping;
+  }
+  return null;
+};
+
+// Full header and data rows of the sheet, used to show the original data of a processed row
+export const readSheetRows = async (
+  file: File,
+  sheet?: string,
+  options: TextOptions = DEFAULT_TEXT_OPTIONS
+): Promise<SheetRows> => {
+  const [header = [], ...rows] = (await readSheet(file, sheet, options)).rows;
+  return { header, rows };
+};
+
+// Builds an .xlsx copy of the sheet keeping the header and only the data rows after `skipRows`.
+// Also used with `skipRows = 0` to convert CSV/TSV/ODS inputs before uploading them.
+export const sliceWorkbook = async (
+  file: File,
+  skipRows: number,
+  sheet?: string,
+  options: TextOptions = DEFAULT_TEXT_OPTIONS
+): Promise<File> => {
+  const { sheetName, rows } = await readSheet(file, sheet, options);
+  const [header = [], ...data] = rows;
+  const buffer = writeSheet(sheetName, [header, ...data.slice(skipRows)]);
+  const name = file.name.replace(/\.[^.]+$/, '') + '.xlsx';
+  return new File([buffer], name, { type: XLSX_MIME });
+};
+
+export const isCpHeader = (value: Cell) => /^(cp|c\.p\.|codigo[\s_]?postal|código[\s_]?postal)$/i.test(String(value).trim());
+
+// .xlsx with the header and only the given data rows, in that order
+export const pickRows = (name: string, sheetName: string, source: SheetRows, indices: number[]): File => {
+  const buffer = writeSheet(sheetName, [source.header, ...indices.map(index => source.rows[index])]);
+  return new File([buffer], name.replace(/\.[^.]+$/, '') + '.xlsx', { type: XLSX_MIME });
+};
+
+// Result workbooks from the server are patched in place rather than rebuilt, so their other
+// sheets, column widths and number formats survive
+const readResultWorkbook = async (result: Blob) =>
+  XLSX.read(await result.arrayBuffer(), { type: 'array', cellStyles: true, cellNF: true });
+
+const writeResultWorkbook = (workbook: XLSX.WorkBook) =>
+  new Blob([XLSX.write(workbook, { type: 'array', bookType: 'xlsx', cellStyles: true }) as ArrayBuffer], { type: XLSX_MIME });
+
+// Sheet the server wrote the results to: the one named like the input sheet, else the first
+const resultSheetName = (workbook: XLSX.WorkBook, sheetName: string) =>
+  workbook.SheetNames.includes(sheetName) ? sheetName : workbook.SheetNames[0];
+
+// Cells of a sheet addressed from its top-left corner, with the header row as values
+const sheetGrid = (sheet: XLSX.WorkSheet) => {
+  const range = XLSX.utils.decode_range(sheet['!ref'] ?? 'A1');
+  const address = (row: number, col: number) => XLSX.utils.encode_cell({ r: range.s.r + row, c: range.s.c + col });
+  const cellAt = (row: number, col: number): XLSX.CellObject | undefined => sheet[address(row, col)];
+  const header: Cell[] = Array.from({ length: range.e.c - range.s.c + 1 }, (_, col) => (cellAt(0, col)?.v ?? '') as Cell);
+  return { range, address, cellAt, header };
+};
+
+// New cell holding `value`, with the format of `base` when given
+const toCell = (value: Cell, base?: XLSX.CellObject): XLSX.CellObject => {
+  const format = { ...(base?.s && { s: base.s }), ...(base?.z && { z: base.z }) };
+  if (typeof value === 'number') return { t: 'n', v: value, ...format };
+  if (typeof value === 'boolean') return { t: 'b', v: value, ...format };
+  return { t: 's', v: value ?? '', ...format };
+};
+
+// Result workbook with every row of the original sheet and the CP found for it. `positions` gives
+// the row of `result` each data row was answered by (-1 when not uploaded in this run), so columns
+// the server adds are kept for those rows. Without a result from the server a fresh sheet is built.
+export const expandResultWorkbook = async (
+  sheetName: string,
+  source: SheetRows,
+  processed: ProcessedRow[],
+  positions: number[],
+  result: Blob | null
+): Promise<Blob> => {
+  if (!result) {
+    const header = [...source.header];
+    let cpColumn = header.findIndex(isCpHeader);
+    if (cpColumn < 0) cpColumn = header.push('CP') - 1;
+    const rows = processed.map((entry, i) =>
+      header.map((_, col) => (col === cpColumn ? entry.cp ?? '' : source.rows[i]?.[col] ?? ''))
+    );
+    return buildWorkbook(sheetName, [header, ...rows]);
+  }
+
+  const workbook = await readResultWorkbook(result);
+  const name = resultSheetName(workbook, sheetName);
+  const sheet = workbook.Sheets[name];
+  const { range, address, cellAt, header } = sheetGrid(sheet);
+  let cpColumn = header.findIndex(isCpHeader);
+  if (cpColumn < 0) cpColumn = header.push('CP') - 1;
+  const sourceIndex = header.map(name => source.header.indexOf(name));
+
+  // Rows move to their place in the original sheet, so everything keyed by row is rebuilt;
+  // sheet-wide settings such as column widths are kept
+  const patched: XLSX.WorkSheet = {};
+  for (const key of Object.keys(sheet)) {
+    if (key.startsWith('!') && key !== '!ref' && key !== '!rows' && key !== '!merges' && key !== '!autofilter') {
+      patched[key] = sheet[key];
+    }
+  }
+  header.forEach((value, col) => {
+    patched[address(0, col)] = cellAt(0, col) ?? toCell(value, cellAt(0, 0));
+  });
+
+  processed.forEach((entry, i) => {
+    const position = positions[i];
+    header.forEach((_, col) => {
+      // Rows the server did not see take the format of its first data row
+      const base = cellAt(position >= 0 ? position + 1 : 1, col);
+      let cell: XLSX.CellObject | undefined;
+      if (col === cpColumn) cell = toCell(entry.cp ?? '', base);
+      else if (sourceIndex[col] >= 0) cell = toCell(source.rows[i]?.[sourceIndex[col]] ?? '', base);
+      else if (position >= 0 && base) cell = { ...base, f: undefined };
+      if (cell) patched[address(i + 1, col)] = cell;
+    });
+  });
+
+  const rowInfo = sheet['!rows'];
+  if (rowInfo) {
+    const heights = positions.map(position => (position >= 0 ? rowInfo[range.s.r + position + 1] : undefined));
+    patched['!rows'] = [rowInfo[range.s.r], ...heights] as XLSX.RowInfo[];
+  }
+  const headerMerges = sheet['!merges']?.filter(merge => merge.e.r === range.s.r);
+  if (headerMerges?.length) patched['!merges'] = headerMerges;
+  const end = { r: range.s.r + processed.length, c: range.s.c + header.length - 1 };
+  patched['!ref'] = XLSX.utils.encode_range({ s: range.s, e: end });
+  if (sheet['!autofilter']) patched['!autofilter'] = { ref: patched['!ref'] };
+
+  workbook.Sheets[name] = patched;
+  return writeResultWorkbook(workbook);
+};
+
+export interface RowCorrection {
+  direccion: string;
+  municipio: string;
+  /** Sent along when the mapping has a provincia column; not edited, taken from the source row */
+  provincia?: string;
+}
+
+export interface RowPatch extends RowCorrection {
+  index: number;
+  cp?: string;
+}
+
+export const MANUAL_FIX_HEADER = 'Corregido manualmente';
+
+const RETRY_SHEET = 'Correcciones';
+
+// Small workbook with only the corrected rows, laid out with the same column names as the mapping
+export const buildRetryWorkbook = (mapping: ColumnMapping, corrections: RowCorrection[]) => {
+  const { direccion, municipio, provincia } = mapping;
+  const header = provincia ? [direccion, municipio, provincia] : [direccion, municipio];
+  const rows = corrections.map(c => (provincia ? [c.direccion, c.municipio, c.provincia ?? ''] : [c.direccion, c.municipio]));
+  const file = new File([writeSheet(RETRY_SHEET, [header, ...rows])], 'correcciones.xlsx', { type: XLSX_MIME });
+  const retryMapping: ColumnMapping = { sheet: RETRY_SHEET, direccion, municipio, ...(provincia && { provincia }) };
+  return { file, mapping: retryMapping };
+};
+
+// Writes corrected addresses and CPs into the result workbook and flags those rows as manually fixed
+export const patchResultWorkbook = async (result: Blob, mapping: ColumnMapping, patches: RowPatch[]): Promise<Blob> => {
+  const workbook = await readResultWorkbook(result);
+  const sheet = workbook.Sheets[resultSheetName(workbook, mapping.sheet)];
+  const { range, address, cellAt, header } = sheetGrid(sheet);
+
+  const columnOf = (name: string) => {
+    const index = header.indexOf(name);
+    if (index >= 0) return index;
+    sheet[address(0, header.length)] = toCell(name, cellAt(0, 0));
+    return header.push(name) - 1;
+  };
+
+  const existingCp = header.findIndex(isCpHeader);
+  const cpColumn = existingCp >= 0 ? existingCp : columnOf('CP');
+  const direccionColumn = columnOf(mapping.direccion);
+  const municipioColumn = columnOf(mapping.municipio);
+  const manualColumn = columnOf(MANUAL_FIX_HEADER);
+
+  let lastRow = range.e.r - range.s.r;
+  for (const patch of patches) {
+    const row = patch.index + 1;
+    const write = (col: number, value: Cell) => {
+      sheet[address(row, col)] = toCell(value, cellAt(row, col) ?? cellAt(1, col));
+    };
+    write(direccionColumn, patch.direccion);
+    write(municipioColumn, patch.municipio);
+    write(cpColumn, patch.cp ?? '');
+    write(manualColumn, 'Si');
+    lastRow = Math.max(lastRow, row);
+  }
+
+  const end = { r: range.s.r + lastRow, c: range.s.c + header.length - 1 };
+  sheet['!ref'] = XLSX.utils.encode_range({ s: range.s, e: end });
+  return writeResultWorkbook(workbook);
+};